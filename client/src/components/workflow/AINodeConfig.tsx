@@ -80,6 +80,17 @@ const TASK_TYPES = [
   { value: 'long_context', label: '📚 Long Context', description: 'Large document processing' }
 ];
 
+// The server only accepts schemas that parse to a JSON object
+const getSchemaError = (schema: string): string | null => {
+  if (!schema.trim()) return null;
+  try {
+    const parsed = JSON.parse(schema);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? null : 'Schema must be a JSON object';
+  } catch {
+    return 'Schema is not valid JSON';
+  }
+};
+
 export function AINodeConfig({ nodeId, initialData, onSave, onTest }: AINodeConfigProps) {
   const [config, setConfig] = useState({
     prompt: initialData?.prompt || '',
@@ -89,8 +100,13 @@ export function AINodeConfig({ nodeId, initialData, onSave, onTest }: AINodeConf
     temperature: initialData?.temperature || 0.7,
     maxTokens: initialData?.maxTokens || 1000,
     parseJson: initialData?.parseJson || false,
+    maxRepairAttempts: initialData?.maxRepairAttempts ?? 2,
     context: initialData?.context || '',
-    ...initialData
+    ...initialData,
+    // JSON Schema text; empty = free-form output. Schemas set through the API may be objects
+    outputSchema: typeof initialData?.outputSchema === 'object' && initialData.outputSchema
+      ? JSON.stringify(initialData.outputSchema, null, 2)
+      : initialData?.outputSchema || ''
   });
 
   const [testing, setTesting] = useState(false);
@@ -98,6 +114,7 @@ export function AINodeConfig({ nodeId, initialData, onSave, onTest }: AINodeConf
 
   const selectedProvider = AI_PROVIDERS.find(p => p.value === config.aiProvider);
   const isSmartRouting = !config.aiProvider;
+  const schemaError = getSchemaError(config.outputSchema);
 
   const handleSave = () => {
     const saveData = {
@@ -320,6 +337,41 @@ export function AINodeConfig({ nodeId, initialData, onSave, onTest }: AINodeConf
             />
             <Label>Parse response as JSON</Label>
           </div>
+
+          <div>
+            <Label>Output Schema (Optional)</Label>
+            <Textarea
+              placeholder={'{\n  "type": "object",\n  "properties": { "category": { "type": "string" } },\n  "required": ["category"]\n}'}
+              value={config.outputSchema}
+              onChange={(e) => setConfig({...config, outputSchema: e.target.value})}
+              rows={5}
+              className="font-mono text-xs"
+            />
+            {schemaError ? (
+              <p className="text-sm text-destructive mt-1">{schemaError}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground mt-1">
+                JSON Schema the response must match. Invalid responses are sent back for repair with the validation errors.
+              </p>
+            )}
+          </div>
+
+          {config.outputSchema.trim() && (
+            <div>
+              <Label>Repair Attempts</Label>
+              <Input
+                type="number"
+                value={config.maxRepairAttempts}
+                onChange={(e) => setConfig({...config, maxRepairAttempts: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 5)})}
+                min={0}
+                max={5}
+                className="mt-2"
+              />
+              <p className="text-sm text-muted-foreground">
+                The node fails if the response still doesn't match after these re-prompts
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -2,10 +2,15 @@ import React from 'react';
 import { EdgeProps, getBezierPath, EdgeLabelRenderer } from '@xyflow/react';
 import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { getSwitchHandles } from '@/lib/switchCases';
+import { ERROR_HANDLE } from '@/lib/retryPolicy';
 import './CustomEdge.css';
 
 export default function CustomEdge({
   id,
+  source,
+  sourceHandleId,
   sourceX,
   sourceY,
   targetX,
@@ -26,6 +31,17 @@ export default function CustomEdge({
     targetPosition,
   });
 
+  // Edges leaving a switch show which case they belong to
+  const sourceConfig = useWorkflowStore(
+    (state) => state.currentWorkflow?.nodes.find((node) => node.id === source)?.data.config
+  );
+  const isErrorEdge = sourceHandleId === ERROR_HANDLE;
+  const caseLabel = isErrorEdge
+    ? 'on error'
+    : sourceConfig?.nodeType === 'switch'
+      ? getSwitchHandles(sourceConfig).find((handle) => handle.id === (sourceHandleId || 'default'))?.label
+      : undefined;
+
   const handleDelete = (event: React.MouseEvent) => {
     event.stopPropagation();
     if (typeof data?.onDelete === 'function') {
@@ -53,12 +69,29 @@ export default function CustomEdge({
         markerEnd={markerEnd}
         style={{
           ...style,
-          stroke: selected ? 'hsl(var(--primary))' : 'hsl(var(--border))',
+          stroke: selected ? 'hsl(var(--primary))' : isErrorEdge ? 'hsl(var(--destructive))' : 'hsl(var(--border))',
           strokeWidth: selected ? 3 : 2,
+          strokeDasharray: isErrorEdge ? '6 4' : undefined,
           cursor: 'pointer',
         }}
       />
       
+      {/* Case label for switch edges, "on error" for error edges */}
+      {caseLabel && !selected && (
+        <EdgeLabelRenderer>
+          <div
+            style={{
+              position: 'absolute',
+              transform: `translate(-50%, -50%) translate(${labelX}px,${labelY}px)`,
+              fontSize: 11,
+            }}
+            className="nodrag nopan px-2 py-0.5 rounded bg-card border border-border text-muted-foreground"
+          >
+            {caseLabel}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+      
       {/* Show delete button when edge is selected */}
       {selected && (
         <EdgeLabelRenderer>
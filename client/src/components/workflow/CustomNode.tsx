@@ -3,18 +3,32 @@ import { Handle, Position, NodeProps } from '@xyflow/react';
 import { NodeData, useWorkflowStore } from '@/store/workflowStore';
 import { nodeTypes } from '@/data/nodeTypes';
 import { cn } from '@/lib/utils';
-import { X } from 'lucide-react';
+import { getSwitchHandles } from '@/lib/switchCases';
+import { ERROR_HANDLE } from '@/lib/retryPolicy';
+import { X, AlertTriangle, Pin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 const CustomNode = ({ data, selected, id }: NodeProps) => {
   const typedData = data as NodeData;
   const { deleteNode, setSelectedNode } = useWorkflowStore();
+  const validation = useWorkflowStore((state) => state.validation);
+  const nodeErrors = validation?.errors.filter((issue) => issue.nodeId === id) ?? [];
+  const nodeWarnings = validation?.warnings.filter((issue) => issue.nodeId === id) ?? [];
+  const nodeIssues = [...nodeErrors, ...nodeWarnings];
+  const isPinned = useWorkflowStore((state) => !!state.pinnedData[id]);
   const [isHovered, setIsHovered] = useState(false);
   const nodeConfig = nodeTypes.find(
     (nt) => nt.type === typedData.config?.nodeType
   );
   
   const Icon = nodeConfig?.icon;
+  const outputHandles =
+    typedData.config?.nodeType === 'loop'
+      ? [{ id: 'body', label: 'each' }, { id: 'done', label: 'done' }]
+      : typedData.config?.nodeType === 'switch'
+        ? getSwitchHandles(typedData.config)
+        : null;
+  const hasErrorHandle = typedData.config?.nodeType !== 'trigger';
   const category = typedData.category || nodeConfig?.category || 'trigger'; // Fallback to nodeConfig category
   
   const handleClick = useCallback(() => {
@@ -58,10 +72,13 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
       className={cn(
         'relative px-4 py-3 rounded-lg border-2 backdrop-blur-sm transition-all',
         'min-w-[160px] cursor-pointer group',
+        outputHandles && 'pr-14',
         getCategoryClass(),
         getStatusClass(),
+        !typedData.status && nodeErrors.length > 0 && 'ring-2 ring-destructive',
         selected && 'ring-4 ring-primary/50 shadow-lg shadow-primary/20'
       )}
+      style={outputHandles ? { minHeight: (outputHandles.length + 1) * 20 } : undefined}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       onClick={handleClick}
@@ -86,6 +103,29 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
         />
       )}
       
+      {/* Validation issues - errors block activation, warnings don't */}
+      {nodeIssues.length > 0 && (
+        <div
+          className={cn(
+            'absolute -top-2 -left-2 rounded-full bg-background p-0.5',
+            nodeErrors.length > 0 ? 'text-destructive' : 'text-amber-500'
+          )}
+          title={nodeIssues.map((issue) => issue.message).join('\n')}
+        >
+          <AlertTriangle className="w-4 h-4" />
+        </div>
+      )}
+      
+      {/* Pinned sample output - mock runs use it instead of running the node */}
+      {isPinned && (
+        <div
+          className="absolute -bottom-2 -left-2 rounded-full bg-background p-0.5 text-primary"
+          title="Output pinned for mock runs"
+        >
+          <Pin className="w-3 h-3" />
+        </div>
+      )}
+      
       {/* Node content */}
       <div className="flex flex-col items-center gap-2">
         {Icon && <Icon className="w-6 h-6" />}
@@ -107,12 +147,46 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
         </Button>
       )}
       
-      {/* Output handle */}
-      <Handle
-        type="source"
-        position={Position.Right}
-        className="!w-3 !h-3 !bg-primary !border-2 !border-background"
-      />
+      {/* Output handles - loops and switches get one named handle per path */}
+      {outputHandles ? (
+        outputHandles.map((handle, index) => {
+          const top = `${((index + 1) / (outputHandles.length + 1)) * 100}%`;
+          return (
+            <div key={handle.id}>
+              <Handle
+                type="source"
+                id={handle.id}
+                position={Position.Right}
+                style={{ top }}
+                className="!w-3 !h-3 !bg-primary !border-2 !border-background"
+              />
+              <span
+                className="absolute right-2 text-[10px] text-muted-foreground max-w-[70px] truncate"
+                style={{ top, transform: 'translateY(-50%)' }}
+              >
+                {handle.label}
+              </span>
+            </div>
+          );
+        })
+      ) : (
+        <Handle
+          type="source"
+          position={Position.Right}
+          className="!w-3 !h-3 !bg-primary !border-2 !border-background"
+        />
+      )}
+
+      {/* Error handle - failures follow these edges instead of failing the run */}
+      {hasErrorHandle && (
+        <Handle
+          type="source"
+          id={ERROR_HANDLE}
+          position={Position.Bottom}
+          title="On error"
+          className="!w-2.5 !h-2.5 !bg-destructive !border-2 !border-background"
+        />
+      )}
     </div>
   );
 };
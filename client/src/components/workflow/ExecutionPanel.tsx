@@ -5,6 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { 
   Play, 
   Pause, 
@@ -22,6 +24,7 @@ import {
   Eye
 } from 'lucide-react';
 import { executionService, ExecutionStatus, ExecutionEvent } from '@/services/execution.service';
+import { ExecutionTimeline } from './ExecutionTimeline';
 import { useWorkflowStore } from '@/store/workflowStore';
 import { toast } from '@/hooks/use-toast';
 
@@ -32,14 +35,17 @@ interface ExecutionPanelProps {
 }
 
 export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
-  const { currentWorkflow } = useWorkflowStore();
+  const { currentWorkflow, pinnedData } = useWorkflowStore();
   const [execution, setExecution] = useState<ExecutionStatus | null>(null);
   const [events, setEvents] = useState<ExecutionEvent[]>([]);
   const [nodeExecutions, setNodeExecutions] = useState<any[]>([]);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [mockMode, setMockMode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showExecutionDetails, setShowExecutionDetails] = useState(false);
   const [selectedOutput, setSelectedOutput] = useState<{ nodeId: string; nodeName?: string; output: any } | null>(null);
+  // AI output streamed while nodes run, keyed by node id
+  const [liveOutputs, setLiveOutputs] = useState<Record<string, { provider: string; attempt: number; text: string }>>({});
   const unsubscribeRef = useRef<(() => void) | null>(null);
 
   // Clean up polling on unmount
@@ -74,7 +80,8 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
         triggerData: {
           timestamp: new Date().toISOString(),
           triggeredBy: 'manual'
-        }
+        },
+        mock: mockMode
       });
 
       setExecution({
@@ -85,12 +92,13 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
       
       setIsExecuting(true);
       setEvents([]);
+      setLiveOutputs({});
 
       // Real execution - backend handles node progress via events and completion
 
       toast({
-        title: "Workflow started!",
-        description: "Execution is now running...",
+        title: mockMode ? "Mock run started!" : "Workflow started!",
+        description: mockMode ? "Nodes are using pinned outputs..." : "Execution is now running...",
       });
 
       // Subscribe to execution updates
@@ -118,6 +126,14 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
         onEvent: (event) => {
           setEvents(prev => [...prev, event]);
         },
+        onToken: (event) => {
+          setLiveOutputs(prev => {
+            const current = prev[event.nodeId];
+            // A repair attempt or a fallback provider starts the text over
+            const text = current && current.attempt === event.attempt && current.provider === event.provider ? current.text : '';
+            return { ...prev, [event.nodeId]: { provider: event.provider, attempt: event.attempt, text: text + event.token } };
+          });
+        },
         onComplete: (status) => {
           setIsExecuting(false);
           setExecution(status);
@@ -344,6 +360,16 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
           )}
         </div>
 
+        <div className="flex items-center justify-between">
+          <Label htmlFor="mock-mode" className="text-sm cursor-pointer">
+            Mock mode
+            <span className="block text-xs text-muted-foreground font-normal">
+              {Object.keys(pinnedData).length} pinned node(s); no AI or external calls
+            </span>
+          </Label>
+          <Switch id="mock-mode" checked={mockMode} onCheckedChange={setMockMode} disabled={isExecuting} />
+        </div>
+
         {!canExecute && (
           <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
             <AlertCircle className="h-4 w-4 inline mr-2" />
@@ -460,6 +486,19 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
                       )}
                     </div>
                     
+                    {/* Live AI output while the node runs */}
+                    {nodeExecution.status !== 'completed' && liveOutputs[nodeExecution.nodeId] && (
+                      <div className="px-3 pb-3 border-t bg-white/50 dark:bg-gray-800/50">
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mt-2">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Streaming from {liveOutputs[nodeExecution.nodeId].provider}
+                        </div>
+                        <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-xs font-mono text-gray-900 dark:text-gray-100">
+                          {liveOutputs[nodeExecution.nodeId].text}
+                        </pre>
+                      </div>
+                    )}
+
                     {/* Node Details - Only when completed */}
                     {nodeExecution.status === 'completed' && (
                       <div className="px-3 pb-3 border-t bg-white/50 dark:bg-gray-800/50">
@@ -502,6 +541,11 @@ export function ExecutionPanel({ workflowId, className }: ExecutionPanelProps) {
           </div>
         )}
 
+        {/* Step through the execution's state as recorded in its event log */}
+        {execution && (
+          <ExecutionTimeline executionId={execution.executionId} status={execution.status} />
+        )}
+
         {/* Execution Events */}
         {events.length > 0 && (
           <Card>
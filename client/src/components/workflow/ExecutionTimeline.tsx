@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, History, Loader2, SkipBack, SkipForward } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { executionService, ExecutionLogEntry, ExecutionReplay } from '@/services/execution.service';
+import { useWorkflowStore } from '@/store/workflowStore';
+
+interface ExecutionTimelineProps {
+  executionId: string;
+  status: string; // Reloads the log when the execution's status changes
+}
+
+// Events that mark a node finishing (or being cut short); the node buttons step between these
+const NODE_EVENTS = ['node:complete', 'node:error_handled', 'node:interrupted'];
+
+export function ExecutionTimeline({ executionId, status }: ExecutionTimelineProps) {
+  const { currentWorkflow } = useWorkflowStore();
+  const [events, setEvents] = useState<ExecutionLogEntry[]>([]);
+  const [index, setIndex] = useState(0);
+  const [replay, setReplay] = useState<ExecutionReplay | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const replays = useRef<Map<number, ExecutionReplay>>(new Map());
+  const requested = useRef<number | null>(null);
+
+  useEffect(() => {
+    replays.current.clear();
+    executionService
+      .getExecutionTimeline(executionId)
+      .then((entries) => {
+        setEvents(entries);
+        setIndex(Math.max(0, entries.length - 1));
+      })
+      .catch(() => setError('Failed to load the execution log'));
+  }, [executionId, status]);
+
+  const selected = events[index];
+
+  useEffect(() => {
+    if (!selected) return;
+    const cached = replays.current.get(selected.sequence);
+    if (cached) {
+      setReplay(cached);
+      return;
+    }
+
+    // Dragging the slider fires many requests; only the last one selected is shown
+    requested.current = selected.sequence;
+    setLoading(true);
+    executionService
+      .getExecutionStateAt(executionId, selected.sequence)
+      .then((result) => {
+        replays.current.set(result.sequence, result);
+        if (requested.current === result.sequence) {
+          setReplay(result);
+          setError(null);
+        }
+      })
+      .catch((err) => setError(err?.message || 'Failed to rebuild the execution state'))
+      .finally(() => setLoading(false));
+  }, [executionId, selected]);
+
+  const stepToNode = (direction: 1 | -1) => {
+    for (let i = index + direction; i >= 0 && i < events.length; i += direction) {
+      if (NODE_EVENTS.includes(events[i].type)) {
+        setIndex(i);
+        return;
+      }
+    }
+  };
+
+  const nodeLabel = (nodeId?: string) => {
+    if (!nodeId) return undefined;
+    const node = currentWorkflow?.nodes.find((n) => n.id === nodeId);
+    return node?.data?.label || nodeId;
+  };
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Timeline
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {index + 1}/{events.length}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Slider
+          min={0}
+          max={events.length - 1}
+          step={1}
+          value={[index]}
+          onValueChange={([value]) => setIndex(value)}
+        />
+
+        <div className="flex items-center justify-between gap-1">
+          <Button variant="outline" size="sm" onClick={() => stepToNode(-1)} title="Previous node">
+            <SkipBack className="h-3 w-3" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIndex(Math.max(0, index - 1))} disabled={index === 0} title="Previous event">
+            <ChevronLeft className="h-3 w-3" />
+          </Button>
+          <div className="flex-1 min-w-0 text-center">
+            <div className="text-xs font-medium truncate">{selected.type}</div>
+            <div className="text-xs text-muted-foreground">
+              {new Date(selected.timestamp).toLocaleTimeString()}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIndex(Math.min(events.length - 1, index + 1))}
+            disabled={index === events.length - 1}
+            title="Next event"
+          >
+            <ChevronRight className="h-3 w-3" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => stepToNode(1)} title="Next node">
+            <SkipForward className="h-3 w-3" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700 text-xs">{error}</div>
+        )}
+
+        {replay && (
+          <div className="space-y-2 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{replay.context.status}</Badge>
+              {selected.nodeId && <Badge variant="outline">{nodeLabel(selected.nodeId)}</Badge>}
+              {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+
+            {Object.keys(replay.context.branches || {}).length > 1 && (
+              <div className="space-y-1">
+                {Object.values(replay.context.branches).map((branch) => (
+                  <div key={branch.id} className="flex justify-between">
+                    <span className="font-mono">{branch.id}</span>
+                    <span className="text-muted-foreground">
+                      {branch.status} at {nodeLabel(branch.currentNodeId)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="text-muted-foreground">Variables</div>
+            <ScrollArea className="h-48">
+              <pre className="bg-gray-50 dark:bg-gray-800 p-2 rounded overflow-x-auto">
+                {JSON.stringify(replay.context.variables, null, 2)}
+              </pre>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,17 +5,40 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
-import { X, TestTube, Save, Play } from 'lucide-react';
+import { X, TestTube, Save, Play, Plus, Trash2, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { AINodeConfig } from './AINodeConfig';
+import { PinnedOutputSection } from './PinnedOutputSection';
 import { authService } from '@/services/auth.service';
 import { useTriggers, useTrigger } from '@/hooks/useTriggers';
 import { useState, useEffect, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { API_URL } from '@/config/api';
+import { getSwitchCases, nextSwitchCaseId, SwitchCase } from '@/lib/switchCases';
+import { workflowService, Workflow } from '@/services/workflow.service';
+import { getRetryPolicy, DEFAULT_RETRY_POLICY, RETRYABLE_ERROR_CLASSES, RetryPolicy } from '@/lib/retryPolicy';
+
+// Name-to-value mappings (output promotions, sub-workflow inputs) are edited as "name = value" lines
+const formatMappings = (mappings: unknown): string => {
+  if (!mappings || typeof mappings !== 'object') return '';
+  return Object.entries(mappings as Record<string, string>)
+    .map(([name, value]) => `${name} = ${value}`)
+    .join('\n');
+};
+
+const parseMappings = (text: string): Record<string, string> | undefined => {
+  const mappings: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [name, ...value] = line.split('=');
+    if (name?.trim() && value.join('=').trim()) {
+      mappings[name.trim()] = value.join('=').trim();
+    }
+  }
+  return Object.keys(mappings).length > 0 ? mappings : undefined;
+};
 
 const NodeConfigPanel = () => {
-  const { selectedNode, setSelectedNode, updateNodeData, workflowId } = useWorkflowStore();
+  const { selectedNode, setSelectedNode, updateNodeData, workflowId, validation } = useWorkflowStore();
   const { toast } = useToast();
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
@@ -34,6 +57,22 @@ const NodeConfigPanel = () => {
   const [localSenderFilter, setLocalSenderFilter] = useState('');
   const [localFrequency, setLocalFrequency] = useState('5');
   
+  // Output promotion local state, one "globalName = output.path" mapping per line
+  const [localPromotions, setLocalPromotions] = useState('');
+  
+  // Sub-workflow local state
+  const [localSubWorkflowInputs, setLocalSubWorkflowInputs] = useState('');
+  const [availableWorkflows, setAvailableWorkflows] = useState<Workflow[]>([]);
+  const selectedNodeType = selectedNode?.data.config?.nodeType;
+  
+  useEffect(() => {
+    if (selectedNodeType !== 'sub-workflow') return;
+    workflowService
+      .getWorkflows({ limit: 100 })
+      .then((result) => setAvailableWorkflows(result.workflows.filter((w) => w.id !== workflowId)))
+      .catch(() => setAvailableWorkflows([]));
+  }, [selectedNodeType, workflowId]);
+  
   // Sync local state with selected node changes
   useEffect(() => {
     if (selectedNode) {
@@ -47,6 +86,8 @@ const NodeConfigPanel = () => {
       setLocalSubjectFilter(selectedNode.data.config?.subjectFilter || '');
       setLocalSenderFilter(selectedNode.data.config?.senderFilter || '');
       setLocalFrequency(selectedNode.data.config?.frequency || '5');
+      setLocalPromotions(formatMappings(selectedNode.data.config?.promoteToGlobals));
+      setLocalSubWorkflowInputs(formatMappings(selectedNode.data.config?.inputs));
     }
   }, [selectedNode?.id]); // Only re-sync when node ID changes, not on every update
   
@@ -108,6 +149,14 @@ const NodeConfigPanel = () => {
     });
   };
   
+  const nodeIssues = [...(validation?.errors ?? []), ...(validation?.warnings ?? [])]
+    .filter((issue) => issue.nodeId === selectedNode.id);
+  
+  const retryPolicy = getRetryPolicy(selectedNode.data.config);
+  const updateRetryPolicy = (changes: Partial<RetryPolicy>) => {
+    updateConfig('retry', { ...DEFAULT_RETRY_POLICY, ...retryPolicy, ...changes, enabled: true });
+  };
+  
   const updateLabel = (label: string) => {
     updateNodeData(selectedNode.id, { label });
   };
@@ -498,6 +547,55 @@ const NodeConfigPanel = () => {
                 placeholder="200"
               />
             </div>
+
+            <div>
+              <Label>Idempotency Header</Label>
+              <Input
+                value={selectedNode.data.config?.idempotencyHeader || ''}
+                onChange={(e) => updateConfig('idempotencyHeader', e.target.value || undefined)}
+                placeholder="Idempotency-Key"
+              />
+            </div>
+
+            <div>
+              <Label>Idempotency Key Path (optional)</Label>
+              <Input
+                value={selectedNode.data.config?.idempotencyKeyPath || ''}
+                onChange={(e) => updateConfig('idempotencyKeyPath', e.target.value || undefined)}
+                placeholder="event.id"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Read the key from the payload instead of a header. Repeated keys return the original execution.
+              </p>
+            </div>
+
+            <div>
+              <Label>Dedupe Window (seconds)</Label>
+              <Input
+                type="number"
+                value={selectedNode.data.config?.dedupeWindow || ''}
+                onChange={(e) => updateConfig('dedupeWindow', e.target.value ? parseInt(e.target.value) : undefined)}
+                placeholder="86400"
+              />
+            </div>
+
+            <div>
+              <Label>Priority</Label>
+              <Select
+                value={selectedNode.data.config?.priority || 'default'}
+                onValueChange={(value) => updateConfig('priority', value === 'default' ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Workflow default</SelectItem>
+                  <SelectItem value="critical">Critical</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                  <SelectItem value="bulk">Bulk</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         );
         
@@ -763,6 +861,361 @@ const NodeConfigPanel = () => {
           </div>
         );
         
+      case 'loop':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Items</Label>
+              <Input
+                value={selectedNode.data.config?.items || ''}
+                onChange={(e) => updateConfig('items', e.target.value)}
+                placeholder="nodes.transform-1.data"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Path to an array. Connect the "each" handle to the nodes to run per item; use {'{{loop.item}}'} inside them.
+              </p>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>Batch Size</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={selectedNode.data.config?.batchSize || 1}
+                  onChange={(e) => updateConfig('batchSize', parseInt(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label>Concurrency</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={selectedNode.data.config?.concurrency || 1}
+                  onChange={(e) => updateConfig('concurrency', parseInt(e.target.value))}
+                />
+              </div>
+            </div>
+            
+            <div>
+              <Label>On Item Error</Label>
+              <Select
+                value={selectedNode.data.config?.onError || 'fail'}
+                onValueChange={(value) => updateConfig('onError', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fail">Fail the loop</SelectItem>
+                  <SelectItem value="skip">Skip the item</SelectItem>
+                  <SelectItem value="collect">Collect errors and continue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        );
+        
+      case 'switch': {
+        const cases = getSwitchCases(selectedNode.data.config);
+        const updateCase = (caseId: string, changes: Partial<SwitchCase>) => {
+          updateConfig('cases', cases.map((c) => (c.id === caseId ? { ...c, ...changes } : c)));
+        };
+        
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Value</Label>
+              <Input
+                value={selectedNode.data.config?.value || ''}
+                onChange={(e) => updateConfig('value', e.target.value)}
+                placeholder="trigger.status"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Routes to the first case whose value matches, otherwise to default.
+              </p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label>Cases</Label>
+              {cases.map((c) => (
+                <div key={c.id} className="flex gap-2">
+                  <Input
+                    value={c.name}
+                    onChange={(e) => updateCase(c.id, { name: e.target.value })}
+                    placeholder="Name"
+                  />
+                  <Input
+                    value={c.value}
+                    onChange={(e) => updateCase(c.id, { value: e.target.value })}
+                    placeholder="Matches"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateConfig('cases', cases.filter((other) => other.id !== c.id))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => updateConfig('cases', [...cases, { id: nextSwitchCaseId(cases), name: '', value: '' }])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Case
+              </Button>
+            </div>
+          </div>
+        );
+      }
+        
+      case 'sub-workflow':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Workflow</Label>
+              <Select
+                value={selectedNode.data.config?.workflowId || ''}
+                onValueChange={(value) => updateConfig('workflowId', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a workflow" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableWorkflows.map((w) => (
+                    <SelectItem key={w.id} value={w.id as string}>
+                      {w.name}{w.version ? ` (v${w.version})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div>
+              <Label>Pin to Version (optional)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={selectedNode.data.config?.version || ''}
+                onChange={(e) => updateConfig('version', e.target.value ? parseInt(e.target.value) : undefined)}
+                placeholder="Latest"
+              />
+            </div>
+            
+            <div>
+              <Label>Inputs</Label>
+              <Textarea
+                value={localSubWorkflowInputs}
+                onChange={(e) => {
+                  setLocalSubWorkflowInputs(e.target.value);
+                  debouncedUpdateConfig('inputs', parseMappings(e.target.value));
+                }}
+                placeholder={'email = {{trigger.customer.email}}\ncustomer = {{nodes.lookup-1.data}}'}
+                rows={3}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Passed to the child as its trigger data. This node waits until the child run finishes.
+              </p>
+            </div>
+          </div>
+        );
+        
+      case 'merge':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Merge Mode</Label>
+              <Select
+                value={selectedNode.data.config?.mode || 'append'}
+                onValueChange={(value) => updateConfig('mode', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="append">Append arrays</SelectItem>
+                  <SelectItem value="merge_by_key">Merge objects by key</SelectItem>
+                  <SelectItem value="zip">Zip by index</SelectItem>
+                  <SelectItem value="join">Join on a field</SelectItem>
+                  <SelectItem value="wait_first">Wait for first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div>
+              <Label>Input Field (optional)</Label>
+              <Input
+                value={selectedNode.data.config?.field || ''}
+                onChange={(e) => updateConfig('field', e.target.value)}
+                placeholder="data"
+              />
+            </div>
+            
+            {selectedNode.data.config?.mode === 'merge_by_key' && (
+              <div>
+                <Label>Key Field</Label>
+                <Input
+                  value={selectedNode.data.config?.key || ''}
+                  onChange={(e) => updateConfig('key', e.target.value)}
+                  placeholder="id"
+                />
+              </div>
+            )}
+            
+            {selectedNode.data.config?.mode === 'join' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Join Field</Label>
+                  <Input
+                    value={selectedNode.data.config?.joinKey || ''}
+                    onChange={(e) => updateConfig('joinKey', e.target.value)}
+                    placeholder="id"
+                  />
+                </div>
+                <div>
+                  <Label>Join Type</Label>
+                  <Select
+                    value={selectedNode.data.config?.joinType || 'inner'}
+                    onValueChange={(value) => updateConfig('joinType', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="inner">Inner</SelectItem>
+                      <SelectItem value="left">Left</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+        
+      case 'join':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Wait For</Label>
+              <Select
+                value={selectedNode.data.config?.mode || 'all'}
+                onValueChange={(value) => updateConfig('mode', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All incoming branches</SelectItem>
+                  <SelectItem value="n_of_m">N of M branches</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {selectedNode.data.config?.mode === 'n_of_m' && (
+              <div>
+                <Label>Branches Required</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={selectedNode.data.config?.count || 1}
+                  onChange={(e) => updateConfig('count', parseInt(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+        );
+        
+      case 'wait':
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Wait Mode</Label>
+              <Select
+                value={selectedNode.data.config?.mode || 'delay'}
+                onValueChange={(value) => updateConfig('mode', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delay">Fixed delay</SelectItem>
+                  <SelectItem value="until_date">Until date</SelectItem>
+                  <SelectItem value="until_weekday">Until weekday</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {(selectedNode.data.config?.mode || 'delay') === 'delay' && (
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={selectedNode.data.config?.delay || ''}
+                  onChange={(e) => updateConfig('delay', parseInt(e.target.value))}
+                  placeholder="5"
+                />
+                <Select
+                  value={selectedNode.data.config?.unit || 'seconds'}
+                  onValueChange={(value) => updateConfig('unit', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="seconds">Seconds</SelectItem>
+                    <SelectItem value="minutes">Minutes</SelectItem>
+                    <SelectItem value="hours">Hours</SelectItem>
+                    <SelectItem value="days">Days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
+            {selectedNode.data.config?.mode === 'until_date' && (
+              <div>
+                <Label>Resume At</Label>
+                <Input
+                  value={selectedNode.data.config?.untilDate || ''}
+                  onChange={(e) => updateConfig('untilDate', e.target.value)}
+                  placeholder="2025-01-31T09:00:00Z or {{followUpDate}}"
+                />
+              </div>
+            )}
+            
+            {selectedNode.data.config?.mode === 'until_weekday' && (
+              <div className="flex gap-2">
+                <Select
+                  value={selectedNode.data.config?.weekday !== undefined ? String(selectedNode.data.config.weekday) : undefined}
+                  onValueChange={(value) => updateConfig('weekday', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Day" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Sunday</SelectItem>
+                    <SelectItem value="1">Monday</SelectItem>
+                    <SelectItem value="2">Tuesday</SelectItem>
+                    <SelectItem value="3">Wednesday</SelectItem>
+                    <SelectItem value="4">Thursday</SelectItem>
+                    <SelectItem value="5">Friday</SelectItem>
+                    <SelectItem value="6">Saturday</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="time"
+                  value={selectedNode.data.config?.time || '00:00'}
+                  onChange={(e) => updateConfig('time', e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        );
+        
       case 'http-request':
         return (
           <div className="space-y-4">
@@ -881,6 +1334,24 @@ const NodeConfigPanel = () => {
       </div>
       
       <div className="p-4 space-y-6">
+        {nodeIssues.length > 0 && (
+          <div className="space-y-1">
+            {nodeIssues.map((issue, index) => (
+              <div
+                key={`${issue.code}-${index}`}
+                className={`flex items-start gap-2 text-xs rounded border p-2 ${
+                  issue.severity === 'error'
+                    ? 'border-destructive/50 text-destructive'
+                    : 'border-amber-500/50 text-amber-600'
+                }`}
+              >
+                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div>
           <Label>Node Name</Label>
           <Input
@@ -904,6 +1375,108 @@ const NodeConfigPanel = () => {
           {renderConfigForm()}
         </div>
         
+        {!isTriggerNode && (
+          <div className="pt-4 border-t border-border space-y-2">
+            <h3 className="text-sm font-medium">Output</h3>
+            <p className="text-xs text-muted-foreground">
+              Available to later nodes as <code>{`{{nodes.${selectedNode.id}.field}}`}</code>
+            </p>
+            <Label>Promote to Globals (optional)</Label>
+            <Textarea
+              value={localPromotions}
+              onChange={(e) => {
+                setLocalPromotions(e.target.value);
+                debouncedUpdateConfig('promoteToGlobals', parseMappings(e.target.value));
+              }}
+              placeholder={'summary = aiResponse\ncustomerId = data.id'}
+              rows={3}
+              className="font-mono text-xs"
+            />
+          </div>
+        )}
+        
+        {!isTriggerNode && workflowId && workflowId !== 'new' && (
+          <PinnedOutputSection workflowId={workflowId} nodeId={selectedNode.id} />
+        )}
+        
+        {!isTriggerNode && (
+          <div className="pt-4 border-t border-border space-y-3">
+            <h3 className="text-sm font-medium">Error Handling</h3>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="retryEnabled"
+                checked={!!retryPolicy}
+                onCheckedChange={(checked) =>
+                  updateConfig('retry', checked ? { ...DEFAULT_RETRY_POLICY } : { ...retryPolicy, enabled: false })
+                }
+              />
+              <Label htmlFor="retryEnabled" className="text-sm cursor-pointer">
+                Retry on failure
+              </Label>
+            </div>
+            {retryPolicy && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label className="text-xs">Attempts</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={retryPolicy.maxAttempts}
+                      onChange={(e) => updateRetryPolicy({ maxAttempts: parseInt(e.target.value) || 1 })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Delay (ms)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={retryPolicy.baseDelay}
+                      onChange={(e) => updateRetryPolicy({ baseDelay: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Backoff ×</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="0.5"
+                      value={retryPolicy.backoffMultiplier}
+                      onChange={(e) => updateRetryPolicy({ backoffMultiplier: parseFloat(e.target.value) || 1 })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Retry on</Label>
+                  {RETRYABLE_ERROR_CLASSES.map((errorClass) => (
+                    <div key={errorClass.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`retryOn-${errorClass.id}`}
+                        checked={retryPolicy.retryOn.includes(errorClass.id)}
+                        onCheckedChange={(checked) =>
+                          updateRetryPolicy({
+                            retryOn: checked
+                              ? [...retryPolicy.retryOn, errorClass.id]
+                              : retryPolicy.retryOn.filter((id) => id !== errorClass.id),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`retryOn-${errorClass.id}`} className="text-xs cursor-pointer">
+                        {errorClass.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Connect the red handle at the bottom of the node to run a compensation path when it still fails.
+              The failure is available as <code>{`{{nodes.${selectedNode.id}.error}}`}</code>.
+            </p>
+          </div>
+        )}
+        
         {/* Trigger-specific action buttons */}
         {isTriggerNode && (
           <div className="pt-4 border-t border-border space-y-3">
@@ -13,7 +13,8 @@ import {
   ChevronRight,
   Eye,
   Zap,
-  Brain
+  Brain,
+  RotateCcw
 } from 'lucide-react';
 
 interface NodeExecutionData {
@@ -27,6 +28,9 @@ interface NodeExecutionData {
   executionTime?: number;
   input?: any;
   output?: any;
+  promoted?: Record<string, unknown>;
+  attempts?: { attempt: number; delay: number; error?: string; timestamp: Date | string }[];
+  handled?: boolean;
   error?: string;
   aiProvider?: string;
   tokensUsed?: number;
@@ -37,6 +41,7 @@ interface NodeExecutionData {
 interface NodeExecutionViewProps {
   executions: NodeExecutionData[];
   onViewNodeOutput: (nodeId: string, output: any) => void;
+  onRetryFromNode?: (nodeId: string) => void;
 }
 
 const getStatusIcon = (status: NodeExecutionData['status']) => {
@@ -76,7 +81,8 @@ const getStatusColor = (status: NodeExecutionData['status']) => {
 const NodeExecutionItem: React.FC<{ 
   execution: NodeExecutionData; 
   onViewOutput: (nodeId: string, output: any) => void;
-}> = ({ execution, onViewOutput }) => {
+  onRetry?: (nodeId: string) => void;
+}> = ({ execution, onViewOutput, onRetry }) => {
   const [isOpen, setIsOpen] = React.useState(false);
 
   const formatDuration = (ms?: number) => {
@@ -187,11 +193,61 @@ const NodeExecutionItem: React.FC<{
               </div>
             )}
 
+            {/* Where the output lives in the workflow's variables */}
+            <div className="space-y-1 text-xs border border-gray-200 dark:border-gray-700 rounded p-2">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-gray-700 dark:text-gray-300">Output scope:</span>
+                <code className="font-mono text-gray-900 dark:text-white">nodes.{execution.nodeId}</code>
+              </div>
+              {execution.promoted && Object.keys(execution.promoted).length > 0 && (
+                <div>
+                  <span className="font-semibold text-gray-700 dark:text-gray-300">Promoted to globals:</span>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {Object.keys(execution.promoted).map((name) => (
+                      <Badge key={name} variant="outline" className="font-mono text-xs">
+                        {name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Retry attempts */}
+            {execution.attempts && execution.attempts.length > 1 && (
+              <div className="space-y-1 text-xs border border-gray-200 dark:border-gray-700 rounded p-2">
+                <span className="font-semibold text-gray-700 dark:text-gray-300">
+                  Attempts ({execution.attempts.length}):
+                </span>
+                {execution.attempts.map((attempt) => (
+                  <div key={attempt.attempt} className="flex justify-between gap-2">
+                    <span className="font-mono">#{attempt.attempt}</span>
+                    <span className={attempt.error ? 'text-red-600 truncate' : 'text-green-600'}>
+                      {attempt.error || 'succeeded'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Error details */}
             {execution.error && (
               <div className="p-2 bg-red-100 border border-red-200 rounded text-xs">
-                <span className="font-medium text-red-800">Error:</span>
+                <span className="font-medium text-red-800">
+                  {execution.handled ? 'Error (handled by error path):' : 'Error:'}
+                </span>
                 <div className="text-red-700 mt-1">{execution.error}</div>
+                {onRetry && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs w-full mt-2"
+                    onClick={() => onRetry(execution.nodeId)}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry from this node
+                  </Button>
+                )}
               </div>
             )}
 
@@ -228,7 +284,8 @@ const NodeExecutionItem: React.FC<{
 
 export const NodeExecutionView: React.FC<NodeExecutionViewProps> = ({ 
   executions, 
-  onViewNodeOutput 
+  onViewNodeOutput,
+  onRetryFromNode
 }) => {
   const completedCount = executions.filter(e => e.status === 'completed').length;
   const totalCount = executions.length;
@@ -279,6 +336,7 @@ export const NodeExecutionView: React.FC<NodeExecutionViewProps> = ({
               key={execution.nodeId} 
               execution={execution} 
               onViewOutput={onViewNodeOutput}
+              onRetry={onRetryFromNode}
             />
           ))
         )}
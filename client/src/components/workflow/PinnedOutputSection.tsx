@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Pin, PinOff, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { workflowService } from '@/services/workflow.service';
+import { executionService } from '@/services/execution.service';
+
+interface PinnedOutputSectionProps {
+  workflowId: string;
+  nodeId: string;
+}
+
+const formatOutput = (output: unknown) => (output === undefined ? '' : JSON.stringify(output, null, 2));
+
+/**
+ * Pin sample output to a node; mock runs use it instead of running the node
+ */
+export function PinnedOutputSection({ workflowId, nodeId }: PinnedOutputSectionProps) {
+  const { toast } = useToast();
+  const pinnedData = useWorkflowStore((state) => state.pinnedData);
+  const setPinnedData = useWorkflowStore((state) => state.setPinnedData);
+  const pin = pinnedData[nodeId];
+  const [draft, setDraft] = useState(formatOutput(pin?.output));
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setDraft(formatOutput(pin?.output));
+  }, [nodeId, pin]);
+
+  const handleCapture = async () => {
+    try {
+      setBusy(true);
+      const output = await executionService.getLatestNodeOutput(workflowId, nodeId);
+      if (output === undefined) {
+        toast({ title: 'No output yet', description: 'Run the workflow once so this node has an output to pin' });
+        return;
+      }
+      setDraft(formatOutput(output));
+    } catch {
+      toast({ title: 'Failed to load the last run', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePin = async () => {
+    let output: unknown;
+    try {
+      output = JSON.parse(draft);
+    } catch {
+      toast({ title: 'Invalid JSON', description: 'Pinned output must be valid JSON', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const saved = await workflowService.pinNodeOutput(workflowId, nodeId, output);
+      setPinnedData({ ...useWorkflowStore.getState().pinnedData, [nodeId]: saved });
+      toast({ title: 'Output pinned', description: 'Mock runs will use it instead of running this node' });
+    } catch (error) {
+      toast({
+        title: 'Failed to pin output',
+        description: (error as { message?: string })?.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnpin = async () => {
+    try {
+      setBusy(true);
+      await workflowService.unpinNodeOutput(workflowId, nodeId);
+      const { [nodeId]: _removed, ...rest } = useWorkflowStore.getState().pinnedData;
+      setPinnedData(rest);
+    } catch {
+      toast({ title: 'Failed to remove pinned output', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-border space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <Pin className="w-3 h-3" />
+          Pinned Output
+        </h3>
+        {busy && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {pin
+          ? `Pinned ${new Date(pin.pinnedAt).toLocaleString()}. Mock runs return this instead of running the node.`
+          : 'Mock runs return pinned output instead of calling AI providers or external services.'}
+      </p>
+      <Label className="sr-only">Pinned output JSON</Label>
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={'{\n  "aiResponse": "Sample answer"\n}'}
+        rows={5}
+        className="font-mono text-xs"
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleCapture} disabled={busy} className="flex-1">
+          <Download className="w-3 h-3 mr-1" />
+          Last run
+        </Button>
+        <Button variant="outline" size="sm" onClick={handlePin} disabled={busy || !draft.trim()} className="flex-1">
+          <Pin className="w-3 h-3 mr-1" />
+          Pin
+        </Button>
+        {pin && (
+          <Button variant="outline" size="sm" onClick={handleUnpin} disabled={busy}>
+            <PinOff className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { executionService } from '@/services/execution.service';
+
+interface RetryExecutionDialogProps {
+  executionId: string | null;
+  initialNodeId?: string;
+  onOpenChange: (open: boolean) => void;
+  onRetried?: (executionId: string) => void;
+}
+
+const RetryExecutionDialog = ({ executionId, initialNodeId, onOpenChange, onRetried }: RetryExecutionDialogProps) => {
+  const [nodes, setNodes] = useState<{ nodeId: string; error?: string }[]>([]);
+  const [nodeId, setNodeId] = useState('');
+  const [patch, setPatch] = useState('');
+  const [useLatestVersion, setUseLatestVersion] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!executionId) return;
+    setLoading(true);
+    setPatch('');
+    setUseLatestVersion(false);
+    executionService
+      .getNodeExecutions(executionId)
+      .then((history) => {
+        // One entry per node, keeping its last run; default to the node that failed
+        const lastRuns = new Map(history.map((entry) => [entry.nodeId, entry]));
+        const entries = [...lastRuns.values()];
+        setNodes(entries);
+        setNodeId(initialNodeId || entries.find((entry) => entry.error)?.nodeId || entries[entries.length - 1]?.nodeId || '');
+      })
+      .catch(() => toast.error('Failed to load execution'))
+      .finally(() => setLoading(false));
+  }, [executionId, initialNodeId]);
+
+  const handleRetry = async () => {
+    if (!executionId || !nodeId) return;
+
+    let variables: Record<string, unknown> | undefined;
+    if (patch.trim()) {
+      try {
+        variables = JSON.parse(patch);
+      } catch {
+        toast.error('Variable patch must be valid JSON');
+        return;
+      }
+    }
+
+    try {
+      setSubmitting(true);
+      const result = await executionService.retryFromNode(executionId, nodeId, { variables, useLatestVersion });
+      toast.success(`Retry started as ${result.executionId}`);
+      onOpenChange(false);
+      onRetried?.(result.executionId);
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || 'Failed to retry execution');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!executionId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Retry from node</DialogTitle>
+          <DialogDescription>
+            Starts a new linked execution at the chosen node. Nodes before it are not run again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label>Start at</Label>
+              <Select value={nodeId} onValueChange={setNodeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a node" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nodes.map((node) => (
+                    <SelectItem key={node.nodeId} value={node.nodeId}>
+                      {node.nodeId}{node.error ? ' (failed)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Patch variables (optional JSON)</Label>
+              <Textarea
+                value={patch}
+                onChange={(e) => setPatch(e.target.value)}
+                placeholder={'{ "trigger": { "email": "fixed@example.com" } }'}
+                rows={4}
+                className="font-mono text-xs"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="useLatestVersion"
+                checked={useLatestVersion}
+                onCheckedChange={(checked) => setUseLatestVersion(!!checked)}
+              />
+              <Label htmlFor="useLatestVersion" className="text-sm cursor-pointer">
+                Run on the latest workflow version
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRetry} disabled={!nodeId || submitting || loading}>
+            {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            Retry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RetryExecutionDialog;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { History, RotateCcw, GitCompare, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { workflowService, WorkflowVersionSummary, WorkflowVersionDiff } from '@/services/workflow.service';
+
+interface VersionHistoryDialogProps {
+  workflowId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const DiffList = ({ label, ids, className }: { label: string; ids: string[]; className: string }) =>
+  ids.length > 0 ? (
+    <div>
+      <span className="font-medium">{label}:</span>{' '}
+      <span className={`font-mono ${className}`}>{ids.join(', ')}</span>
+    </div>
+  ) : null;
+
+const VersionHistoryDialog = ({ workflowId, open, onOpenChange, onRestored }: VersionHistoryDialogProps) => {
+  const [versions, setVersions] = useState<WorkflowVersionSummary[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [diff, setDiff] = useState<WorkflowVersionDiff | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setDiff(null);
+    workflowService
+      .getVersions(workflowId)
+      .then((result) => {
+        setVersions(result.versions);
+        setCurrentVersion(result.currentVersion);
+      })
+      .catch(() => toast.error('Failed to load version history'))
+      .finally(() => setLoading(false));
+  }, [open, workflowId]);
+
+  const handleCompare = async (version: number) => {
+    if (currentVersion === null) return;
+    try {
+      setDiff(await workflowService.diffVersions(workflowId, version, currentVersion));
+    } catch {
+      toast.error('Failed to compare versions');
+    }
+  };
+
+  const handleRestore = async (version?: number) => {
+    try {
+      setBusy(true);
+      const restored = version
+        ? await workflowService.restoreVersion(workflowId, version)
+        : await workflowService.rollbackWorkflow(workflowId);
+      toast.success(`Restored version ${restored.restoredFrom} as version ${restored.version}`);
+      onOpenChange(false);
+      onRestored();
+    } catch (error) {
+      toast.error((error as { message?: string })?.message || 'Failed to restore version');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every saved change is kept as a version. Running executions stay on the version they started with.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy || versions.length < 2}
+                onClick={() => handleRestore()}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Roll back to previous version
+              </Button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto divide-y divide-border border border-border rounded">
+              {versions.map((version) => (
+                <div key={version.version} className="flex items-center justify-between gap-2 p-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      {version.version === currentVersion && <Badge>current</Badge>}
+                      {version.restoredFrom && (
+                        <Badge variant="outline">restored from v{version.restoredFrom}</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {new Date(version.createdAt).toLocaleString()}
+                      {version.message ? ` · ${version.message}` : ''}
+                    </div>
+                  </div>
+                  {version.version !== currentVersion && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => handleCompare(version.version)}>
+                        <GitCompare className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRestore(version.version)}>
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {diff && (
+              <div className="space-y-1 text-xs border border-border rounded p-3">
+                <div className="font-semibold">
+                  Changes from v{diff.from} to v{diff.to}
+                </div>
+                {diff.name && (
+                  <div>
+                    <span className="font-medium">Renamed:</span> {diff.name.from} → {diff.name.to}
+                  </div>
+                )}
+                <DiffList label="Nodes added" ids={diff.nodes.added} className="text-green-600" />
+                <DiffList label="Nodes removed" ids={diff.nodes.removed} className="text-red-600" />
+                <DiffList label="Nodes changed" ids={diff.nodes.changed} className="text-amber-600" />
+                <DiffList label="Nodes moved" ids={diff.nodes.moved} className="text-muted-foreground" />
+                <DiffList label="Edges added" ids={diff.edges.added} className="text-green-600" />
+                <DiffList label="Edges removed" ids={diff.edges.removed} className="text-red-600" />
+                <DiffList label="Edges changed" ids={diff.edges.changed} className="text-amber-600" />
+                <DiffList label="Settings changed" ids={diff.settings} className="text-amber-600" />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VersionHistoryDialog;
@@ -1,13 +1,14 @@
 import { useWorkflowStore } from '@/store/workflowStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Save, Play, StopCircle, Settings, User, Loader2 } from 'lucide-react';
+import { Save, Play, StopCircle, Settings, User, Loader2, History } from 'lucide-react';
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { SaveStatusIndicator } from './SaveStatusIndicator';
 import { workflowService } from '@/services/workflow.service';
 import { executionService } from '@/services/execution.service';
+import VersionHistoryDialog from './VersionHistoryDialog';
 
 interface WorkflowNavbarProps {
   saveStatus?: 'idle' | 'saving' | 'saved' | 'error';
@@ -21,6 +22,7 @@ const WorkflowNavbar = ({ saveStatus = 'idle', lastSaved, onSave }: WorkflowNavb
   const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(null);
   const navigate = useNavigate();
   const [isEditingName, setIsEditingName] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   const handleSave = () => {
     if (onSave) {
@@ -41,7 +43,11 @@ const WorkflowNavbar = ({ saveStatus = 'idle', lastSaved, onSave }: WorkflowNavb
       toast.info('Workflow execution started');
       const result = await workflowService.executeWorkflow(currentWorkflow.id);
       setCurrentExecutionId(result.executionId);
-      toast.success('Workflow execution initiated');
+      if (result.status === 'queued') {
+        toast.info('Workflow is at its concurrency limit; the execution will start when a run finishes');
+      } else {
+        toast.success('Workflow execution initiated');
+      }
     } catch (error: any) {
       toast.error('Execution failed: ' + (error?.message || 'Unknown error'));
       setIsExecuting(false);
@@ -123,6 +129,19 @@ const WorkflowNavbar = ({ saveStatus = 'idle', lastSaved, onSave }: WorkflowNavb
       
       {/* Right side */}
       <div className="flex items-center gap-2">
+        {currentWorkflow.id && currentWorkflow.id !== 'new' && (
+          <>
+            <Button variant="ghost" size="icon" onClick={() => setShowHistory(true)} title="Version history">
+              <History className="w-5 h-5" />
+            </Button>
+            <VersionHistoryDialog
+              workflowId={currentWorkflow.id}
+              open={showHistory}
+              onOpenChange={setShowHistory}
+              onRestored={() => window.location.reload()}
+            />
+          </>
+        )}
         <Button variant="ghost" size="icon" onClick={() => navigate('/settings')}>
           <Settings className="w-5 h-5" />
         </Button>
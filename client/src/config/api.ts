@@ -10,3 +10,4 @@ const resolvedBaseUrl =
 
 export const API_BASE_URL = resolvedBaseUrl.replace(/\/$/, '');
 export const API_URL = `${API_BASE_URL}/api`;
+export const WS_URL = `${API_URL.replace(/^http/, 'ws')}/ws`;
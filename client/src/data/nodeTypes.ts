@@ -14,6 +14,8 @@ import {
   GitBranch,
   Repeat,
   GitMerge,
+  Combine,
+  Workflow,
   UserCheck,
   FileText,
   Clipboard,
@@ -154,7 +156,7 @@ export const nodeTypes: NodeType[] = [
     label: 'Loop',
     category: 'logic',
     icon: Repeat,
-    description: 'Repeat actions',
+    description: 'Run a path for each item',
     color: 'logic',
   },
   {
@@ -165,6 +167,30 @@ export const nodeTypes: NodeType[] = [
     description: 'Combine branches',
     color: 'logic',
   },
+  {
+    type: 'wait',
+    label: 'Wait',
+    category: 'logic',
+    icon: Clock,
+    description: 'Delay or wait until a date',
+    color: 'logic',
+  },
+  {
+    type: 'join',
+    label: 'Join',
+    category: 'logic',
+    icon: Combine,
+    description: 'Wait for parallel branches',
+    color: 'logic',
+  },
+  {
+    type: 'sub-workflow',
+    label: 'Sub-workflow',
+    category: 'logic',
+    icon: Workflow,
+    description: 'Run another workflow and wait for it',
+    color: 'logic',
+  },
   
   // Human
   {
@@ -55,7 +55,8 @@ export const useAutoSave = (workflowId?: string) => {
         status: (currentWorkflow.status === 'archived' ? 'draft' : currentWorkflow.status) || 'draft'
       };
 
-      await workflowService.updateWorkflow(workflowId, workflowData);
+      const saved = await workflowService.updateWorkflow(workflowId, workflowData);
+      useWorkflowStore.getState().setValidation(saved.validation ?? null);
       
       // Update save status
       setSaveStatus('saved');
@@ -14,6 +14,8 @@ export interface TriggerConfig {
     updatedAt: Date;
     lastTriggered?: Date;
     triggerCount?: number;
+    dedupeHits?: number;
+    lastDedupeHit?: Date;
     errors?: Array<{
       timestamp: Date;
       error: string;
@@ -44,6 +46,8 @@ export interface TriggerStats {
   successfulExecutions: number;
   failedExecutions: number;
   averageDuration: number;
+  dedupeHits: number; // Deliveries that repeated an idempotency key and reused the original execution
+  lastDedupeHit?: Date;
   errors: Array<{
     timestamp: Date;
     error: string;
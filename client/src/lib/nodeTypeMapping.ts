@@ -24,9 +24,12 @@ const frontendToBackendMap: Record<string, string> = {
 
   // Logic
   'condition': 'decision',
-  'switch': 'decision',
-  'loop': 'action',
-  'merge': 'action',
+  'switch': 'switch',
+  'loop': 'loop',
+  'merge': 'merge',
+  'join': 'join',
+  'wait': 'timer',
+  'sub-workflow': 'sub_workflow',
 
   // Human
   'approval-request': 'human_task',
@@ -50,10 +53,15 @@ const backendToFrontendDetailedMap: Record<string, string> = {
   'human_task': 'approval-request',
   'form_builder': 'form-input',
   'email_automation': 'send-email',
-  'timer': 'schedule-trigger',
+  'timer': 'wait',
   'file_operations': 'http-request',
   'data_transform': 'http-request',
   'push_notification': 'send-email',
+  'join': 'join',
+  'loop': 'loop',
+  'merge': 'merge',
+  'switch': 'switch',
+  'sub_workflow': 'sub-workflow',
 };
 
 /**
@@ -77,7 +85,7 @@ export function getCategoryForNodeType(nodeType: string): string {
   if (nodeType.includes('trigger')) return 'trigger';
   if (nodeType.startsWith('ai-')) return 'ai';
   if (['http-request', 'database-query', 'send-email', 'slack-message'].includes(nodeType)) return 'action';
-  if (['condition', 'switch', 'loop', 'merge'].includes(nodeType)) return 'logic';
+  if (['condition', 'switch', 'loop', 'merge', 'join', 'wait', 'sub-workflow'].includes(nodeType)) return 'logic';
   if (['approval-request', 'form-input', 'manual-task'].includes(nodeType)) return 'human';
   return 'trigger';
 }
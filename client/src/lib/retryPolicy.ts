@@ -0,0 +1,40 @@
+/**
+ * Per-node retry policies and the error handle failures are routed through.
+ * Field names and the handle id must match the backend's engine/retry-policy.ts.
+ */
+
+export const ERROR_HANDLE = 'error';
+
+export type RetryableErrorClass = 'network' | 'timeout' | 'server' | 'rate_limit' | 'any';
+
+export interface RetryPolicy {
+  enabled?: boolean;
+  maxAttempts: number;
+  baseDelay: number;
+  backoffMultiplier: number;
+  retryOn: RetryableErrorClass[];
+}
+
+export const RETRYABLE_ERROR_CLASSES: { id: RetryableErrorClass; label: string }[] = [
+  { id: 'network', label: 'Network errors' },
+  { id: 'timeout', label: 'Timeouts' },
+  { id: 'server', label: 'Server errors (5xx)' },
+  { id: 'rate_limit', label: 'Rate limits (429)' },
+  { id: 'any', label: 'Any error' },
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  backoffMultiplier: 2,
+  retryOn: ['network', 'timeout', 'server', 'rate_limit'],
+};
+
+/**
+ * Read a node's retry policy from its config, or null when retries are off
+ */
+export function getRetryPolicy(config?: Record<string, unknown>): RetryPolicy | null {
+  const retry = config?.retry as Partial<RetryPolicy> | undefined;
+  if (!retry || retry.enabled === false) return null;
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
@@ -0,0 +1,43 @@
+/**
+ * Switch node cases and the output handles they map to.
+ * Handle ids must match what the backend switch node returns as `handle`.
+ */
+
+export interface SwitchCase {
+  id: string;
+  name: string;
+  value: string;
+}
+
+export const DEFAULT_SWITCH_HANDLE = 'default';
+
+/**
+ * Read the configured cases from a switch node's config
+ */
+export function getSwitchCases(config?: Record<string, unknown>): SwitchCase[] {
+  return Array.isArray(config?.cases) ? (config.cases as SwitchCase[]) : [];
+}
+
+/**
+ * Output handles for a switch node: one per case plus the default case
+ */
+export function getSwitchHandles(config?: Record<string, unknown>): { id: string; label: string }[] {
+  return [
+    ...getSwitchCases(config).map((switchCase) => ({
+      id: switchCase.id,
+      label: switchCase.name || switchCase.value || switchCase.id,
+    })),
+    { id: DEFAULT_SWITCH_HANDLE, label: 'default' },
+  ];
+}
+
+/**
+ * Next unused case id, e.g. 'case-3'
+ */
+export function nextSwitchCaseId(cases: SwitchCase[]): string {
+  let index = cases.length + 1;
+  while (cases.some((switchCase) => switchCase.id === `case-${index}`)) {
+    index++;
+  }
+  return `case-${index}`;
+}
@@ -5,10 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { RefreshCw, CheckCircle2, XCircle, Clock, Loader2, Play, FileText } from 'lucide-react';
+import { RefreshCw, CheckCircle2, XCircle, Clock, Loader2, Play, FileText, RotateCcw } from 'lucide-react';
 import { executionService, ExecutionStatus } from '@/services/execution.service';
 import { workflowService } from '@/services/workflow.service';
 import { safeJsonParse } from '@/lib/logger';
+import RetryExecutionDialog from '@/components/workflow/RetryExecutionDialog';
 
 interface ExecutionRecord {
   id: string;
@@ -24,6 +25,7 @@ const ExecutionsPage = () => {
   const [executions, setExecutions] = useState<ExecutionRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>('all');
+  const [retryExecutionId, setRetryExecutionId] = useState<string | null>(null);
 
   const fetchExecutions = useCallback(async () => {
     setLoading(true);
@@ -138,16 +140,17 @@ const ExecutionsPage = () => {
           </Card>
         ) : (
           <div className="border rounded-lg overflow-hidden">
-            <div className="grid grid-cols-5 gap-4 p-3 bg-muted/50 text-sm font-medium text-muted-foreground border-b">
+            <div className="grid grid-cols-6 gap-4 p-3 bg-muted/50 text-sm font-medium text-muted-foreground border-b">
               <div>Status</div>
               <div>Workflow</div>
               <div>Execution ID</div>
               <div>Started</div>
               <div>Duration</div>
+              <div className="text-right">Actions</div>
             </div>
             <ScrollArea className="max-h-[600px]">
               {filtered.map(exec => (
-                <div key={exec.id} className="grid grid-cols-5 gap-4 p-3 border-b last:border-0 items-center hover:bg-muted/30 transition-colors">
+                <div key={exec.id} className="grid grid-cols-6 gap-4 p-3 border-b last:border-0 items-center hover:bg-muted/30 transition-colors">
                   <div className="flex items-center gap-2">
                     {getStatusIcon(exec.status)}
                     <Badge className={getStatusColor(exec.status)}>{exec.status}</Badge>
@@ -156,12 +159,26 @@ const ExecutionsPage = () => {
                   <div className="text-sm text-muted-foreground font-mono truncate">{exec.id}</div>
                   <div className="text-sm">{new Date(exec.startTime).toLocaleString()}</div>
                   <div className="text-sm">{formatDuration(exec.duration)}</div>
+                  <div className="text-right">
+                    {(exec.status === 'failed' || exec.status === 'cancelled') && (
+                      <Button variant="ghost" size="sm" onClick={() => setRetryExecutionId(exec.id)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </div>
                 </div>
               ))}
             </ScrollArea>
           </div>
         )}
 
+        <RetryExecutionDialog
+          executionId={retryExecutionId}
+          onOpenChange={(open) => !open && setRetryExecutionId(null)}
+          onRetried={fetchExecutions}
+        />
+
         {/* Summary Stats */}
         <div className="grid grid-cols-4 gap-4">
           <Card>
@@ -174,6 +174,8 @@ const WorkflowBuilderContent = () => {
           };
           
           setCurrentWorkflow(storeWorkflow);
+          useWorkflowStore.getState().setValidation(workflow.validation ?? null);
+          useWorkflowStore.getState().setPinnedData(workflow.pinnedData ?? {});
           
           // Update the store with the latest backend data
           const allWorkflows = useWorkflowStore.getState().workflows;
@@ -1,9 +1,10 @@
 import { authService } from './auth.service';
-import { API_URL } from '@/config/api';
+import { API_URL, WS_URL } from '@/config/api';
 
 export interface ExecutionRequest {
   workflowId: string;
   triggerData?: any;
+  mock?: boolean; // Run against the workflow's pinned sample data
 }
 
 export interface ExecutionStatus {
@@ -28,6 +29,49 @@ export interface ExecutionEvent {
   data?: any;
 }
 
+/**
+ * A piece of AI node output streamed while the node runs. A new attempt (schema repair) or
+ * provider (fallback) starts the node's text over.
+ */
+export interface AITokenEvent {
+  executionId: string;
+  nodeId: string;
+  token: string;
+  provider: string;
+  attempt: number;
+  index: number;
+}
+
+/**
+ * One entry of an execution's persisted event log
+ */
+export interface ExecutionLogEntry {
+  sequence: number;
+  type: string;
+  executionId: string;
+  workflowId?: string;
+  nodeId?: string;
+  branchId?: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * Execution context rebuilt from the event log as of one entry
+ */
+export interface ExecutionReplay {
+  executionId: string;
+  sequence: number;
+  event: ExecutionLogEntry;
+  context: {
+    status: string;
+    currentNodeId: string;
+    variables: Record<string, unknown>;
+    branches: Record<string, { id: string; currentNodeId: string; status: string; variables: Record<string, unknown> }>;
+    [key: string]: unknown;
+  };
+}
+
 class WorkflowExecutionService {
   private baseUrl = API_URL;
 
@@ -69,7 +113,8 @@ class WorkflowExecutionService {
     const result = await this.request(`/workflows/${request.workflowId}/execute`, {
       method: 'POST',
       body: JSON.stringify({
-        triggerData: request.triggerData || {}
+        triggerData: request.triggerData || {},
+        mock: request.mock || false
       })
     });
 
@@ -144,6 +189,58 @@ class WorkflowExecutionService {
     });
   }
 
+  /**
+   * Get the nodes an execution ran, in order, with any error they failed with
+   */
+  async getNodeExecutions(executionId: string): Promise<{ nodeId: string; error?: string; timestamp: string }[]> {
+    const result = await this.request(`/executions/${executionId}`);
+    return result.execution?.executionHistory || [];
+  }
+
+  /**
+   * Re-run a finished execution from one of its nodes, optionally patching variables first
+   */
+  async retryFromNode(
+    executionId: string,
+    nodeId: string,
+    options: { variables?: Record<string, unknown>; useLatestVersion?: boolean } = {}
+  ): Promise<{ executionId: string; retryOf: string; status: string }> {
+    return this.request(`/executions/${executionId}/retry-from/${encodeURIComponent(nodeId)}`, {
+      method: 'POST',
+      body: JSON.stringify(options)
+    });
+  }
+
+  /**
+   * Find the output a node produced in the workflow's recent runs, newest first, to pin as sample data
+   */
+  async getLatestNodeOutput(workflowId: string, nodeId: string): Promise<unknown> {
+    const result = await this.request(`/executions?workflowId=${workflowId}&page=1&limit=10`);
+    for (const execution of result.executions || []) {
+      const runs: { nodeId: string; status: string; output?: unknown }[] = execution.nodeExecutions || [];
+      const run = [...runs].reverse().find((entry) => entry.nodeId === nodeId && entry.status === 'success');
+      if (run) {
+        return run.output;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the persisted event log of an execution, oldest first
+   */
+  async getExecutionTimeline(executionId: string): Promise<ExecutionLogEntry[]> {
+    const result = await this.request(`/executions/${executionId}/timeline`);
+    return result.events || [];
+  }
+
+  /**
+   * Get the execution context as it was right after one event of its log
+   */
+  async getExecutionStateAt(executionId: string, sequence: number): Promise<ExecutionReplay> {
+    return this.request(`/executions/${executionId}/timeline/${sequence}`);
+  }
+
   /**
    * Get execution history for a workflow
    */
@@ -214,8 +311,10 @@ class WorkflowExecutionService {
     onEvent?: (event: ExecutionEvent) => void;
     onComplete?: (result: any) => void;
     onError?: (error: string) => void;
+    onToken?: (event: AITokenEvent) => void;
   }): () => void {
-    // For now, use polling. In a real app, you'd use WebSocket
+    // Status is polled; streamed AI output comes over the WebSocket
+    const closeStream = callbacks.onToken ? this.streamTokens(executionId, callbacks.onToken) : () => {};
     let retryCount = 0;
     const maxRetries = 3;
     
@@ -236,9 +335,11 @@ class WorkflowExecutionService {
           // Provide the full execution status to the onComplete handler
           callbacks.onComplete?.(status);
           clearInterval(pollInterval);
+          closeStream();
         } else if (status.status === 'failed') {
           callbacks.onError?.(status.error || 'Execution failed');
           clearInterval(pollInterval);
+          closeStream();
         }
 
         // Get new events
@@ -256,12 +357,49 @@ class WorkflowExecutionService {
         if (retryCount >= maxRetries) {
           callbacks.onError?.('Failed to get execution status after multiple retries');
           clearInterval(pollInterval);
+          closeStream();
         }
       }
     }, 2000);
 
     // Return unsubscribe function
-    return () => clearInterval(pollInterval);
+    return () => {
+      clearInterval(pollInterval);
+      closeStream();
+    };
+  }
+
+  /**
+   * Subscribe to an execution over the WebSocket and pass on its ai:token events
+   */
+  private streamTokens(executionId: string, onToken: (event: AITokenEvent) => void): () => void {
+    let socket: WebSocket | null = null;
+    let closed = false;
+
+    authService.getValidToken().then((token) => {
+      if (closed) return;
+      socket = new WebSocket(`${WS_URL}?token=${encodeURIComponent(token)}`);
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: 'subscribe:execution', data: { executionId }, timestamp: new Date() }));
+      };
+      socket.onmessage = (message) => {
+        try {
+          const { type, data } = JSON.parse(message.data);
+          if (type === 'ai:token' && data?.executionId === executionId) {
+            onToken(data);
+          }
+        } catch {
+          // Ignore frames that aren't JSON
+        }
+      };
+    }).catch(() => {
+      // Live output is optional; polling still reports progress and the final output
+    });
+
+    return () => {
+      closed = true;
+      socket?.close();
+    };
   }
 }
 
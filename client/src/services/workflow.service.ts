@@ -16,6 +16,15 @@ export interface WorkflowEdge {
   targetHandle?: string;
 }
 
+/**
+ * Sample output pinned to a node; mock runs use it instead of running the node
+ */
+export interface PinnedNodeData {
+  output: unknown;
+  pinnedAt: string;
+  pinnedBy?: string;
+}
+
 export interface Workflow {
   id?: string;
   name: string;
@@ -25,6 +34,8 @@ export interface Workflow {
   status: 'draft' | 'active' | 'archived';
   category?: string;
   version?: number;
+  validation?: WorkflowValidationResult; // Returned alongside the workflow on load and save
+  pinnedData?: Record<string, PinnedNodeData>; // Keyed by node id
   metadata?: {
     creator?: string;
     lastEditor?: string;
@@ -66,14 +77,50 @@ export interface UpdateWorkflowRequest {
   status?: 'draft' | 'active' | 'archived';
 }
 
+export interface WorkflowVersionSummary {
+  _id: string;
+  workflowId: string;
+  version: number;
+  name: string;
+  createdBy?: string;
+  message?: string;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export interface WorkflowVersionDiff {
+  from: number;
+  to: number;
+  name?: { from: string; to: string };
+  nodes: { added: string[]; removed: string[]; changed: string[]; moved: string[] };
+  edges: { added: string[]; removed: string[]; changed: string[] };
+  settings: string[];
+}
+
+export interface ValidationIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
 export interface ExecutionRequest {
   triggerData?: Record<string, any>;
+  mock?: boolean; // Use pinned outputs instead of calling AI providers and external services
 }
 
 export interface ExecutionResponse {
   executionId: string;
-  status: 'started' | 'running' | 'completed' | 'failed';
+  status: 'started' | 'queued' | 'running' | 'completed' | 'failed';
   message: string;
+  mock?: boolean;
 }
 
 class WorkflowService {
@@ -164,7 +211,7 @@ class WorkflowService {
     }
 
     const result = await response.json();
-    return result.workflow;
+    return { ...result.workflow, validation: result.validation };
   }
 
   async getWorkflow(id: string): Promise<Workflow> {
@@ -184,7 +231,8 @@ class WorkflowService {
     // Map _id to id for frontend compatibility
     const workflow = {
       ...result.workflow,
-      id: result.workflow._id
+      id: result.workflow._id,
+      validation: result.validation
     };
     
     return workflow;
@@ -220,6 +268,116 @@ class WorkflowService {
     return result;
   }
 
+  async validateWorkflow(id: string): Promise<WorkflowValidationResult> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/validation`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    return response.json();
+  }
+
+  async pinNodeOutput(id: string, nodeId: string, output: unknown): Promise<PinnedNodeData> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/pins/${encodeURIComponent(nodeId)}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ output }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    const result = await response.json();
+    return result.pin;
+  }
+
+  async unpinNodeOutput(id: string, nodeId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/pins/${encodeURIComponent(nodeId)}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+  }
+
+  async getVersions(id: string): Promise<{ currentVersion: number; versions: WorkflowVersionSummary[] }> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/versions`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    return response.json();
+  }
+
+  async diffVersions(id: string, from: number, to: number): Promise<WorkflowVersionDiff> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/versions/diff?from=${from}&to=${to}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    const result = await response.json();
+    return result.diff;
+  }
+
+  async restoreVersion(id: string, version: number): Promise<WorkflowVersionSummary> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/versions/${version}/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({}),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    const result = await response.json();
+    return result.version;
+  }
+
+  async rollbackWorkflow(id: string): Promise<WorkflowVersionSummary> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_URL}/workflows/${id}/rollback`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({}),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw error;
+    }
+
+    const result = await response.json();
+    return result.version;
+  }
+
   async testAINode(nodeConfig: any): Promise<any> {
     const headers = await this.getAuthHeaders();
     const response = await fetch(`${API_URL}/ai/test`, {
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { Node, Edge, Connection, addEdge, applyNodeChanges, applyEdgeChanges, NodeChange, EdgeChange } from '@xyflow/react';
+import type { PinnedNodeData, WorkflowValidationResult } from '@/services/workflow.service';
 
 export type NodeCategory = 'trigger' | 'ai' | 'action' | 'logic' | 'human';
 
@@ -29,6 +30,8 @@ interface WorkflowStore {
   workflowId: string | null;
   selectedNode: Node<NodeData> | null;
   executionStatus: ExecutionStatus;
+  validation: WorkflowValidationResult | null;
+  pinnedData: Record<string, PinnedNodeData>; // Saved through the pin endpoints, not with the workflow
   
   // Actions
   setCurrentWorkflow: (workflow: Workflow) => void;
@@ -36,6 +39,8 @@ interface WorkflowStore {
   updateWorkflowName: (name: string) => void;
   setSelectedNode: (node: Node<NodeData> | null) => void;
   updateNodeData: (nodeId: string, data: Partial<NodeData>) => void;
+  setValidation: (validation: WorkflowValidationResult | null) => void;
+  setPinnedData: (pinnedData: Record<string, PinnedNodeData>) => void;
   
   // React Flow actions
   onNodesChange: (changes: NodeChange<Node<NodeData>>[]) => void;
@@ -59,6 +64,8 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   workflowId: null,
   selectedNode: null,
   executionStatus: 'idle',
+  validation: null,
+  pinnedData: {},
   
   setCurrentWorkflow: (workflow) => set({ 
     currentWorkflow: workflow,
@@ -77,6 +84,10 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
   
   setSelectedNode: (node) => set({ selectedNode: node }),
+
+  setValidation: (validation) => set({ validation }),
+
+  setPinnedData: (pinnedData) => set({ pinnedData }),
   
   updateNodeData: (nodeId, data) => {
     const current = get().currentWorkflow;
@@ -224,7 +235,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       executionCount: 0,
     };
     
-    set({ currentWorkflow: newWorkflow });
+    set({ currentWorkflow: newWorkflow, validation: null, pinnedData: {} });
   },
   
   deleteWorkflow: (id) => {
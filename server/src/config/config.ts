@@ -19,6 +19,35 @@ export const config = {
   },
   
   environment: process.env.NODE_ENV || 'development',
+
+  // Execution engine: 'inline' runs steps in the API process, 'queue' hands every step to worker processes
+  engine: {
+    mode: (process.env.ENGINE_MODE === 'queue' ? 'queue' : 'inline') as 'inline' | 'queue',
+    workerConcurrency: parseInt(process.env.WORKER_CONCURRENCY || '5'),
+    stepLockTTL: parseInt(process.env.STEP_LOCK_TTL || '900'), // Seconds a step may keep its branch busy
+    // Seconds a running execution may go without progress or a heartbeat before it's considered lost
+    staleExecutionAfter: parseInt(process.env.STALE_EXECUTION_AFTER || '1800'),
+    // Runs each process starts at once per priority lane, so bulk runs can't take the slots of the others
+    laneConcurrency: {
+      critical: parseInt(process.env.LANE_CONCURRENCY_CRITICAL || '5'),
+      normal: parseInt(process.env.LANE_CONCURRENCY_NORMAL || '3'),
+      bulk: parseInt(process.env.LANE_CONCURRENCY_BULK || '1'),
+    },
+  },
+
+  // Trigger de-duplication: deliveries repeating an idempotency key within the window reuse the first execution
+  idempotency: {
+    header: process.env.IDEMPOTENCY_HEADER || 'idempotency-key',
+    windowSeconds: parseInt(process.env.IDEMPOTENCY_WINDOW || '86400'),
+  },
+
+  // AI spend: USD prices per million tokens, and budgets the analytics summary raises alerts for (0 = none)
+  aiCost: {
+    pricing: process.env.AI_PRICING || '',
+    dailyBudget: parseFloat(process.env.AI_BUDGET_DAILY || '0'),
+    monthlyBudget: parseFloat(process.env.AI_BUDGET_MONTHLY || '0'),
+    alertThreshold: parseFloat(process.env.AI_BUDGET_ALERT_THRESHOLD || '0.8'), // Share of a budget that triggers a warning
+  },
   
   // JWT Configuration
   jwt: {
@@ -28,6 +57,10 @@ export const config = {
     refreshExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
   },
   // AI Service configs
+  // Extra OpenAI-compatible providers (Ollama, vLLM, LM Studio...) as a JSON array, registered at startup
+  aiProviders: process.env.AI_PROVIDERS || '',
+  // Per-provider quota overrides as JSON: { "<provider id>": { daily?, minute?, dailyTokens? } } (0 = unlimited)
+  aiQuotaLimits: process.env.AI_QUOTA_LIMITS || '',
   geminiApiKey: process.env.GEMINI_API_KEY,
   groqApiKey: process.env.GROQ_API_KEY,
   perplexityApiKey: process.env.PERPLEXITY_API_KEY,
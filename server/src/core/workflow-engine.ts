@@ -5,6 +5,7 @@ import { WorkflowExecutionModel } from '../models/workflow-execution.model';
 import { EventLogService } from '../services/event-log.service';
 import { WorkflowModel } from '../models/workflow.model';
 import { HttpService } from '../services/http.service';
+import { ExpressionEvaluator } from '../utils/expression-evaluator';
 
 export class WorkflowEngine {
   private eventEmitter: EventEmitter;
@@ -175,8 +176,8 @@ export class WorkflowEngine {
     }
 
     const validEdges = outgoingEdges.filter(edge => {
-      if (!edge.data?.condition && !edge.condition) return true;
       const condition = edge.data?.condition || edge.condition;
+      if (!condition) return true;
       return this.evaluateCondition(condition, executionData);
     });
 
@@ -249,24 +250,6 @@ export class WorkflowEngine {
   }
 
   private evaluateCondition(condition: string, data: Record<string, any>): boolean {
-    try {
-      const [variable, operator, rawValue] = condition.split(' ');
-      const actualValue = data[variable];
-      const value = rawValue?.replace(/^"|"$/g, '');
-
-      switch (operator) {
-        case '>': return actualValue > Number(value);
-        case '<': return actualValue < Number(value);
-        case '>=': return actualValue >= Number(value);
-        case '<=': return actualValue <= Number(value);
-        case '==': return actualValue == value;
-        case '!=': return actualValue != value;
-        case 'contains': return String(actualValue).includes(String(value));
-        default: return false;
-      }
-    } catch (error) {
-      console.warn('Decision evaluation failed:', condition, error);
-      return false;
-    }
+    return ExpressionEvaluator.evaluateCondition(condition, data);
   }
 }
@@ -1,4 +1,9 @@
 import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { config } from '../config/config';
+
+// Workers publish their events here so API processes can pass them on to connected clients
+const FORWARDED_EVENTS_CHANNEL = 'workflow-engine:events';
 
 export interface WorkflowEvent {
   type: string;
@@ -6,11 +11,14 @@ export interface WorkflowEvent {
   nodeId?: string;
   data?: any;
   timestamp: Date;
+  transient?: boolean; // Not kept in the history
 }
 
 export class EventBus extends EventEmitter {
   private static instance: EventBus;
   private eventHistory: WorkflowEvent[] = [];
+  private publisher?: Redis;
+  private subscriber?: Redis;
 
   private constructor() {
     super();
@@ -25,19 +33,23 @@ export class EventBus extends EventEmitter {
   }
 
   /**
-   * Emit a workflow event
+   * Emit a workflow event. Transient events (e.g. streamed AI tokens) reach listeners and workers'
+   * forwarding but are neither kept in the history nor logged.
    */
-  emitEvent(type: string, data: any): void {
+  emitEvent(type: string, data: any, options: { transient?: boolean } = {}): void {
     const event: WorkflowEvent = {
       type,
       executionId: data.executionId,
       nodeId: data.nodeId,
       data,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(options.transient ? { transient: true } : {})
     };
 
     // Store in history
-    this.eventHistory.push(event);
+    if (!options.transient) {
+      this.eventHistory.push(event);
+    }
     
     // Keep only last 1000 events to prevent memory leak
     if (this.eventHistory.length > 1000) {
@@ -48,7 +60,50 @@ export class EventBus extends EventEmitter {
     this.emit(type, data);
     this.emit('*', event); // Wildcard listener for all events
 
-    console.log(`Event emitted: ${type}`, data);
+    if (this.publisher) {
+      this.publisher.publish(FORWARDED_EVENTS_CHANNEL, JSON.stringify(event)).catch(error =>
+        console.error(`Failed to forward event ${type}:`, error));
+    }
+
+    if (!options.transient) {
+      console.log(`Event emitted: ${type}`, data);
+    }
+  }
+
+  /**
+   * Publish every event emitted in this process (used by workers)
+   */
+  forwardEvents(): void {
+    this.publisher = this.publisher || new Redis(config.redis.url);
+  }
+
+  /**
+   * Receive events forwarded by workers. They are only re-emitted on the wildcard channel:
+   * listeners with side effects (emails, triggers) already ran in the worker that emitted them.
+   */
+  receiveForwardedEvents(): void {
+    if (this.subscriber) return;
+
+    this.subscriber = new Redis(config.redis.url);
+    this.subscriber.subscribe(FORWARDED_EVENTS_CHANNEL).catch(error =>
+      console.error('Failed to subscribe to forwarded events:', error));
+    this.subscriber.on('message', (_channel, message) => {
+      const event: WorkflowEvent = JSON.parse(message);
+      event.timestamp = new Date(event.timestamp);
+      if (!event.transient) {
+        this.eventHistory.push(event);
+        if (this.eventHistory.length > 1000) {
+          this.eventHistory.shift();
+        }
+      }
+      this.emit('*', event);
+    });
+  }
+
+  async closeForwarding(): Promise<void> {
+    await Promise.all([this.publisher?.quit(), this.subscriber?.quit()]);
+    this.publisher = undefined;
+    this.subscriber = undefined;
   }
 
   /**
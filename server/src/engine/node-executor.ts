@@ -1,6 +1,7 @@
 import { INode, NodeType } from '../types/workflow.types';
 import { ExecutionContext } from './workflow-engine';
-import { AIService } from '../services/ai.service';
+import { AIService, AITokenHandler } from '../services/ai.service';
+import { AIUsage } from '../services/ai-provider-registry.service';
 import { EventBus } from './event-bus';
 import { GmailService } from '../services/gmail.service';
 import { TelegramService } from '../services/telegram.service';
@@ -11,6 +12,70 @@ import { FormBuilderService } from '../services/form-builder.service';
 import { DataTransformationService } from '../services/data-transformation.service';
 import { PushNotificationService } from '../services/push-notification.service';
 import { EmailNotificationService } from '../services/email-notification.service';
+import { ExpressionEvaluator } from '../utils/expression-evaluator';
+import { TemplateRenderer } from '../utils/template-renderer';
+import { sleep } from '../utils/abort';
+import { parseJsonSchema, validateJsonSchema, SchemaValidationError } from '../utils/json-schema';
+
+// Re-prompts allowed when AI output doesn't match the node's output schema
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ATTEMPTS = 5;
+
+/**
+ * Thrown when an AI node's output still doesn't match its output schema after every repair attempt
+ */
+export class AIOutputValidationError extends Error {
+  code = 'AI_OUTPUT_INVALID';
+
+  constructor(
+    public nodeId: string,
+    public validationErrors: SchemaValidationError[],
+    public attempts: number,
+    public lastOutput: string
+  ) {
+    super(`AI output did not match the output schema after ${attempts} attempt(s): ` +
+      validationErrors.slice(0, 5).map(error => `${error.path} ${error.message}`).join('; '));
+    this.name = 'AIOutputValidationError';
+  }
+}
+
+// One model call as seen by an AI node, whichever way the provider was picked
+interface AICallResult {
+  text: string;
+  provider: string;
+  confidence: number;
+  tokensUsed: number;
+  usage?: AIUsage;
+  cost: number;
+  model: string;
+}
+
+/**
+ * Tokens and cost an AI node spent across all its model calls (schema repairs included)
+ */
+export interface NodeAIUsage extends AIUsage {
+  provider: string;
+  model: string;
+  calls: number;
+  cost: number; // USD
+}
+
+/**
+ * Add up the AI usage of two runs of a node, e.g. retries; provider and model are the latest one's
+ */
+export function combineAIUsage(total: NodeAIUsage | undefined, usage: NodeAIUsage | undefined): NodeAIUsage | undefined {
+  if (!total || !usage) return usage || total;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    estimated: total.estimated || usage.estimated,
+    provider: usage.provider,
+    model: usage.model,
+    calls: total.calls + usage.calls,
+    cost: total.cost + usage.cost
+  };
+}
 
 export interface NodeExecutionResult {
   type: 'success' | 'error' | 'pause';
@@ -18,8 +83,23 @@ export interface NodeExecutionResult {
   error?: string;
   reason?: string;
   data?: any;
+  resumeAt?: string; // Durable wake-up time for paused timer nodes
+  usage?: NodeAIUsage; // Set by AI nodes, on failure too, for the cost ledger
+  errorCode?: string; // Machine-readable cause of an error result, e.g. AI_OUTPUT_INVALID
+  validationErrors?: SchemaValidationError[]; // Where an AI node's output missed its output schema
 }
 
+// Nodes that call out to providers, services or people; mock runs never run these for real
+const EXTERNAL_NODE_TYPES: string[] = [
+  NodeType.AI_PROCESSOR,
+  NodeType.HUMAN_TASK,
+  NodeType.ACTION,
+  NodeType.FILE_OPERATIONS,
+  NodeType.FORM_BUILDER,
+  NodeType.PUSH_NOTIFICATION,
+  NodeType.EMAIL_AUTOMATION
+];
+
 export class NodeExecutor {
   private aiService: AIService;
   private eventBus: EventBus;
@@ -51,6 +131,11 @@ export class NodeExecutor {
    * Execute a node based on its type
    */
   async executeNode(node: INode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const mocked = this.getMockResult(node, context);
+    if (mocked) {
+      return mocked;
+    }
+
     try {
       console.log('🔧 Executing node:', {
         nodeId: node.id,
@@ -72,6 +157,9 @@ export class NodeExecutor {
         case NodeType.DECISION:
           return this.executeDecisionNode(node, context);
         
+        case NodeType.SWITCH:
+          return this.executeSwitchNode(node, context);
+        
         case NodeType.HUMAN_TASK:
           return this.executeHumanTaskNode(node, context);
         
@@ -96,6 +184,9 @@ export class NodeExecutor {
         case NodeType.EMAIL_AUTOMATION:
           return this.executeEmailAutomationNode(node, context);
         
+        case NodeType.MERGE:
+          return this.executeMergeNode(node, context);
+        
         default:
           return {
             type: 'error',
@@ -110,6 +201,33 @@ export class NodeExecutor {
     }
   }
 
+  /**
+   * In mock runs, the output pinned to a node stands in for running it. External nodes without a pin
+   * get a placeholder output; other nodes without one run as usual.
+   */
+  getMockResult(node: INode, context: ExecutionContext): NodeExecutionResult | null {
+    if (!context.mock) {
+      return null;
+    }
+
+    if (node.id in context.mock.pinnedOutputs) {
+      console.log(`📌 Using pinned output for node ${node.id}`);
+      return { type: 'success', output: context.mock.pinnedOutputs[node.id] };
+    }
+
+    if (EXTERNAL_NODE_TYPES.includes(node.type)) {
+      return {
+        type: 'success',
+        output: {
+          mocked: true,
+          message: `Node ${node.id} has no pinned output and was skipped in mock mode`
+        }
+      };
+    }
+
+    return null;
+  }
+
   /**
    * Execute trigger node (workflow start)
    */
@@ -152,8 +270,15 @@ export class NodeExecutor {
       return { type: 'error', error: 'AI node requires prompt configuration' };
     }
 
+    // With an output schema the response must be JSON matching it, re-prompting with the problems if not
+    const { schema: outputSchema, error: schemaError } = parseJsonSchema(config.outputSchema);
+    if (schemaError) {
+      return { type: 'error', error: `AI node output schema is invalid: ${schemaError}` };
+    }
+    const maxRepairAttempts = Math.min(Math.max(Math.round(Number(config.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS)) || 0, 0), MAX_REPAIR_ATTEMPTS);
+
     // Replace variables in prompt
-    const processedPrompt = this.replaceVariables(prompt, context.variables);
+    const processedPrompt = this.replaceVariables(prompt, context);
 
     // Auto-detect task type if not specified
     const detectedTaskType = taskType || this.detectTaskType(processedPrompt, node.data);
@@ -166,51 +291,46 @@ export class NodeExecutor {
       autoRouting: !aiProvider // True if using smart routing
     });
 
-    try {
+    // Call the configured provider, or let smart routing pick one
+    // Each call streams its tokens to the builder as ai:token events unless the node turns streaming off.
+    // A new attempt (schema repair) or provider (fallback) starts the text over.
+    let attempt = 0;
+    let spent: NodeAIUsage | undefined;
+    const callModel = async (promptText: string): Promise<AICallResult> => {
+      attempt++;
+      let index = 0;
+      const onToken: AITokenHandler | undefined = config.stream === false ? undefined : (token, provider) => {
+        this.eventBus.emitEvent('ai:token', {
+          executionId: context.executionId,
+          nodeId: node.id,
+          token,
+          provider,
+          attempt,
+          index: index++
+        }, { transient: true });
+      };
+
+      let result: AICallResult;
       if (aiProvider) {
         // Use specific provider if requested
         const aiResponse = await this.aiService.generateResponse({
           provider: aiProvider,
           model: model || 'default',
-          prompt: processedPrompt,
+          prompt: promptText,
           temperature: temperature || 0.7,
-          maxTokens: maxTokens || 1000
+          maxTokens: maxTokens || 1000,
+          signal: context.signal,
+          onToken
         });
-
-        this.eventBus.emitEvent('ai:response', {
-          executionId: context.executionId,
-          nodeId: node.id,
-          response: aiResponse.text,
+        result = {
+          text: aiResponse.text,
           provider: aiResponse.provider,
           confidence: 0.9, // Default confidence for specific provider
           tokensUsed: aiResponse.tokensUsed,
+          usage: aiResponse.usage,
           cost: aiResponse.cost,
-          taskType: detectedTaskType
-        });
-
-        // Parse AI response if requested
-        let parsedResponse: any = aiResponse.text;
-        if (parseJson) {
-          try {
-            parsedResponse = JSON.parse(aiResponse.text);
-          } catch (error) {
-            console.warn('Failed to parse AI response as JSON:', error);
-          }
-        }
-
-        return {
-          type: 'success',
-          output: {
-            aiResponse: parsedResponse,
-            provider: aiResponse.provider,
-            confidence: 0.9,
-            tokensUsed: aiResponse.tokensUsed,
-            cost: aiResponse.cost,
-            taskType: detectedTaskType,
-            model: aiResponse.model
-          }
+          model: aiResponse.model
         };
-
       } else {
         // Use smart task routing
         const smartResponse = await this.aiService.processNode({
@@ -218,65 +338,181 @@ export class NodeExecutor {
           type: 'AI_PROCESSOR',
           data: {
             taskType: detectedTaskType,
-            prompt: processedPrompt,
+            prompt: promptText,
             options: {
               temperature: temperature || 0.7,
               maxTokens: maxTokens || 1000,
               context: nodeContext
             }
           }
-        }, context.variables);
-
-        this.eventBus.emitEvent('ai:response', {
-          executionId: context.executionId,
-          nodeId: node.id,
-          response: smartResponse.result,
+        }, context.variables, context.signal, onToken);
+        result = {
+          text: smartResponse.result,
           provider: smartResponse.provider,
           confidence: smartResponse.confidence || 0.8,
           tokensUsed: smartResponse.tokens || 0,
-          cost: 0, // Free providers
-          taskType: detectedTaskType
-        });
+          usage: smartResponse.usage,
+          cost: smartResponse.cost || 0,
+          model: smartResponse.model || 'auto-selected'
+        };
+      }
 
-        // Parse AI response if requested
-        let parsedResponse: any = smartResponse.result;
-        if (parseJson) {
-          try {
-            parsedResponse = JSON.parse(smartResponse.result);
-          } catch (error) {
-            console.warn('Failed to parse AI response as JSON:', error);
-          }
-        }
+      spent = combineAIUsage(spent, {
+        ...(result.usage || { promptTokens: 0, completionTokens: 0, totalTokens: result.tokensUsed, estimated: true }),
+        provider: result.provider,
+        model: result.model,
+        calls: 1,
+        cost: result.cost
+      });
+
+      this.eventBus.emitEvent('ai:response', {
+        executionId: context.executionId,
+        nodeId: node.id,
+        response: result.text,
+        provider: result.provider,
+        confidence: result.confidence,
+        tokensUsed: result.tokensUsed,
+        cost: result.cost,
+        taskType: detectedTaskType
+      });
+      return result;
+    };
 
+    try {
+      if (outputSchema) {
+        const structured = await this.generateStructuredOutput(node.id, processedPrompt, outputSchema, maxRepairAttempts, callModel);
         return {
           type: 'success',
           output: {
-            aiResponse: parsedResponse,
-            provider: smartResponse.provider,
-            confidence: smartResponse.confidence || 0.8,
-            tokensUsed: smartResponse.tokens || 0,
-            cost: 0, // Free providers
+            aiResponse: structured.value,
+            provider: structured.response.provider,
+            confidence: structured.response.confidence,
+            tokensUsed: structured.tokensUsed,
+            cost: structured.cost,
             taskType: detectedTaskType,
-            model: 'auto-selected'
-          }
+            model: structured.response.model,
+            repairAttempts: structured.repairAttempts
+          },
+          usage: spent
         };
       }
 
+      const aiResponse = await callModel(processedPrompt);
+
+      // Parse AI response if requested
+      let parsedResponse: any = aiResponse.text;
+      if (parseJson) {
+        try {
+          parsedResponse = JSON.parse(aiResponse.text);
+        } catch (error) {
+          console.warn('Failed to parse AI response as JSON:', error);
+        }
+      }
+
+      return {
+        type: 'success',
+        output: {
+          aiResponse: parsedResponse,
+          provider: aiResponse.provider,
+          confidence: aiResponse.confidence,
+          tokensUsed: aiResponse.tokensUsed,
+          cost: aiResponse.cost,
+          taskType: detectedTaskType,
+          model: aiResponse.model
+        },
+        usage: spent
+      };
+
     } catch (error) {
       this.eventBus.emitEvent('ai:error', {
         executionId: context.executionId,
         nodeId: node.id,
         error: error instanceof Error ? error.message : 'Unknown error',
-        taskType: detectedTaskType
+        taskType: detectedTaskType,
+        ...(error instanceof AIOutputValidationError ? {
+          code: error.code,
+          validationErrors: error.validationErrors,
+          attempts: error.attempts
+        } : {})
       });
 
       return {
         type: 'error',
-        error: `AI node failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `AI node failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(error instanceof AIOutputValidationError ? {
+          errorCode: error.code,
+          validationErrors: error.validationErrors
+        } : {}),
+        usage: spent
       };
     }
   }
 
+  /**
+   * Ask for JSON matching the schema and validate the answer. Invalid answers are sent back with their
+   * validation errors until one passes or the repair attempts run out.
+   */
+  private async generateStructuredOutput(
+    nodeId: string,
+    prompt: string,
+    schema: Record<string, any>,
+    maxRepairAttempts: number,
+    callModel: (prompt: string) => Promise<AICallResult>
+  ): Promise<{ value: any; response: AICallResult; tokensUsed: number; cost: number; repairAttempts: number }> {
+    const schemaText = JSON.stringify(schema, null, 2);
+    let response = await callModel(
+      `${prompt}\n\nRespond with only a JSON document, without any other text, that matches this JSON Schema:\n${schemaText}`
+    );
+    let tokensUsed = response.tokensUsed;
+    let cost = response.cost;
+
+    for (let repairAttempts = 0; ; repairAttempts++) {
+      const { value, errors } = this.checkStructuredOutput(response.text, schema);
+      if (errors.length === 0) {
+        return { value, response, tokensUsed, cost, repairAttempts };
+      }
+
+      if (repairAttempts >= maxRepairAttempts) {
+        throw new AIOutputValidationError(nodeId, errors, repairAttempts + 1, response.text);
+      }
+
+      console.warn(`🔧 AI output for node ${nodeId} failed schema validation, repair attempt ${repairAttempts + 1}/${maxRepairAttempts}`);
+      response = await callModel([
+        'Your previous response did not match the required JSON Schema.',
+        `Problems:\n${errors.map(error => `- ${error.path} ${error.message}`).join('\n')}`,
+        `Previous response:\n${response.text}`,
+        `Original task:\n${prompt}`,
+        `Respond again with only the corrected JSON document, matching this JSON Schema:\n${schemaText}`
+      ].join('\n\n'));
+      tokensUsed += response.tokensUsed;
+      cost += response.cost;
+    }
+  }
+
+  /**
+   * Parse a model's answer as JSON, tolerating code fences and text around the document, and validate it
+   */
+  private checkStructuredOutput(text: string, schema: Record<string, any>): { value?: any; errors: SchemaValidationError[] } {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = (fenced ? fenced[1] : text).trim();
+
+    let value: any;
+    try {
+      value = JSON.parse(candidate);
+    } catch (error) {
+      const start = candidate.search(/[[{]/);
+      const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+      try {
+        if (start === -1 || end <= start) throw error;
+        value = JSON.parse(candidate.slice(start, end + 1));
+      } catch (parseError) {
+        return { errors: [{ path: '$', message: `is not valid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})` }] };
+      }
+    }
+
+    return { value, errors: validateJsonSchema(value, schema) };
+  }
+
   /**
    * Auto-detect task type from prompt and node configuration
    */
@@ -335,7 +571,7 @@ export class NodeExecutor {
     // Evaluate each condition
     const results: Record<string, boolean> = {};
     for (const condition of conditions) {
-      results[condition.name] = this.evaluateCondition(condition.expression, context.variables);
+      results[condition.name] = ExpressionEvaluator.evaluateCondition(condition.expression, context.variables);
     }
 
     return {
@@ -347,6 +583,39 @@ export class NodeExecutor {
     };
   }
 
+  /**
+   * Execute switch node: pick the first case matching the value; the engine follows that case's handle
+   */
+  private async executeSwitchNode(node: INode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const config = node.data?.config || node.data || {};
+    const cases: Array<{ id?: string; name?: string; value?: any; condition?: string }> = Array.isArray(config.cases) ? config.cases : [];
+
+    if (!config.value && !cases.some(c => c.condition)) {
+      return { type: 'error', error: 'Switch node requires a value to match' };
+    }
+
+    let value: any;
+    try {
+      value = config.value ? ExpressionEvaluator.evaluate(config.value, context.variables) : undefined;
+    } catch (error) {
+      return { type: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Cases either compare against the value or carry their own condition, which can also use `value`
+    const matched = cases.find(c => c.condition
+      ? ExpressionEvaluator.evaluateCondition(c.condition, { ...context.variables, value })
+      : c.value !== undefined && c.value !== null && String(c.value) === String(value));
+
+    return {
+      type: 'success',
+      output: {
+        value,
+        matchedCase: matched ? matched.name || matched.id : 'default',
+        handle: matched ? matched.id || matched.name : 'default'
+      }
+    };
+  }
+
   /**
    * Execute human task node (requires human intervention)
    */
@@ -370,8 +639,8 @@ export class NodeExecutor {
     const approvalData = {
       executionId: context.executionId,
       nodeId: node.id,
-      title: this.replaceVariables(title, context.variables),
-      description: this.replaceVariables(description, context.variables),
+      title: this.replaceVariables(title, context),
+      description: this.replaceVariables(description, context),
       assignee,
       approvalType,
       timeout,
@@ -417,27 +686,73 @@ export class NodeExecutor {
   }
 
   /**
-   * Execute timer node (delay execution)
+   * Execute timer node (delay, wait until a date, or wait until a weekday)
    */
   private async executeTimerNode(node: INode, context: ExecutionContext): Promise<NodeExecutionResult> {
-    const { delay, unit = 'seconds' } = node.data;
-    
-    if (!delay || delay <= 0) {
-      return { type: 'error', error: 'Timer node requires positive delay value' };
-    }
+    const config = node.data?.config || node.data || {};
+    const { mode = 'delay' } = config;
 
-    const multipliers = {
-      milliseconds: 1,
-      seconds: 1000,
-      minutes: 60000,
-      hours: 3600000
-    };
+    let wakeAt: Date;
+    let reason: string;
+
+    switch (mode) {
+      case 'delay': {
+        const { delay, unit = 'seconds' } = config;
+
+        if (!delay || delay <= 0) {
+          return { type: 'error', error: 'Timer node requires positive delay value' };
+        }
+
+        const multipliers = {
+          milliseconds: 1,
+          seconds: 1000,
+          minutes: 60000,
+          hours: 3600000,
+          days: 86400000
+        };
+
+        wakeAt = new Date(Date.now() + delay * (multipliers[unit as keyof typeof multipliers] || 1000));
+        reason = `Timer delay: ${delay} ${unit}`;
+        break;
+      }
+
+      case 'until_date': {
+        if (!config.untilDate) {
+          return { type: 'error', error: 'Wait-until-date timer requires untilDate' };
+        }
 
-    const delayMs = delay * (multipliers[unit as keyof typeof multipliers] || 1000);
+        wakeAt = new Date(this.replaceVariables(String(config.untilDate), context));
+        if (isNaN(wakeAt.getTime())) {
+          return { type: 'error', error: `Invalid timer date: ${config.untilDate}` };
+        }
+        reason = `Waiting until ${wakeAt.toISOString()}`;
+        break;
+      }
 
-    // For short delays, use setTimeout
+      case 'until_weekday': {
+        const weekday = this.parseWeekday(config.weekday);
+        if (weekday === null) {
+          return { type: 'error', error: `Invalid timer weekday: ${config.weekday}` };
+        }
+
+        const next = this.getNextWeekday(weekday, config.time || '00:00');
+        if (!next) {
+          return { type: 'error', error: `Invalid timer time: ${config.time}` };
+        }
+        wakeAt = next;
+        reason = `Waiting until ${wakeAt.toISOString()}`;
+        break;
+      }
+
+      default:
+        return { type: 'error', error: `Unknown timer mode: ${mode}` };
+    }
+
+    const delayMs = Math.max(0, wakeAt.getTime() - Date.now());
+
+    // For short delays (or dates already passed), wait in-process
     if (delayMs < 60000) { // Less than 1 minute
-      await new Promise(resolve => setTimeout(resolve, delayMs));
+      await sleep(delayMs, context.signal);
       return {
         type: 'success',
         output: {
@@ -448,21 +763,57 @@ export class NodeExecutor {
       };
     }
 
-    // For longer delays, pause and schedule resume
-    setTimeout(() => {
-      this.eventBus.emitEvent('timer:expired', {
-        executionId: context.executionId,
-        nodeId: node.id
-      });
-    }, delayMs);
-
+    // For longer delays, pause; the engine persists a wake-up job that survives restarts
     return {
       type: 'pause',
-      reason: `Timer delay: ${delay} ${unit}`,
-      data: { delayMs, resumeAt: new Date(Date.now() + delayMs).toISOString() }
+      reason,
+      resumeAt: wakeAt.toISOString(),
+      data: { delayMs, resumeAt: wakeAt.toISOString() }
     };
   }
 
+  /**
+   * Parse a weekday given as 0-6 (Sunday first) or a day name
+   */
+  private parseWeekday(value: any): number | null {
+    const names = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+    if (value === undefined || value === null || String(value).trim() === '') {
+      return null;
+    }
+
+    if (typeof value === 'string' && isNaN(Number(value))) {
+      const index = names.findIndex(name => name.startsWith(value.trim().toLowerCase().slice(0, 3)));
+      return index >= 0 ? index : null;
+    }
+
+    const day = Number(value);
+    return Number.isInteger(day) && day >= 0 && day <= 6 ? day : null;
+  }
+
+  /**
+   * Next occurrence of a weekday at HH:mm (server time), today included if still ahead
+   */
+  private getNextWeekday(weekday: number, time: string): Date | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(String(time).trim());
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+
+    const now = new Date();
+    const next = new Date(now);
+    next.setHours(hours, minutes, 0, 0);
+    next.setDate(now.getDate() + ((weekday - now.getDay() + 7) % 7));
+
+    if (next.getTime() <= now.getTime()) {
+      next.setDate(next.getDate() + 7);
+    }
+
+    return next;
+  }
+
   /**
    * Execute HTTP request action
    */
@@ -474,8 +825,8 @@ export class NodeExecutor {
     }
 
     try {
-      const processedUrl = this.replaceVariables(url, context.variables);
-      const processedBody = body ? this.replaceVariables(JSON.stringify(body), context.variables) : undefined;
+      const processedUrl = this.replaceVariables(url, context);
+      const processedBody = body ? this.replaceVariables(JSON.stringify(body), context) : undefined;
 
       // Use HttpService which wraps axios and has better error handling
       const reqConfig: any = {
@@ -484,6 +835,7 @@ export class NodeExecutor {
         headers: { 'Content-Type': 'application/json', ...headers }
       };
       if (processedBody) reqConfig.data = JSON.parse(processedBody);
+      reqConfig.signal = context.signal;
 
       const r = await this.httpService.request(reqConfig);
       if (!r.success) {
@@ -517,9 +869,9 @@ export class NodeExecutor {
       return { type: 'error', error: 'Email action requires to, subject, and body' };
     }
 
-    const toResolved = this.replaceVariables(to, context.variables);
-    const subjectResolved = this.replaceVariables(subject, context.variables);
-    const bodyResolved = this.replaceVariables(body, context.variables);
+    const toResolved = this.replaceVariables(to, context);
+    const subjectResolved = this.replaceVariables(subject, context);
+    const bodyResolved = this.replaceVariables(body, context);
 
     try {
       const resp = await this.gmailService.sendEmail({ to: toResolved, subject: subjectResolved, body: bodyResolved, isHtml: false });
@@ -545,7 +897,7 @@ export class NodeExecutor {
     const { operation, table, data } = config;
     try {
       // Replace variables in data if it's an object
-      const jsonData = typeof data === 'string' ? JSON.parse(this.replaceVariables(data, context.variables)) : data;
+      const jsonData = typeof data === 'string' ? JSON.parse(this.replaceVariables(data, context)) : data;
       // Use DatabaseService which wraps Mongoose models
       if (operation === 'insert') {
         const rec = await this.databaseService.insertToCollection(table, jsonData);
@@ -569,7 +921,7 @@ export class NodeExecutor {
     const { chatId, message } = config;
     if (!chatId || !message) return { type: 'error', error: 'Telegram action requires chatId and message' };
     try {
-      const msg = this.replaceVariables(message, context.variables);
+      const msg = this.replaceVariables(message, context);
       const r = await this.telegramService.sendMessage({ chatId, text: msg });
       return { type: 'success', output: { sent: r.success === true, messageId: r.messageId || null } };
     } catch (error) {
@@ -582,7 +934,7 @@ export class NodeExecutor {
    */
   private async executeLogAction(config: any, context: ExecutionContext): Promise<NodeExecutionResult> {
     const { message, level = 'info' } = config;
-    const processedMessage = this.replaceVariables(message, context.variables);
+    const processedMessage = this.replaceVariables(message, context);
     
     console.log(`[${level.toUpperCase()}] ${processedMessage}`);
     
@@ -597,12 +949,95 @@ export class NodeExecutor {
   }
 
   /**
-   * Replace variables in text with values from context
+   * Execute merge node: combine the outputs of the upstream nodes the engine collected
    */
-  private replaceVariables(text: string, variables: Record<string, any>): string {
-    return text.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      return variables[varName] !== undefined ? String(variables[varName]) : match;
-    });
+  private async executeMergeNode(node: INode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const config = node.data?.config || node.data || {};
+    const mode = config.mode || 'append';
+    const inputs = context.mergeInputs || [];
+    const values = inputs.map(input => config.field ? TemplateRenderer.resolve(config.field, input.output) : input.output);
+    const toList = (value: any): any[] => Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+    const isRecord = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+    let data: any;
+    switch (mode) {
+      case 'append':
+        data = values.flatMap(toList);
+        break;
+
+      case 'merge_by_key':
+        if (!config.key) {
+          // Plain objects merge field by field, later inputs winning
+          data = Object.assign({}, ...values.filter(isRecord));
+        } else {
+          const merged = new Map<any, Record<string, any>>();
+          for (const record of values.flatMap(toList).filter(isRecord)) {
+            const key = TemplateRenderer.resolve(config.key, record);
+            if (key === undefined) continue;
+            merged.set(key, { ...merged.get(key), ...record });
+          }
+          data = Array.from(merged.values());
+        }
+        break;
+
+      case 'zip': {
+        const lists = values.map(toList);
+        const length = Math.max(0, ...lists.map(list => list.length));
+        data = Array.from({ length }, (_, index) => {
+          const row = lists.map(list => list[index]);
+          return row.every(item => item === undefined || isRecord(item)) ? Object.assign({}, ...row) : row;
+        });
+        break;
+      }
+
+      case 'join':
+        if (!config.joinKey) {
+          return { type: 'error', error: 'Merge node in join mode requires a join key' };
+        }
+        data = values.slice(1).reduce((left, right) => this.dataTransformationService.joinDatasets(left, {
+          joinWith: toList(right),
+          joinKey: config.joinKey,
+          joinType: config.joinType || 'inner'
+        }), toList(values[0]));
+        break;
+
+      case 'wait_first':
+        data = values[0];
+        break;
+
+      default:
+        return { type: 'error', error: `Unknown merge mode: ${mode}` };
+    }
+
+    return {
+      type: 'success',
+      output: {
+        data,
+        mode,
+        sources: inputs.map(input => input.nodeId)
+      }
+    };
+  }
+
+  /**
+   * Replace {{placeholders}} in text with values from context variables and earlier node outputs
+   */
+  private replaceVariables(text: string, context: ExecutionContext): string {
+    return TemplateRenderer.render(text, context.variables, { nodes: this.getNodeOutputs(context) });
+  }
+
+  /**
+   * Outputs of the nodes already run on this branch, keyed by node id, for {{node-id.field}} references
+   */
+  private getNodeOutputs(context: ExecutionContext): Record<string, any> {
+    const outputs: Record<string, any> = {};
+    for (const [nodeId, output] of Object.entries<any>(context.variables.nodes || {})) {
+      // Templates refer to a node's main value as `.result`; AI nodes store it under aiResponse
+      outputs[nodeId] = output && typeof output === 'object' && !Array.isArray(output)
+        ? { result: output.result ?? output.aiResponse ?? output.data, ...output }
+        : { result: output };
+    }
+    return outputs;
   }
 
   /**
@@ -625,10 +1060,11 @@ export class NodeExecutor {
           type: provider.type,
           credentials: provider.credentials
         },
-        path: path ? this.replaceVariables(path, context.variables) : undefined,
-        fileName: fileName ? this.replaceVariables(fileName, context.variables) : undefined,
-        fileContent: fileContent ? this.replaceVariables(fileContent, context.variables) : undefined,
-        ...config
+        path: path ? this.replaceVariables(path, context) : undefined,
+        fileName: fileName ? this.replaceVariables(fileName, context) : undefined,
+        fileContent: fileContent ? this.replaceVariables(fileContent, context) : undefined,
+        ...config,
+        signal: context.signal
       };
 
       const result = await this.fileOperationsService.executeFileOperation(fileOperation);
@@ -676,7 +1112,7 @@ export class NodeExecutor {
             throw new Error('Form submission requires formId and submissionData');
           }
           
-          const processedData = this.replaceObjectVariables(submissionData, context.variables);
+          const processedData = this.replaceObjectVariables(submissionData, context);
           const submission = await this.formBuilderService.submitForm(formId, processedData);
           
           return {
@@ -730,8 +1166,8 @@ export class NodeExecutor {
     try {
       // Process input data with variables
       const processedInputData = typeof inputData === 'string' 
-        ? this.replaceVariables(inputData, context.variables)
-        : this.replaceObjectVariables(inputData, context.variables);
+        ? this.replaceVariables(inputData, context)
+        : this.replaceObjectVariables(inputData, context);
 
       const result = await this.dataTransformationService.transformData(processedInputData, transformConfig);
 
@@ -772,7 +1208,7 @@ export class NodeExecutor {
 
       if (templateId && recipients) {
         // Send templated notification
-        const processedVariables = this.replaceObjectVariables(context.variables, context.variables);
+        const processedVariables = this.replaceObjectVariables(context.variables, context);
         result = await this.pushNotificationService.sendTemplatedNotification(
           config,
           templateId,
@@ -783,11 +1219,11 @@ export class NodeExecutor {
         // Send direct notification
         const processedMessage = {
           ...message,
-          title: this.replaceVariables(message.title, context.variables),
-          body: this.replaceVariables(message.body, context.variables),
+          title: this.replaceVariables(message.title, context),
+          body: this.replaceVariables(message.body, context),
           to: Array.isArray(message.to) 
-            ? message.to.map((recipient: string) => this.replaceVariables(recipient, context.variables))
-            : this.replaceVariables(message.to, context.variables)
+            ? message.to.map((recipient: string) => this.replaceVariables(recipient, context))
+            : this.replaceVariables(message.to, context)
         };
 
         result = await this.pushNotificationService.sendNotification(config, processedMessage);
@@ -827,8 +1263,8 @@ export class NodeExecutor {
           }
 
           const recipient = {
-            email: this.replaceVariables(recipients[0].email || recipients[0], context.variables),
-            name: recipients[0].name ? this.replaceVariables(recipients[0].name, context.variables) : undefined,
+            email: this.replaceVariables(recipients[0].email || recipients[0], context),
+            name: recipients[0].name ? this.replaceVariables(recipients[0].name, context) : undefined,
             variables: { ...context.variables, ...variables }
           };
 
@@ -849,8 +1285,8 @@ export class NodeExecutor {
           }
 
           const processedRecipients = recipients.map((recipient: any) => ({
-            email: this.replaceVariables(recipient.email, context.variables),
-            name: recipient.name ? this.replaceVariables(recipient.name, context.variables) : undefined,
+            email: this.replaceVariables(recipient.email, context),
+            name: recipient.name ? this.replaceVariables(recipient.name, context) : undefined,
             variables: { ...context.variables, ...recipient.variables, ...variables }
           }));
 
@@ -941,55 +1377,7 @@ export class NodeExecutor {
   /**
    * Replace variables in object recursively
    */
-  private replaceObjectVariables(obj: any, variables: Record<string, any>): any {
-    if (typeof obj === 'string') {
-      return this.replaceVariables(obj, variables);
-    } else if (Array.isArray(obj)) {
-      return obj.map(item => this.replaceObjectVariables(item, variables));
-    } else if (obj && typeof obj === 'object') {
-      const result: any = {};
-      for (const [key, value] of Object.entries(obj)) {
-        result[key] = this.replaceObjectVariables(value, variables);
-      }
-      return result;
-    }
-    return obj;
-  }
-
-  /**
-   * Evaluate condition expression
-   */
-  private evaluateCondition(expression: string, variables: Record<string, any>): boolean {
-    try {
-      // Replace variables in expression
-      const processedExpression = this.replaceVariables(expression, variables);
-      
-      // Simple expression evaluation (production would use proper parser)
-      // Support: variable > value, variable == value, etc.
-      const operators = ['>=', '<=', '!=', '==', '>', '<', 'contains'];
-      
-      for (const op of operators) {
-        if (processedExpression.includes(op)) {
-          const [left, right] = processedExpression.split(op).map(s => s.trim());
-          const leftVal = isNaN(Number(left)) ? left.replace(/['"]/g, '') : Number(left);
-          const rightVal = isNaN(Number(right)) ? right.replace(/['"]/g, '') : Number(right);
-          
-          switch (op) {
-            case '>': return Number(leftVal) > Number(rightVal);
-            case '<': return Number(leftVal) < Number(rightVal);
-            case '>=': return Number(leftVal) >= Number(rightVal);
-            case '<=': return Number(leftVal) <= Number(rightVal);
-            case '==': return leftVal == rightVal;
-            case '!=': return leftVal != rightVal;
-            case 'contains': return String(leftVal).includes(String(rightVal));
-          }
-        }
-      }
-      
-      return false;
-    } catch (error) {
-      console.warn('Failed to evaluate condition:', expression, error);
-      return false;
-    }
+  private replaceObjectVariables(obj: any, context: ExecutionContext): any {
+    return TemplateRenderer.renderObject(obj, context.variables, { nodes: this.getNodeOutputs(context) });
   }
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { RetryConfig, RetryService } from '../services/retry.service';
+import { CircuitBreaker, circuitBreakerManager } from '../services/circuit-breaker.service';
+import { INode, IEdge } from '../types/workflow.types';
+
+// Failures leave a node through edges on this handle instead of failing the run
+export const ERROR_HANDLE = 'error';
+
+export type RetryableErrorClass = 'network' | 'timeout' | 'server' | 'rate_limit' | 'any';
+
+/**
+ * Retry policy configured on a node under config.retry
+ */
+export interface NodeRetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+  jitter: boolean;
+  retryOn: RetryableErrorClass[];
+  circuitBreaker?: {
+    failureThreshold: number;
+    resetTimeout: number;
+  };
+}
+
+export const DEFAULT_NODE_RETRY_POLICY: NodeRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryOn: ['network', 'timeout', 'server', 'rate_limit']
+};
+
+const RETRYABLE_CLASSES: RetryableErrorClass[] = ['network', 'timeout', 'server', 'rate_limit', 'any'];
+const MAX_NODE_ATTEMPTS = 10;
+const MAX_NODE_RETRY_DELAY = 5 * 60 * 1000;
+
+// Node results only carry a message, so classes are also matched on its wording
+const MESSAGE_PATTERNS: Record<Exclude<RetryableErrorClass, 'any'>, RegExp> = {
+  network: /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|network error/i,
+  timeout: /ETIMEDOUT|timed? ?out/i,
+  server: /\b50[0-4]\b|internal server error|bad gateway|service unavailable/i,
+  rate_limit: /\b429\b|rate limit|too many requests|quota exceeded/i
+};
+
+/**
+ * Error thrown for a node that returned an error result, so it can be retried like any other failure
+ */
+export class NodeExecutionError extends Error {
+  constructor(message: string, public nodeId: string) {
+    super(message);
+    this.name = 'NodeExecutionError';
+  }
+}
+
+/**
+ * Resolve the retry policy for a node; incoming edges flagged retryOnFail enable the default one,
+ * retrying up to the workflow's maxRetries setting
+ */
+export function resolveRetryPolicy(
+  node: INode,
+  incomingEdges: IEdge[],
+  settings: { maxRetries?: number } = {}
+): NodeRetryPolicy | null {
+  const config = node.data?.config || node.data || {};
+  const retry = config.retry;
+
+  if (!retry || retry.enabled === false) {
+    if (!incomingEdges.some(edge => edge.data?.retryOnFail)) return null;
+
+    const maxRetries = Number(settings.maxRetries);
+    return {
+      ...DEFAULT_NODE_RETRY_POLICY,
+      maxAttempts: Number.isFinite(maxRetries)
+        ? Math.min(Math.max(Math.round(maxRetries), 0), MAX_NODE_ATTEMPTS - 1) + 1
+        : DEFAULT_NODE_RETRY_POLICY.maxAttempts
+    };
+  }
+
+  const number = (value: any, fallback: number, min: number, max: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+  };
+
+  const retryOn = (Array.isArray(retry.retryOn) ? retry.retryOn : DEFAULT_NODE_RETRY_POLICY.retryOn)
+    .filter((errorClass: string): errorClass is RetryableErrorClass =>
+      RETRYABLE_CLASSES.includes(errorClass as RetryableErrorClass));
+
+  return {
+    maxAttempts: Math.round(number(retry.maxAttempts, DEFAULT_NODE_RETRY_POLICY.maxAttempts, 1, MAX_NODE_ATTEMPTS)),
+    baseDelay: number(retry.baseDelay, DEFAULT_NODE_RETRY_POLICY.baseDelay, 0, MAX_NODE_RETRY_DELAY),
+    maxDelay: number(retry.maxDelay, DEFAULT_NODE_RETRY_POLICY.maxDelay, 0, MAX_NODE_RETRY_DELAY),
+    backoffMultiplier: number(retry.backoffMultiplier, DEFAULT_NODE_RETRY_POLICY.backoffMultiplier, 1, 10),
+    jitter: retry.jitter !== false,
+    retryOn,
+    circuitBreaker: retry.circuitBreaker ? {
+      failureThreshold: Math.round(number(retry.circuitBreaker.failureThreshold, 5, 1, 100)),
+      resetTimeout: number(retry.circuitBreaker.resetTimeout, 60000, 1000, 60 * 60 * 1000)
+    } : undefined
+  };
+}
+
+/**
+ * Check whether an error falls into one of the retryable classes
+ */
+export function isRetryableError(error: any, retryOn: RetryableErrorClass[]): boolean {
+  if (retryOn.includes('any')) return true;
+
+  const byCode = RetryService.createRetryCondition({
+    networkErrors: retryOn.includes('network'),
+    timeoutErrors: retryOn.includes('timeout'),
+    serverErrors: retryOn.includes('server'),
+    customStatuses: retryOn.includes('rate_limit') ? [429] : []
+  });
+  if (error && byCode(error)) return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return retryOn.some(errorClass => errorClass !== 'any' && MESSAGE_PATTERNS[errorClass].test(message));
+}
+
+/**
+ * Translate a node policy into RetryService options
+ */
+export function toRetryConfig(policy: NodeRetryPolicy): Partial<RetryConfig> {
+  return {
+    maxAttempts: policy.maxAttempts,
+    baseDelay: policy.baseDelay,
+    maxDelay: policy.maxDelay,
+    backoffMultiplier: policy.backoffMultiplier,
+    jitter: policy.jitter,
+    retryCondition: (error: any) => isRetryableError(error, policy.retryOn)
+  };
+}
+
+/**
+ * Get (or create) the circuit breaker shared by every run of a node
+ */
+export function getNodeCircuitBreaker(workflowId: string, nodeId: string, policy: NodeRetryPolicy): CircuitBreaker | null {
+  if (!policy.circuitBreaker) return null;
+
+  const name = `node-${workflowId}-${nodeId}`;
+  return circuitBreakerManager.getCircuitBreaker(name) || circuitBreakerManager.createCircuitBreaker(name, {
+    failureThreshold: policy.circuitBreaker.failureThreshold,
+    successThreshold: 1,
+    timeout: MAX_NODE_RETRY_DELAY,
+    resetTimeout: policy.circuitBreaker.resetTimeout,
+    monitorWindow: 60000
+  });
+}
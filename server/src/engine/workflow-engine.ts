@@ -1,282 +1,2130 @@
 import { EventEmitter } from 'events';
-import { WorkflowModel } from '../models/workflow.model';
-import { ExecutionHistoryModel } from '../models/execution-history.model';
-import { INode, IEdge, NodeType, WorkflowStatus } from '../types/workflow.types';
-import { NodeExecutor } from './node-executor';
+import { WorkflowModel, PinnedNodeData } from '../models/workflow.model';
+import { ExecutionHistoryModel, MOCK_EXECUTION_TAG } from '../models/execution-history.model';
+import { INode, IEdge, NodeType, WorkflowStatus, ExecutionPriority } from '../types/workflow.types';
+import { NodeExecutor, NodeExecutionResult, NodeAIUsage, combineAIUsage } from './node-executor';
 import { EventBus } from './event-bus';
 import { lockService } from '../services/lock.service';
 import { cacheService } from '../services/cache.service';
+import { queueService, WorkflowTimerJob, EngineJob } from '../services/queue.service';
+import { config } from '../config/config';
+import { ExpressionEvaluator } from '../utils/expression-evaluator';
+import { TemplateRenderer } from '../utils/template-renderer';
+import { workflowVersionService, WorkflowDefinition } from '../services/workflow-version.service';
+import { workflowValidationService, WorkflowValidationError } from '../services/workflow-validation.service';
+import { workflowNotificationService } from '../services/workflow-notification.service';
+import { eventLogService } from '../services/event-log.service';
+import { costLedgerService } from '../services/cost-ledger.service';
+import { RetryService, RetryAttempt } from '../services/retry.service';
+import { throwIfAborted } from '../utils/abort';
+import { SchemaValidationError } from '../utils/json-schema';
+import {
+  ERROR_HANDLE,
+  NodeExecutionError,
+  resolveRetryPolicy,
+  toRetryConfig,
+  getNodeCircuitBreaker
+} from './retry-policy';
+
+export const MAIN_BRANCH = 'main';
+
+// Loop nodes run the path behind this handle once per item, then continue on their other edges
+export const LOOP_BODY_HANDLE = 'body';
+
+// Edges without a handle leave switch and decision nodes through their default case
+export const DEFAULT_HANDLE = 'default';
+
+const MAX_LOOP_ITEMS = 10000;
+const MAX_SUBWORKFLOW_DEPTH = parseInt(process.env.MAX_SUBWORKFLOW_DEPTH || '5', 10);
+const MAX_LOOP_BODY_STEPS = 500;
+const START_LOCK_ATTEMPTS = 50;
+const START_LOCK_RETRY_DELAY = 100;
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout fires immediately for anything longer
+const EXECUTION_LOCK_WAIT = 10000;
+const EXECUTION_LOCK_TTL = 120; // Seconds; the lock covers state changes only, never node work
+const EXECUTION_LOCK_POLL = 200;
+const EXECUTION_HEARTBEAT_INTERVAL = 60000; // Keeps runs with long-running nodes from looking lost
+
+export type BranchStatus = 'running' | 'paused' | 'forked' | 'joined' | 'completed' | 'discarded';
+
+/**
+ * A single cursor through the workflow graph with its own variable scope
+ */
+export interface ExecutionBranch {
+  id: string;
+  parentId?: string;
+  currentNodeId: string;
+  variables: Record<string, any>;
+  status: BranchStatus;
+  childExecutionId?: string; // Sub-workflow run this branch is paused on
+}
+
+/**
+ * Arrivals recorded at a join node until enough branches have come in
+ */
+export interface JoinState {
+  expected: number;
+  required: number;
+  fired: boolean;
+  arrivals: Array<{
+    branchId: string;
+    sourceNodeId: string;
+    variables: Record<string, any>;
+    arrivedAt: Date;
+  }>;
+}
 
 export interface ExecutionContext {
   executionId: string;
   workflowId: string;
+  workflowVersion?: number; // Definition the run started on; edits to the workflow don't affect it
   currentNodeId: string;
   variables: Record<string, any>;
+  branches: Record<string, ExecutionBranch>;
+  joins: Record<string, JoinState>;
   executionHistory: Array<{
     nodeId: string;
+    branchId?: string;
     timestamp: Date;
     input: any;
     output: any;
+    promoted?: Record<string, any>;
+    childExecutionId?: string;
+    attempts?: RetryAttempt[]; // One entry per try when the node has a retry policy
     error?: string;
+    errorCode?: string;
+    validationErrors?: SchemaValidationError[]; // AI output that didn't match the node's output schema
+    handled?: boolean; // Failure was routed down the node's error edges
+    interrupted?: boolean; // The run was cancelled while this node was in flight
+    aiTokensUsed?: number; // AI nodes: tokens and USD cost across their model calls
+    aiCost?: number;
     duration: number;
   }>;
   status: WorkflowStatus;
   startTime: Date;
   endTime?: Date;
+  mergeInputs?: Array<{ nodeId: string; output: any }>; // Upstream outputs handed to a merge node
+  parentExecution?: SubWorkflowParent;
+  callStack?: string[]; // Workflow ids of the parent runs, outermost first
+  retryOf?: { executionId: string; nodeId: string }; // Run this one was re-started from
+  idempotencyKey?: string; // Key of the trigger delivery that started the run
+  error?: { message: string; code: string }; // Why the run failed, or was cancelled by the engine
+  activeDuration?: number; // Milliseconds spent running, not counting pauses
+  runningSince?: Date; // Start of the current running stretch
+  eventSequence?: number; // Sequence of the last event appended to the execution's event log
+  mock?: { pinnedOutputs: Record<string, any> }; // Test run: nodes return pinned sample data instead of calling out
+  signal?: AbortSignal; // Set on the context a node runs with; aborted when the run is cancelled (never persisted)
+}
+
+/**
+ * Node work running in this process, which a cancellation aborts
+ */
+interface InFlightNode {
+  context: ExecutionContext;
+  branchId: string;
+  nodeId: string;
+  startTime: number;
+  controller: AbortController;
+}
+
+/**
+ * Thrown when a queued job can't get hold of its execution because another worker is still on it
+ */
+class ExecutionBusyError extends Error {
+  constructor(executionId: string) {
+    super(`Execution ${executionId} is busy`);
+    this.name = 'ExecutionBusyError';
+  }
+}
+
+/**
+ * Thrown when a run is started while the workflow is at its concurrency limit and set to reject
+ */
+export class WorkflowConcurrencyError extends Error {
+  constructor(workflowId: string, public limit: number) {
+    super(`Workflow ${workflowId} already has ${limit} running execution(s)`);
+    this.name = 'WorkflowConcurrencyError';
+  }
+}
+
+/**
+ * Thrown when an execution can't be retried from the requested node
+ */
+export class RetryFromNodeError extends Error {
+  constructor(message: string, public reason: 'not-found' | 'still-active' | 'invalid-node') {
+    super(message);
+    this.name = 'RetryFromNodeError';
+  }
+}
+
+/**
+ * The sub-workflow node a child execution reports back to
+ */
+export interface SubWorkflowParent {
+  executionId: string;
+  nodeId: string;
+  branchId: string;
 }
 
-export class WorkflowEngine extends EventEmitter {
-  private nodeExecutor: NodeExecutor;
-  private eventBus: EventBus;
-  private runningExecutions: Map<string, ExecutionContext> = new Map();
+export class WorkflowEngine extends EventEmitter {
+  private nodeExecutor: NodeExecutor;
+  private eventBus: EventBus;
+  private runningExecutions: Map<string, ExecutionContext> = new Map();
+  private executionTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private inFlightNodes: Map<string, InFlightNode> = new Map(); // Keyed by executionId:branchId
+  // Branches this process holds the step lock of, with the next step scheduled while it was held
+  private lockedBranches: Map<string, ExecutionContext | null> = new Map();
+
+  constructor() {
+    super();
+    this.nodeExecutor = new NodeExecutor();
+    this.eventBus = EventBus.getInstance();
+    this.setupEventHandlers();
+  }
+
+  /**
+   * Start workflow execution
+   */
+  async executeWorkflow(
+    workflowId: string,
+    triggerData?: any,
+    options: {
+      parentExecution?: SubWorkflowParent;
+      callStack?: string[];
+      version?: number;
+      mock?: boolean;
+      executionId?: string; // Id reserved when the run was queued
+      idempotencyKey?: string;
+    } = {}
+  ): Promise<string> {
+    const workflow = await WorkflowModel.findById(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    // Pin the run to a version: the requested one, or a snapshot of the live definition
+    const definition = await workflowVersionService.getDefinition(workflowId, options.version);
+
+    // Refuse to start (or auto-activate) a definition that can't run
+    const validation = workflowValidationService.validate({ ...definition, id: workflowId });
+    if (!validation.valid) {
+      throw new WorkflowValidationError(workflowId, validation);
+    }
+
+    if (workflow.status !== 'active') {
+      // Auto-activate workflow for execution (user-friendly approach)
+      console.log(`🔄 Auto-activating workflow ${workflowId} for execution`);
+      workflow.status = 'active';
+      await workflow.save();
+    }
+
+    // Create execution context; node outputs are added under nodes.<nodeId> as they run
+    const executionId = options.executionId || this.newExecutionId();
+    const startNodeId = this.findStartNode(definition.nodes);
+    const variables = { trigger: { ...triggerData }, nodes: {} };
+    const context: ExecutionContext = {
+      executionId,
+      workflowId,
+      workflowVersion: definition.version,
+      currentNodeId: startNodeId,
+      variables,
+      branches: {
+        [MAIN_BRANCH]: {
+          id: MAIN_BRANCH,
+          currentNodeId: startNodeId,
+          variables: { ...variables },
+          status: 'running'
+        }
+      },
+      joins: {},
+      executionHistory: [],
+      status: WorkflowStatus.RUNNING,
+      startTime: new Date(),
+      parentExecution: options.parentExecution,
+      callStack: options.callStack || [],
+      idempotencyKey: options.idempotencyKey,
+      mock: options.mock ? { pinnedOutputs: this.getPinnedOutputs(workflow.pinnedData) } : undefined
+    };
+
+    // Start execution, or queue it behind the runs already using the workflow's slots
+    await this.launchExecution(context);
+
+    return executionId;
+  }
+
+  /**
+   * Queue a triggered run in a priority lane and return the id it will run under. The lane is the
+   * requested priority, else the workflow's; the workflow's rate cap is applied when the run starts.
+   * A definition that can't run is refused here, so the caller hears about it rather than the queue.
+   */
+  async queueExecution(
+    workflowId: string,
+    triggerData?: any,
+    options: { priority?: ExecutionPriority; idempotencyKey?: string } = {}
+  ): Promise<string> {
+    const workflow = await WorkflowModel.findById(workflowId).select('settings metadata.creator permissions.owners');
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const definition = await workflowVersionService.getDefinition(workflowId);
+    const validation = workflowValidationService.validate({ ...definition, id: workflowId });
+    if (!validation.valid) {
+      throw new WorkflowValidationError(workflowId, validation);
+    }
+
+    const executionId = this.newExecutionId();
+    const lane = options.priority || workflow.settings?.priority || ExecutionPriority.NORMAL;
+    await queueService.enqueueWorkflow({
+      workflowId,
+      executionId,
+      data: triggerData || {},
+      userId: workflow.metadata?.creator || workflow.permissions?.owners?.[0] || 'anonymous',
+      lane,
+      rateLimit: workflow.settings?.rateLimit,
+      idempotencyKey: options.idempotencyKey
+    });
+
+    console.log(`📥 Queued execution ${executionId} of workflow ${workflowId} in the ${lane} lane`);
+    return executionId;
+  }
+
+  /**
+   * Record a queued run that will never start, so its reserved id resolves to a finished execution.
+   * Nothing is written if the run already has a record.
+   */
+  async recordUnstartedExecution(
+    run: { workflowId: string; executionId: string; data?: Record<string, any> },
+    status: WorkflowStatus,
+    error: { code: string; message: string }
+  ): Promise<void> {
+    const now = new Date();
+    await ExecutionHistoryModel.updateOne(
+      { _id: run.executionId },
+      {
+        $setOnInsert: {
+          workflowId: run.workflowId,
+          status,
+          startTime: now,
+          endTime: now,
+          nodeExecutions: [],
+          inputs: run.data || {},
+          outputs: {},
+          error
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Start a new execution linked to a finished one, picking up at a node with the variables
+   * as they stood before that node ran (plus any patches). Earlier nodes are not re-run.
+   */
+  async retryFromNode(
+    executionId: string,
+    nodeId: string,
+    options: { variables?: Record<string, any>; useLatestVersion?: boolean } = {}
+  ): Promise<string> {
+    const original = await ExecutionHistoryModel.findById(executionId);
+    if (!original) {
+      throw new RetryFromNodeError(`Execution ${executionId} not found`, 'not-found');
+    }
+    if ([WorkflowStatus.PENDING, WorkflowStatus.RUNNING, WorkflowStatus.PAUSED].includes(original.status)) {
+      throw new RetryFromNodeError(`Execution ${executionId} is still ${original.status}; cancel it before retrying`, 'still-active');
+    }
+
+    const workflowId = original.workflowId.toString();
+    const definition = options.useLatestVersion
+      ? await workflowVersionService.getDefinition(workflowId)
+      : await this.getDefinition({ workflowId, workflowVersion: original.workflowVersion });
+
+    const node = definition.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      throw new RetryFromNodeError(`Node ${nodeId} is not part of workflow version ${definition.version}`, 'invalid-node');
+    }
+    if (node.type === NodeType.JOIN || node.type === NodeType.MERGE) {
+      throw new RetryFromNodeError(`Can't retry from ${node.type} node ${nodeId}; retry from one of its inputs instead`, 'invalid-node');
+    }
+
+    // Replay the outputs recorded before the node's last run to rebuild its variable scope
+    const lastRun = original.nodeExecutions.map(ne => ne.nodeId).lastIndexOf(nodeId);
+    if (lastRun === -1) {
+      throw new RetryFromNodeError(`Node ${nodeId} did not run in execution ${executionId}`, 'invalid-node');
+    }
+
+    let variables: Record<string, any> = { trigger: { ...original.inputs }, nodes: {} };
+    for (const ne of original.nodeExecutions.slice(0, lastRun)) {
+      if (ne.status === 'success') {
+        variables = this.withNodeOutput(variables, ne.nodeId, ne.output, ne.promoted || {});
+      } else if (ne.handled) {
+        variables = this.withNodeOutput(variables, ne.nodeId, { error: ne.error, failed: true }, {});
+      }
+    }
+
+    // Patches win; trigger data and node outputs are patched per key rather than replaced
+    const patch = options.variables || {};
+    variables = {
+      ...variables,
+      ...patch,
+      trigger: { ...variables.trigger, ...(patch.trigger || {}) },
+      nodes: { ...variables.nodes, ...(patch.nodes || {}) }
+    };
+
+    const retryId = this.newExecutionId();
+    const context: ExecutionContext = {
+      executionId: retryId,
+      workflowId,
+      workflowVersion: definition.version,
+      currentNodeId: nodeId,
+      variables,
+      branches: {
+        [MAIN_BRANCH]: {
+          id: MAIN_BRANCH,
+          currentNodeId: nodeId,
+          variables: { ...variables },
+          status: 'running'
+        }
+      },
+      joins: {},
+      executionHistory: [],
+      status: WorkflowStatus.RUNNING,
+      startTime: new Date(),
+      callStack: original.callStack || [],
+      retryOf: { executionId, nodeId },
+      // Retries of mock runs stay mock runs, with the pins as they are now
+      mock: original.tags?.includes(MOCK_EXECUTION_TAG)
+        ? { pinnedOutputs: this.getPinnedOutputs((await WorkflowModel.findById(workflowId).select('pinnedData'))?.pinnedData) }
+        : undefined
+    };
+
+    await this.launchExecution(context);
+    console.log(`🔁 Retrying execution ${executionId} from node ${nodeId} as ${retryId}`);
+
+    return retryId;
+  }
+
+  /**
+   * Resume paused workflow execution
+   */
+  async resumeWorkflow(executionId: string, resumeData?: any): Promise<void> {
+    if (this.queueMode) {
+      // Check up front so callers still get an error; a worker applies the resume
+      this.getResumableBranches(await this.loadOrThrow(executionId));
+      await queueService.enqueueEngineJob({ type: 'resume', executionId, resumeData });
+      return;
+    }
+    await this.applyResume(executionId, resumeData);
+  }
+
+  private async applyResume(executionId: string, resumeData?: any): Promise<void> {
+    const context = await this.loadOrThrow(executionId);
+    this.trackExecution(context);
+
+    const pausedBranches = this.getResumableBranches(context);
+
+    // Merge resume data into context and every paused branch
+    if (resumeData) {
+      context.variables = { ...context.variables, ...resumeData };
+    }
+    for (const branch of pausedBranches) {
+      if (resumeData) {
+        branch.variables = { ...branch.variables, ...resumeData };
+      }
+      branch.status = 'running';
+    }
+
+    context.status = WorkflowStatus.RUNNING;
+    await this.startTimeoutClock(context);
+
+    this.emitExecutionEvent(context, 'execution:resumed', {
+      executionId,
+      branchIds: pausedBranches.map(branch => branch.id),
+      resumeData
+    });
+    await this.persistExecution(context);
+
+    // Continue execution
+    for (const branch of pausedBranches) {
+      await this.scheduleStep(context, branch.id);
+    }
+  }
+
+  // Branches waiting on a sub-workflow resume when that run finishes, not on external input
+  private getResumableBranches(context: ExecutionContext): ExecutionBranch[] {
+    const pausedBranches = Object.values(context.branches).filter(b => b.status === 'paused' && !b.childExecutionId);
+    if (pausedBranches.length === 0) {
+      throw new Error(`Execution ${context.executionId} is not paused`);
+    }
+    return pausedBranches;
+  }
+
+  /**
+   * Wake a branch paused on a timer node and continue past it
+   */
+  async handleTimerExpired(timer: WorkflowTimerJob): Promise<void> {
+    if (this.queueMode) {
+      await queueService.enqueueEngineJob({ type: 'timer', executionId: timer.executionId, timer });
+      return;
+    }
+    await this.applyTimerExpired(timer);
+  }
+
+  private async applyTimerExpired(timer: WorkflowTimerJob): Promise<void> {
+    const context = await this.getContext(timer.executionId);
+    if (!context) {
+      console.warn(`Timer fired for unknown execution ${timer.executionId}`);
+      return;
+    }
+
+    // Ignore stale timers: the run was cancelled, failed, or already moved on
+    const branch = context.branches[timer.branchId];
+    if (!branch || branch.status !== 'paused' || branch.currentNodeId !== timer.nodeId) {
+      return;
+    }
+    if (context.status !== WorkflowStatus.PAUSED && context.status !== WorkflowStatus.RUNNING) {
+      return;
+    }
+
+    const workflow = await this.getDefinition(context);
+
+    this.trackExecution(context);
+
+    const output = {
+      delayed: true,
+      scheduledFor: timer.resumeAt,
+      resumedAt: new Date().toISOString()
+    };
+    const timerNode = workflow.nodes.find(n => n.id === timer.nodeId);
+    const promoted = timerNode ? this.getPromotedGlobals(timerNode, output) : {};
+
+    context.executionHistory.push({
+      nodeId: timer.nodeId,
+      branchId: branch.id,
+      timestamp: new Date(),
+      input: branch.variables,
+      output,
+      promoted,
+      duration: 0
+    });
+
+    branch.variables = this.withNodeOutput(branch.variables, timer.nodeId, output, promoted);
+    context.variables = this.withNodeOutput(context.variables, timer.nodeId, output, promoted);
+    branch.status = 'running';
+    context.status = WorkflowStatus.RUNNING;
+    await this.startTimeoutClock(context);
+
+    this.emitExecutionEvent(context, 'timer:expired', {
+      executionId: context.executionId,
+      nodeId: timer.nodeId,
+      branchId: branch.id
+    }, { broadcast: true });
+
+    await this.advanceBranch(context, workflow, branch, timer.nodeId);
+  }
+
+  /**
+   * Execute the next node on a branch of the workflow. In queue mode the execution is locked only while
+   * its state is read and changed: the node runs unlocked, so other branches and jobs aren't held up, and
+   * its result is merged into the stored context as it stands once the node is done.
+   */
+  private async executeNextNode(context: ExecutionContext, branchId: string = MAIN_BRANCH): Promise<void> {
+    const lockKey = `execution:${context.executionId}:${branchId}`;
+    const branchKey = `${context.executionId}:${branchId}`;
+    
+    try {
+      // A branch runs one node at a time; in queue mode the lock lasts as long as a step may take
+      const branchLock = await lockService.acquireLock(lockKey, this.queueMode ? config.engine.stepLockTTL : undefined);
+      if (!branchLock) {
+        if (this.queueMode) {
+          console.log(`⏭️ Branch ${branchId} of execution ${context.executionId} is already running a step, skipping this one`);
+          return;
+        }
+        throw new Error(`Could not acquire lock for key: ${lockKey}`);
+      }
+      this.lockedBranches.set(branchKey, null);
+
+      try {
+        const step = await this.withCurrentContext(context, async (current) => {
+          const branch = current.branches[branchId];
+          if (!branch || branch.status !== 'running' || current.status !== WorkflowStatus.RUNNING) {
+            return null;
+          }
+
+          const workflow = await this.getDefinition(current);
+
+          const currentNode = workflow.nodes.find(n => n.id === branch.currentNodeId);
+          if (!currentNode) {
+            branch.status = 'completed';
+            await this.settleExecution(current);
+            return null;
+          }
+
+          current.currentNodeId = currentNode.id;
+
+          this.emitExecutionEvent(current, 'node:start', {
+            executionId: current.executionId,
+            nodeId: currentNode.id,
+            nodeType: currentNode.type,
+            branchId
+          });
+
+          // Save the event sequence before letting go of the execution
+          if (this.queueMode) {
+            await this.persistExecution(current);
+          }
+          return { context: current, workflow, branch, currentNode };
+        });
+        if (!step) {
+          return;
+        }
+
+        const { workflow, branch, currentNode } = step;
+        const startTime = Date.now();
+        const controller = new AbortController();
+        this.inFlightNodes.set(branchKey, { context: step.context, branchId, nodeId: currentNode.id, startTime, controller });
+        const heartbeat = setInterval(() => this.touchExecution(context.executionId), EXECUTION_HEARTBEAT_INTERVAL);
+
+        let outcome: { result: NodeExecutionResult; attempts?: RetryAttempt[] };
+        try {
+          // Execute the node against the branch's own variable scope, retrying per its policy
+          const branchContext = { ...this.getBranchContext(step.context, branch), signal: controller.signal };
+          outcome = await this.executeWithRetryPolicy(currentNode, workflow, branchContext, () => {
+            // In mock runs a pinned output stands in for loops and sub-workflows as well
+            const mocked = this.nodeExecutor.getMockResult(currentNode, branchContext);
+            if (mocked) {
+              return Promise.resolve(mocked);
+            }
+            if (currentNode.type === NodeType.LOOP) {
+              return this.executeLoop(currentNode, workflow, branchContext);
+            }
+            if (currentNode.type === NodeType.SUB_WORKFLOW) {
+              return this.prepareSubWorkflow(currentNode, branchContext);
+            }
+            return this.nodeExecutor.executeNode(currentNode, branchContext);
+          });
+        } catch (error) {
+          clearInterval(heartbeat);
+          this.inFlightNodes.delete(branchKey);
+          const duration = Date.now() - startTime;
+
+          await this.withCurrentContext(step.context, async (current) => {
+            if (current.status !== WorkflowStatus.RUNNING) {
+              return;
+            }
+
+            current.executionHistory.push({
+              nodeId: currentNode.id,
+              branchId,
+              timestamp: new Date(),
+              input: branch.variables,
+              output: null,
+              error: error instanceof Error ? error.message : String(error),
+              duration
+            });
+
+            await this.handleExecutionError(current, error instanceof Error ? error.message : String(error));
+          }, { waitForLock: true });
+          return;
+        }
+        clearInterval(heartbeat);
+        this.inFlightNodes.delete(branchKey);
+
+        const { result, attempts } = outcome;
+        const duration = Date.now() - startTime;
+
+        // Cancelled while in flight: the node is recorded as interrupted and its result is dropped.
+        // Inline runs were recorded by the cancellation itself; a worker adds the record to the stored run.
+        if (controller.signal.aborted) {
+          if (this.queueMode) {
+            await this.withCurrentContext(step.context, async (current) => {
+              this.recordInterruptedNode(current, branchId, currentNode.id, startTime, String(controller.signal.reason || 'Execution cancelled'));
+              await this.persistExecution(current);
+            }, { waitForLock: true });
+          }
+          return;
+        }
+
+        await this.withCurrentContext(step.context, async (current) => {
+          const currentBranch = current.branches[branchId];
+
+          // Another branch may have failed or the run was cancelled while this node was in flight
+          if (current.status !== WorkflowStatus.RUNNING || currentBranch?.status !== 'running' || currentBranch.currentNodeId !== currentNode.id) {
+            return;
+          }
+
+          await this.applyNodeResult(current, workflow, currentBranch, currentNode, result, attempts, duration);
+        }, { waitForLock: true });
+      } finally {
+        await lockService.releaseLock(lockKey, branchLock);
+        // The branch's next step goes out only now, so it can't find the lock still held and be skipped
+        const nextStep = this.lockedBranches.get(branchKey);
+        this.lockedBranches.delete(branchKey);
+        if (nextStep) {
+          await this.scheduleStep(nextStep, branchId);
+        }
+      }
+
+    } catch (error) {
+      // Busy before the node ran: the queue retries the step
+      if (error instanceof ExecutionBusyError) throw error;
+      console.error(`Failed to execute node in ${context.executionId}:`, error);
+      await this.withCurrentContext(context, async (current) => {
+        if (this.isActive(current)) {
+          await this.handleExecutionError(current, error instanceof Error ? error.message : String(error));
+        }
+      }, { waitForLock: true });
+    }
+  }
+
+  /**
+   * Record a node's result on its branch and move the branch on: to the next nodes, a pause, or its error path
+   */
+  private async applyNodeResult(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    currentNode: INode,
+    result: NodeExecutionResult,
+    attempts: RetryAttempt[] | undefined,
+    duration: number
+  ): Promise<void> {
+    const branchId = branch.id;
+    const promoted = result.type === 'success' ? this.getPromotedGlobals(currentNode, result.output) : {};
+
+    // Record execution history
+    context.executionHistory.push({
+      nodeId: currentNode.id,
+      branchId,
+      timestamp: new Date(),
+      input: branch.variables,
+      output: result.type === 'error' ? null : result.output,
+      promoted,
+      attempts,
+      error: result.type === 'error' ? result.error || 'Unknown error' : undefined,
+      errorCode: result.type === 'error' ? result.errorCode : undefined,
+      validationErrors: result.type === 'error' ? result.validationErrors : undefined,
+      aiTokensUsed: result.usage?.totalTokens,
+      aiCost: result.usage?.cost,
+      duration
+    });
+
+    if (result.usage && !context.mock) {
+      costLedgerService.record({
+        executionId: context.executionId,
+        workflowId: context.workflowId,
+        nodeId: currentNode.id,
+        branchId,
+        position: context.executionHistory.length - 1,
+        provider: result.usage.provider,
+        model: result.usage.model,
+        calls: result.usage.calls,
+        usage: result.usage,
+        cost: result.usage.cost
+      }).catch(error => console.error(`❌ Failed to record AI usage for node ${currentNode.id}:`, error));
+    }
+
+    // Keep the output under nodes.<nodeId> so nodes writing the same keys don't clobber each other
+    if (result.type === 'success' && result.output !== undefined) {
+      branch.variables = this.withNodeOutput(branch.variables, currentNode.id, result.output, promoted);
+      context.variables = this.withNodeOutput(context.variables, currentNode.id, result.output, promoted);
+    }
+
+    this.emitExecutionEvent(context, 'node:complete', {
+      executionId: context.executionId,
+      nodeId: currentNode.id,
+      branchId,
+      result: result.type,
+      duration
+    });
+
+    // Handle different result types
+    if (result.type === 'success') {
+      await this.advanceBranch(context, workflow, branch, currentNode.id);
+
+    } else if (result.type === 'pause') {
+      // Pause this branch for human intervention
+      branch.status = 'paused';
+
+      this.emitExecutionEvent(context, 'execution:paused', {
+        executionId: context.executionId,
+        nodeId: currentNode.id,
+        branchId,
+        reason: result.reason,
+        data: result.data
+      });
+
+      await this.settleExecution(context);
+
+      // Timers get a persisted wake-up instead of an in-process timeout
+      if (result.resumeAt) {
+        await queueService.scheduleTimer({
+          executionId: context.executionId,
+          branchId,
+          nodeId: currentNode.id,
+          resumeAt: result.resumeAt
+        });
+      }
+
+      // Start the child only once this branch is persisted as paused, so its completion can't race us
+      if (currentNode.type === NodeType.SUB_WORKFLOW) {
+        await this.startSubWorkflow(context, branch, currentNode, result.data);
+      }
+
+    } else if (result.type === 'error') {
+      // Error edges turn the failure into a compensation path; without them the run fails
+      const hasErrorEdges = workflow.edges.some(edge => edge.source === currentNode.id && edge.sourceHandle === ERROR_HANDLE);
+      if (hasErrorEdges) {
+        await this.routeNodeError(context, workflow, branch, currentNode, result.error || 'Unknown error', attempts);
+      } else {
+        await this.handleExecutionError(context, result.error || 'Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Route a branch to the node(s) following the one it just finished
+   */
+  private async advanceBranch(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    fromNodeId: string
+  ): Promise<void> {
+    const nextNodes = this.getNextNodes(workflow.nodes, workflow.edges, fromNodeId, branch.variables);
+
+    if (nextNodes.length === 0) {
+      // Nothing left on this path
+      branch.status = 'completed';
+      await this.settleExecution(context);
+    } else if (nextNodes.length === 1) {
+      // Single path, continue on the same branch
+      await this.moveBranch(context, workflow, branch, nextNodes[0], fromNodeId);
+    } else {
+      // Multiple paths (parallel execution)
+      await this.handleParallelExecution(context, workflow, branch, nextNodes, fromNodeId);
+    }
+  }
+
+  /**
+   * Run a node operation under the node's retry policy and circuit breaker, if it has them
+   */
+  private async executeWithRetryPolicy(
+    node: INode,
+    workflow: { nodes: INode[]; edges: IEdge[]; settings?: Record<string, any> },
+    context: ExecutionContext,
+    execute: () => Promise<NodeExecutionResult>
+  ): Promise<{ result: NodeExecutionResult; attempts?: RetryAttempt[] }> {
+    const policy = resolveRetryPolicy(node, workflow.edges.filter(edge => edge.target === node.id), workflow.settings);
+    if (!policy) {
+      try {
+        return { result: await execute() };
+      } catch (error) {
+        return { result: { type: 'error', error: error instanceof Error ? error.message : String(error) } };
+      }
+    }
+
+    // Error results are thrown so the retry loop and breaker see them as failures.
+    // AI usage is summed over the tries, as failed ones were paid for too.
+    const breaker = getNodeCircuitBreaker(context.workflowId, node.id, policy);
+    let usage: NodeAIUsage | undefined;
+    let lastError: NodeExecutionResult | undefined;
+    const attempt = async () => {
+      const result = await execute();
+      usage = combineAIUsage(usage, result.usage);
+      if (result.type === 'error') {
+        lastError = result;
+        throw new NodeExecutionError(result.error || 'Unknown error', node.id);
+      }
+      return result;
+    };
+
+    const outcome = await RetryService.executeWithRetry(
+      () => breaker ? breaker.execute(attempt) : attempt(),
+      { ...toRetryConfig(policy), signal: context.signal }
+    );
+
+    if (outcome.attempts.length > 1) {
+      console.log(`🔁 Node ${node.id} ${outcome.success ? 'succeeded' : 'failed'} after ${outcome.attempts.length} attempts`);
+    }
+
+    if (outcome.success && outcome.result) {
+      return { result: { ...outcome.result, usage }, attempts: outcome.attempts };
+    }
+    return {
+      result: {
+        type: 'error',
+        error: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+        errorCode: lastError?.errorCode,
+        validationErrors: lastError?.validationErrors,
+        usage
+      },
+      attempts: outcome.attempts
+    };
+  }
+
+  /**
+   * Send a failed node's branch down its error edges, exposing the failure as the node's output
+   */
+  private async routeNodeError(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    node: INode,
+    error: string,
+    attempts?: RetryAttempt[]
+  ): Promise<void> {
+    const entry = context.executionHistory[context.executionHistory.length - 1];
+    const recorded = entry?.nodeId === node.id ? entry : undefined;
+    if (recorded) {
+      recorded.handled = true;
+    }
+
+    const output = {
+      error,
+      failed: true,
+      attempts: attempts?.length || 1,
+      failedAt: new Date().toISOString(),
+      ...(recorded?.errorCode && { errorCode: recorded.errorCode, validationErrors: recorded.validationErrors })
+    };
+
+    branch.variables = this.withNodeOutput(branch.variables, node.id, output, {});
+    context.variables = this.withNodeOutput(context.variables, node.id, output, {});
+
+    this.emitExecutionEvent(context, 'node:error_handled', {
+      executionId: context.executionId,
+      nodeId: node.id,
+      branchId: branch.id,
+      error
+    }, { broadcast: true });
+
+    const targets = workflow.edges
+      .filter(edge => edge.source === node.id && edge.sourceHandle === ERROR_HANDLE)
+      .map(edge => edge.target);
+
+    if (targets.length === 1) {
+      await this.moveBranch(context, workflow, branch, targets[0], node.id);
+    } else {
+      await this.handleParallelExecution(context, workflow, branch, targets, node.id);
+    }
+  }
+
+  /**
+   * Move a branch cursor onto a node and schedule it, or hand it to a join
+   */
+  private async moveBranch(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    targetNodeId: string,
+    fromNodeId: string
+  ): Promise<void> {
+    const targetNode = workflow.nodes.find(n => n.id === targetNodeId);
+    if (targetNode?.type === NodeType.JOIN || targetNode?.type === NodeType.MERGE) {
+      await this.arriveAtJoin(context, workflow, branch, targetNode, fromNodeId);
+      return;
+    }
+
+    branch.currentNodeId = targetNodeId;
+    context.currentNodeId = targetNodeId;
+    await this.persistExecution(context);
+
+    // Schedule next execution
+    await this.scheduleStep(context, branch.id);
+  }
+
+  /**
+   * Fan out into one concurrent branch per target, each with a copy of the parent's variables
+   */
+  private async handleParallelExecution(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    nodeIds: string[],
+    fromNodeId: string
+  ): Promise<void> {
+    branch.status = 'forked';
+
+    const children = nodeIds.map((nodeId, index) => {
+      const child: ExecutionBranch = {
+        id: `${branch.id}.${index + 1}`,
+        parentId: branch.id,
+        currentNodeId: fromNodeId,
+        variables: { ...branch.variables },
+        status: 'running'
+      };
+      context.branches[child.id] = child;
+      return { child, nodeId };
+    });
+
+    for (const { child, nodeId } of children) {
+      await this.moveBranch(context, workflow, child, nodeId, fromNodeId);
+    }
+  }
+
+  /**
+   * Record a branch arriving at a join or merge node and continue once enough branches are in
+   */
+  private async arriveAtJoin(
+    context: ExecutionContext,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    branch: ExecutionBranch,
+    joinNode: INode,
+    fromNodeId: string
+  ): Promise<void> {
+    let join = context.joins[joinNode.id];
+    if (!join) {
+      join = this.createJoinState(joinNode, workflow.edges);
+      context.joins[joinNode.id] = join;
+    }
+
+    branch.currentNodeId = joinNode.id;
+
+    // Branches arriving after an N-of-M join has fired are dropped
+    if (join.fired) {
+      branch.status = 'discarded';
+      await this.settleExecution(context);
+      return;
+    }
+
+    branch.status = 'joined';
+    join.arrivals.push({
+      branchId: branch.id,
+      sourceNodeId: fromNodeId,
+      variables: branch.variables,
+      arrivedAt: new Date()
+    });
+
+    if (join.arrivals.length < join.required) {
+      await this.settleExecution(context);
+      return;
+    }
+
+    join.fired = true;
+
+    // Globals from every branch, plus the union of the node outputs each branch produced
+    const merged = Object.assign({}, ...join.arrivals.map(a => a.variables));
+    merged.nodes = Object.assign({}, ...join.arrivals.map(a => a.variables.nodes));
+
+    let output: any = {
+      joinedBranches: join.arrivals.map(a => a.branchId),
+      branchResults: join.arrivals.reduce((acc, a) => {
+        acc[a.sourceNodeId] = a.variables.nodes?.[a.sourceNodeId];
+        return acc;
+      }, {} as Record<string, any>)
+    };
+
+    if (joinNode.type === NodeType.MERGE) {
+      const result = await this.nodeExecutor.executeNode(joinNode, {
+        ...context,
+        currentNodeId: joinNode.id,
+        variables: merged,
+        mergeInputs: this.getMergeInputs(joinNode, workflow.edges, join.arrivals.map(a => ({
+          nodeId: a.sourceNodeId,
+          output: a.variables.nodes?.[a.sourceNodeId]
+        })))
+      });
+
+      if (result.type !== 'success') {
+        const error = result.error || `Merge node ${joinNode.id} did not complete`;
+        context.executionHistory.push({
+          nodeId: joinNode.id,
+          timestamp: new Date(),
+          input: join.arrivals.map(a => a.branchId),
+          output: null,
+          error,
+          duration: 0
+        });
+        await this.handleExecutionError(context, error);
+        return;
+      }
+      output = result.output;
+    }
+
+    const promoted = this.getPromotedGlobals(joinNode, output);
+
+    const continuation: ExecutionBranch = {
+      id: `join:${joinNode.id}`,
+      currentNodeId: joinNode.id,
+      variables: this.withNodeOutput(merged, joinNode.id, output, promoted),
+      status: 'running'
+    };
+    context.branches[continuation.id] = continuation;
+    context.currentNodeId = joinNode.id;
+    context.variables = this.withNodeOutput(context.variables, joinNode.id, output, promoted);
+
+    context.executionHistory.push({
+      nodeId: joinNode.id,
+      branchId: continuation.id,
+      timestamp: new Date(),
+      input: join.arrivals.map(a => a.branchId),
+      output,
+      promoted,
+      duration: Date.now() - new Date(join.arrivals[0].arrivedAt).getTime()
+    });
+
+    this.emitExecutionEvent(context, 'node:complete', {
+      executionId: context.executionId,
+      nodeId: joinNode.id,
+      branchId: continuation.id,
+      result: 'success',
+      duration: 0
+    });
+
+    await this.advanceBranch(context, workflow, continuation, joinNode.id);
+  }
+
+  /**
+   * Build join bookkeeping from the node's config: wait for all incoming edges or N of them
+   */
+  private createJoinState(joinNode: INode, edges: IEdge[]): JoinState {
+    const config = joinNode.data?.config || joinNode.data || {};
+    const expected = Math.max(1, edges.filter(edge => edge.target === joinNode.id).length);
+    let required = expected;
+
+    if (joinNode.type === NodeType.MERGE && config.mode === 'wait_first') {
+      required = 1;
+    } else if (joinNode.type === NodeType.JOIN && config.mode === 'n_of_m') {
+      required = Math.min(expected, Math.max(1, parseInt(config.count, 10) || 1));
+    }
+
+    return { expected, required, fired: false, arrivals: [] };
+  }
+
+  /**
+   * Order a merge node's inputs by its incoming edges so the result doesn't depend on arrival timing
+   */
+  private getMergeInputs(
+    mergeNode: INode,
+    edges: IEdge[],
+    arrivals: Array<{ nodeId: string; output: any }>
+  ): Array<{ nodeId: string; output: any }> {
+    const order = edges.filter(edge => edge.target === mergeNode.id).map(edge => edge.source);
+    const position = (nodeId: string) => order.includes(nodeId) ? order.indexOf(nodeId) : order.length;
+    return [...arrivals].sort((a, b) => position(a.nodeId) - position(b.nodeId));
+  }
+
+  /**
+   * Run a loop node's body path for every item (or batch of items) of an array variable
+   */
+  private async executeLoop(
+    loopNode: INode,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const config = loopNode.data?.config || loopNode.data || {};
+    const source = String(config.items || '').replace(/^\s*\{\{|\}\}\s*$/g, '').trim();
+    const batchSize = Math.max(1, parseInt(config.batchSize, 10) || 1);
+    const concurrency = Math.max(1, parseInt(config.concurrency, 10) || 1);
+    const onError: 'fail' | 'skip' | 'collect' = ['skip', 'collect'].includes(config.onError) ? config.onError : 'fail';
+
+    if (!source) {
+      return { type: 'error', error: 'Loop node requires an items path' };
+    }
+
+    const items = TemplateRenderer.resolve(source, context.variables, { nodes: context.variables.nodes });
+    if (!Array.isArray(items)) {
+      return { type: 'error', error: `Loop items at "${source}" is not an array` };
+    }
+    if (items.length > MAX_LOOP_ITEMS) {
+      return { type: 'error', error: `Loop items at "${source}" exceed ${MAX_LOOP_ITEMS} entries` };
+    }
+
+    const bodyStart = workflow.edges
+      .filter(edge => edge.source === loopNode.id && edge.sourceHandle === LOOP_BODY_HANDLE)
+      .map(edge => edge.target);
+    if (bodyStart.length === 0) {
+      return { type: 'error', error: `Loop node ${loopNode.id} has no body path` };
+    }
+
+    const batches: any[][] = [];
+    for (let i = 0; i < items.length; i += batchSize) {
+      batches.push(items.slice(i, i + batchSize));
+    }
+
+    const results: any[] = new Array(batches.length);
+    const errors: Array<{ index: number; items: any[]; error: string }> = [];
+    let skipped = 0;
+    let failure: string | null = null;
+    let nextIndex = 0;
+    const spent: { usage?: NodeAIUsage } = {}; // AI usage of every body node, failed iterations included
+
+    // A small worker pool keeps at most `concurrency` iterations in flight
+    const worker = async () => {
+      while (nextIndex < batches.length && !failure) {
+        const index = nextIndex++;
+        const batch = batches[index];
+        const scope = {
+          ...context.variables,
+          loop: {
+            item: batchSize === 1 ? batch[0] : batch,
+            items: batch,
+            index,
+            total: batches.length
+          }
+        };
+
+        try {
+          results[index] = await this.runLoopBody(loopNode, workflow, context, bodyStart, scope, spent);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (onError === 'fail') {
+            failure = `Loop iteration ${index} failed: ${message}`;
+          } else if (onError === 'collect') {
+            errors.push({ index, items: batch, error: message });
+          } else {
+            skipped++;
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, () => worker()));
+
+    if (failure) {
+      return { type: 'error', error: failure, usage: spent.usage };
+    }
+
+    return {
+      type: 'success',
+      usage: spent.usage,
+      output: {
+        results: results.filter((_, index) => index in results),
+        errors,
+        total: items.length,
+        iterations: batches.length,
+        succeeded: batches.length - errors.length - skipped,
+        failed: errors.length,
+        skipped
+      }
+    };
+  }
+
+  /**
+   * Walk a loop body from its start nodes until the path ends or leads back to the loop node,
+   * returning the output of the last node that ran. AI usage of the body's nodes is added to `spent`.
+   */
+  private async runLoopBody(
+    loopNode: INode,
+    workflow: { nodes: INode[]; edges: IEdge[] },
+    context: ExecutionContext,
+    startNodeIds: string[],
+    variables: Record<string, any>,
+    spent: { usage?: NodeAIUsage }
+  ): Promise<any> {
+    const queue = startNodeIds.map(nodeId => ({ nodeId, from: loopNode.id }));
+    const arrivals = new Map<string, string[]>();
+    let scope = variables;
+    let lastOutput: any;
+    let steps = 0;
+
+    while (queue.length > 0) {
+      const { nodeId, from } = queue.shift() as { nodeId: string; from: string };
+      if (nodeId === loopNode.id) continue;
+
+      const node = workflow.nodes.find(n => n.id === nodeId);
+      if (!node) continue;
+
+      if (++steps > MAX_LOOP_BODY_STEPS) {
+        throw new Error(`Loop body exceeded ${MAX_LOOP_BODY_STEPS} steps`);
+      }
+
+      const execution = this.runningExecutions.get(context.executionId);
+      if (execution && execution.status !== WorkflowStatus.RUNNING) {
+        throw new Error('Execution is no longer running');
+      }
+      throwIfAborted(context.signal);
+
+      let mergeInputs: Array<{ nodeId: string; output: any }> | undefined;
+
+      // Paths inside a body run one after another; joins and merges run once enough of them have arrived
+      if (node.type === NodeType.JOIN || node.type === NodeType.MERGE) {
+        const arrived = arrivals.get(node.id) || [];
+        arrived.push(from);
+        arrivals.set(node.id, arrived);
+
+        if (arrived.length !== this.createJoinState(node, workflow.edges).required) continue;
+        if (node.type === NodeType.JOIN) {
+          queue.push(...this.getNextNodes(workflow.nodes, workflow.edges, node.id, scope).map(next => ({ nodeId: next, from: node.id })));
+          continue;
+        }
+        mergeInputs = this.getMergeInputs(node, workflow.edges, arrived.map(sourceId => ({
+          nodeId: sourceId,
+          output: scope.nodes?.[sourceId]
+        })));
+      }
+
+      if (node.type === NodeType.SUB_WORKFLOW) {
+        throw new Error(`${node.id}: sub-workflows can't run inside a loop body`);
+      }
+
+      const nodeContext = { ...context, currentNodeId: node.id, variables: scope, mergeInputs };
+      const { result } = await this.executeWithRetryPolicy(node, workflow, nodeContext, () => node.type === NodeType.LOOP
+        ? this.executeLoop(node, workflow, nodeContext)
+        : this.nodeExecutor.executeNode(node, nodeContext));
+      spent.usage = combineAIUsage(spent.usage, result.usage);
+
+      if (result.type === 'error') {
+        const errorTargets = workflow.edges
+          .filter(edge => edge.source === node.id && edge.sourceHandle === ERROR_HANDLE)
+          .map(edge => edge.target);
+        if (errorTargets.length === 0) {
+          throw new Error(`${node.id}: ${result.error || 'Unknown error'}`);
+        }
+        scope = this.withNodeOutput(scope, node.id, { error: result.error, failed: true }, {});
+        queue.push(...errorTargets.map(next => ({ nodeId: next, from: node.id })));
+        continue;
+      }
+      if (result.type === 'pause') {
+        throw new Error(`${node.id}: nodes that pause can't run inside a loop body`);
+      }
+
+      scope = this.withNodeOutput(scope, node.id, result.output, this.getPromotedGlobals(node, result.output));
+      lastOutput = result.output;
+      queue.push(...this.getNextNodes(workflow.nodes, workflow.edges, node.id, scope).map(next => ({ nodeId: next, from: node.id })));
+    }
+
+    return lastOutput;
+  }
+
+  /**
+   * Check a sub-workflow node's target and map its inputs; the node then pauses until the child finishes
+   */
+  private async prepareSubWorkflow(node: INode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const config = node.data?.config || node.data || {};
+    const callStack = [...(context.callStack || []), context.workflowId];
+
+    if (!config.workflowId) {
+      return { type: 'error', error: 'Sub-workflow node requires a workflowId' };
+    }
+    if (callStack.length > MAX_SUBWORKFLOW_DEPTH) {
+      return {
+        type: 'error',
+        error: `Sub-workflow depth limit of ${MAX_SUBWORKFLOW_DEPTH} exceeded (${[...callStack, config.workflowId].join(' → ')})`
+      };
+    }
+
+    // A pinned version must exist; otherwise the child runs on whatever is live when it starts
+    const version = config.version ? Number(config.version) : undefined;
+    let child: WorkflowDefinition;
+    try {
+      child = await workflowVersionService.getDefinition(config.workflowId, version);
+    } catch (error) {
+      return { type: 'error', error: `Sub-workflow ${config.workflowId}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    // Each mapping is a template against the parent's variables, e.g. { email: '{{trigger.customer.email}}' }
+    const inputs: Record<string, any> = {};
+    for (const [name, template] of Object.entries(config.inputs || {})) {
+      inputs[name] = TemplateRenderer.renderValue(template, context.variables, { nodes: context.variables.nodes });
+    }
+
+    return {
+      type: 'pause',
+      reason: `Waiting for sub-workflow ${child.name}`,
+      data: { workflowId: config.workflowId, version: child.version, inputs, callStack }
+    };
+  }
+
+  /**
+   * Launch the child execution for a paused sub-workflow node and link it to the parent branch
+   */
+  private async startSubWorkflow(
+    context: ExecutionContext,
+    branch: ExecutionBranch,
+    node: INode,
+    request: { workflowId: string; version: number; inputs: Record<string, any>; callStack: string[] }
+  ): Promise<void> {
+    try {
+      branch.childExecutionId = await this.executeWorkflow(request.workflowId, request.inputs, {
+        parentExecution: { executionId: context.executionId, nodeId: node.id, branchId: branch.id },
+        callStack: request.callStack,
+        version: request.version,
+        mock: !!context.mock
+      });
+
+      this.emitExecutionEvent(context, 'subworkflow:started', {
+        executionId: context.executionId,
+        nodeId: node.id,
+        childExecutionId: branch.childExecutionId,
+        workflowId: request.workflowId
+      }, { broadcast: true });
+      await this.persistExecution(context);
+    } catch (error) {
+      const message = `Sub-workflow ${request.workflowId} failed to start: ${error instanceof Error ? error.message : String(error)}`;
+      context.executionHistory.push({
+        nodeId: node.id,
+        branchId: branch.id,
+        timestamp: new Date(),
+        input: request.inputs,
+        output: null,
+        error: message,
+        duration: 0
+      });
+      await this.handleExecutionError(context, message);
+    }
+  }
+
+  /**
+   * Report a finished child execution to the sub-workflow node waiting on it and continue the parent
+   */
+  private async finishSubWorkflow(child: ExecutionContext, error?: string): Promise<void> {
+    const link = child.parentExecution;
+    if (!link) return;
+
+    const parent = await this.getContext(link.executionId);
+    if (!parent) {
+      console.warn(`Sub-workflow ${child.executionId} finished but parent ${link.executionId} was not found`);
+      return;
+    }
+
+    // Ignore results the parent no longer waits for (it was cancelled or failed meanwhile)
+    const branch = parent.branches[link.branchId];
+    if (!branch || branch.status !== 'paused' || branch.childExecutionId !== child.executionId) {
+      return;
+    }
+    if (parent.status !== WorkflowStatus.PAUSED && parent.status !== WorkflowStatus.RUNNING) {
+      return;
+    }
+
+    const workflow = await this.getDefinition(parent);
+
+    this.trackExecution(parent);
+    branch.childExecutionId = undefined;
+    branch.status = 'running';
+    parent.status = WorkflowStatus.RUNNING;
+    await this.startTimeoutClock(parent);
+
+    const duration = Date.now() - new Date(child.startTime).getTime();
+
+    if (child.status !== WorkflowStatus.COMPLETED) {
+      const message = `Sub-workflow execution ${child.executionId} ${child.status}${error ? `: ${error}` : ''}`;
+      parent.executionHistory.push({
+        nodeId: link.nodeId,
+        branchId: branch.id,
+        timestamp: new Date(),
+        input: child.variables.trigger,
+        output: null,
+        childExecutionId: child.executionId,
+        error: message,
+        duration
+      });
+      await this.handleExecutionError(parent, message);
+      return;
+    }
+
+    // The child's last successful node output is its result; everything else stays reachable by node id
+    const lastEntry = [...child.executionHistory].reverse().find(h => !h.error && h.output !== undefined);
+    const { nodes: childNodes = {}, trigger: childInputs, ...childGlobals } = child.variables;
+    const output = {
+      executionId: child.executionId,
+      workflowId: child.workflowId,
+      status: child.status,
+      result: lastEntry?.output,
+      outputs: childNodes,
+      variables: childGlobals
+    };
+
+    const node = workflow.nodes.find(n => n.id === link.nodeId);
+    const promoted = node ? this.getPromotedGlobals(node, output) : {};
+
+    parent.executionHistory.push({
+      nodeId: link.nodeId,
+      branchId: branch.id,
+      timestamp: new Date(),
+      input: childInputs,
+      output,
+      promoted,
+      childExecutionId: child.executionId,
+      duration
+    });
+
+    branch.variables = this.withNodeOutput(branch.variables, link.nodeId, output, promoted);
+    parent.variables = this.withNodeOutput(parent.variables, link.nodeId, output, promoted);
+
+    this.emitExecutionEvent(parent, 'node:complete', {
+      executionId: parent.executionId,
+      nodeId: link.nodeId,
+      branchId: branch.id,
+      result: 'success',
+      duration
+    });
+
+    await this.advanceBranch(parent, workflow, branch, link.nodeId);
+  }
+
+  /**
+   * Complete, pause or fail the execution once no branch is left running
+   */
+  private async settleExecution(context: ExecutionContext): Promise<void> {
+    if (context.status !== WorkflowStatus.RUNNING) {
+      return;
+    }
+
+    const branches = Object.values(context.branches);
+
+    if (branches.some(b => b.status === 'running')) {
+      await this.persistExecution(context);
+      return;
+    }
+
+    if (branches.some(b => b.status === 'paused')) {
+      context.status = WorkflowStatus.PAUSED;
+      this.stopTimeoutClock(context);
+      await this.persistExecution(context);
+      this.startQueuedExecutionsInBackground(context.workflowId);
+      return;
+    }
+
+    const stalledJoin = Object.entries(context.joins).find(([, join]) => !join.fired);
+    if (stalledJoin) {
+      const [joinNodeId, join] = stalledJoin;
+      await this.handleExecutionError(
+        context,
+        `Join node ${joinNodeId} received ${join.arrivals.length} of ${join.required} required branches`
+      );
+      return;
+    }
+
+    await this.completeExecution(context, WorkflowStatus.COMPLETED);
+  }
+
+  /**
+   * Variables with a node's output stored under nodes.<nodeId> and any promoted values at the top level
+   */
+  private withNodeOutput(
+    variables: Record<string, any>,
+    nodeId: string,
+    output: any,
+    promoted: Record<string, any>
+  ): Record<string, any> {
+    return {
+      ...variables,
+      ...promoted,
+      nodes: { ...(variables.nodes || {}), [nodeId]: output }
+    };
+  }
+
+  /**
+   * Opt-in copies of a node's output into global variables, configured per node as promoteToGlobals:
+   * `true` promotes every output field, `{ summary: 'aiResponse' }` maps a global name to an output path
+   */
+  private getPromotedGlobals(node: INode, output: any): Record<string, any> {
+    const config = node.data?.config || node.data || {};
+    const promotions = config.promoteToGlobals;
+
+    if (!promotions || output === undefined || output === null) {
+      return {};
+    }
+
+    const promoted: Record<string, any> = {};
+    if (promotions === true) {
+      if (typeof output === 'object' && !Array.isArray(output)) {
+        Object.assign(promoted, output);
+      }
+    } else if (typeof promotions === 'object') {
+      for (const [name, path] of Object.entries(promotions)) {
+        if (typeof path !== 'string' || !path.trim()) continue;
+        const value = TemplateRenderer.resolve(path, output);
+        if (value !== undefined) {
+          promoted[name] = value;
+        }
+      }
+    }
+
+    // The namespaces themselves can't be overwritten by a promotion
+    delete promoted.nodes;
+    delete promoted.trigger;
+    return promoted;
+  }
+
+  /**
+   * Outputs a mock run uses in place of running the pinned nodes
+   */
+  private getPinnedOutputs(pinnedData?: Record<string, PinnedNodeData>): Record<string, any> {
+    return Object.fromEntries(Object.entries(pinnedData || {}).map(([nodeId, pin]) => [nodeId, pin.output]));
+  }
+
+  /**
+   * Context handed to the node executor: the execution seen through one branch's cursor and scope
+   */
+  private getBranchContext(context: ExecutionContext, branch: ExecutionBranch): ExecutionContext {
+    return {
+      ...context,
+      currentNodeId: branch.currentNodeId,
+      variables: branch.variables
+    };
+  }
+
+  /**
+   * Complete workflow execution
+   */
+  private async completeExecution(context: ExecutionContext, status: WorkflowStatus): Promise<void> {
+    context.status = status;
+    context.endTime = new Date();
+    this.stopTimeoutClock(context);
+    
+    // Only log in development mode
+    if (process.env.NODE_ENV === 'development') {
+      console.log('🎯 Execution completed:', context.executionId, status);
+    }
+    
+    this.emitExecutionEvent(context, 'execution:complete', {
+      executionId: context.executionId,
+      status,
+      duration: context.endTime.getTime() - context.startTime.getTime()
+    });
+
+    await this.persistExecution(context);
+    this.runningExecutions.delete(context.executionId);
+
+    // User cancellations are expected; engine cancellations (timeouts) count as failures
+    if (status === WorkflowStatus.COMPLETED || context.error) {
+      this.notifyOutcome(context);
+    }
+    this.startQueuedExecutionsInBackground(context.workflowId);
+
+    if (context.parentExecution) {
+      await this.reportToParent(context, context.error?.message);
+    }
+  }
+
+  /**
+   * Handle execution errors
+   */
+  private async handleExecutionError(context: ExecutionContext, error: string): Promise<void> {
+    context.status = WorkflowStatus.FAILED;
+    context.endTime = new Date();
+    context.error = { code: 'EXECUTION_FAILED', message: error };
+    this.stopTimeoutClock(context);
+    
+    this.emitExecutionEvent(context, 'execution:failed', {
+      executionId: context.executionId,
+      error,
+      nodeId: context.currentNodeId
+    });
+
+    await this.persistExecution(context);
+    this.runningExecutions.delete(context.executionId);
 
-  constructor() {
-    super();
-    this.nodeExecutor = new NodeExecutor();
-    this.eventBus = EventBus.getInstance();
-    this.setupEventHandlers();
+    this.notifyOutcome(context);
+    this.startQueuedExecutionsInBackground(context.workflowId);
+
+    if (context.parentExecution) {
+      await this.reportToParent(context, error);
+    }
   }
 
   /**
-   * Start workflow execution
+   * Apply a piece of engine work to one execution. Workers call this for queued jobs; in inline mode
+   * it is called directly for work that doesn't come from a node step.
    */
-  async executeWorkflow(workflowId: string, triggerData?: any): Promise<string> {
-    const workflow = await WorkflowModel.findById(workflowId);
-    if (!workflow) {
-      throw new Error(`Workflow ${workflowId} not found`);
-    }
+  async processJob(job: EngineJob): Promise<void> {
+    try {
+      // Steps lock the execution only while they read and change it, not while their node runs
+      if (job.type === 'step') {
+        const context = await this.getContext(job.executionId);
+        if (context) {
+          await this.executeNextNode(context, job.branchId);
+        }
+        return;
+      }
 
-    if (workflow.status !== 'active') {
-      // Auto-activate workflow for execution (user-friendly approach)
-      console.log(`🔄 Auto-activating workflow ${workflowId} for execution`);
-      workflow.status = 'active';
-      await workflow.save();
+      await this.withExecutionLock(job.executionId, async () => {
+        switch (job.type) {
+          case 'resume':
+            await this.applyResume(job.executionId, job.resumeData);
+            break;
+          case 'reject': {
+            const context = await this.getContext(job.executionId);
+            if (context && this.isActive(context)) {
+              await this.handleExecutionError(context, job.reason);
+            }
+            break;
+          }
+          case 'child-finished': {
+            const child = await this.loadExecution(job.childExecutionId);
+            if (child) {
+              await this.finishSubWorkflow(child, job.error);
+            }
+            break;
+          }
+          case 'timer':
+            await this.applyTimerExpired(job.timer);
+            break;
+          case 'cancel':
+            await this.applyCancel(job.executionId, job.reason);
+            break;
+          case 'timeout':
+            await this.applyTimeout(job);
+            break;
+        }
+      });
+    } catch (error) {
+      // Busy executions are retried by the queue; anything else would fail the same way again
+      if (error instanceof ExecutionBusyError) throw error;
+      console.error(`❌ Engine job ${job.type} failed for execution ${job.executionId}:`, error);
     }
+  }
 
-    // Create execution context
-    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    const context: ExecutionContext = {
-      executionId,
-      workflowId,
-      currentNodeId: this.findStartNode(workflow.nodes),
-      variables: { ...triggerData },
-      executionHistory: [],
-      status: WorkflowStatus.RUNNING,
-      startTime: new Date()
-    };
+  /**
+   * Run the next node of a branch: straight away in inline mode, on whichever worker is free in queue mode.
+   * The context must already be persisted so the worker sees it.
+   */
+  private async scheduleStep(context: ExecutionContext, branchId: string): Promise<void> {
+    // Scheduled by the branch's own step: it is sent once that step lets go of the branch lock
+    const branchKey = `${context.executionId}:${branchId}`;
+    if (this.lockedBranches.has(branchKey)) {
+      this.lockedBranches.set(branchKey, context);
+      return;
+    }
 
-    // Store in memory and database
-    this.runningExecutions.set(executionId, context);
-    await this.persistExecution(context);
+    if (this.queueMode) {
+      await queueService.enqueueEngineJob({ type: 'step', executionId: context.executionId, branchId });
+      return;
+    }
+    setImmediate(() => this.executeNextNode(context, branchId));
+  }
 
-    // Start execution
-    this.executeNextNode(context);
+  /**
+   * Tell the parent of a finished sub-workflow run; in queue mode the parent may be owned by another worker
+   */
+  private async reportToParent(child: ExecutionContext, error?: string): Promise<void> {
+    if (!child.parentExecution) return;
 
-    return executionId;
+    if (this.queueMode) {
+      await queueService.enqueueEngineJob({
+        type: 'child-finished',
+        executionId: child.parentExecution.executionId,
+        childExecutionId: child.executionId,
+        error
+      });
+      return;
+    }
+    await this.finishSubWorkflow(child, error);
   }
 
   /**
-   * Resume paused workflow execution
+   * In queue mode only one worker at a time may change an execution, so state changes hold its lock.
+   * Inline runs share one in-memory context per execution and need no lock.
    */
-  async resumeWorkflow(executionId: string, resumeData?: any): Promise<void> {
-    let context = this.runningExecutions.get(executionId);
-    
-    if (!context) {
-      // Load from database if not in memory
-      const loadedContext = await this.loadExecution(executionId);
-      if (!loadedContext) throw new Error(`Execution ${executionId} not found`);
-      context = loadedContext;
-      if (!context) {
-        throw new Error(`Execution ${executionId} not found`);
+  private async withExecutionLock(executionId: string, fn: () => Promise<void>, waitMs: number = EXECUTION_LOCK_WAIT): Promise<void> {
+    if (!this.queueMode) {
+      await fn();
+      return;
+    }
+
+    const lockKey = `engine:execution:${executionId}`;
+    const deadline = Date.now() + waitMs;
+    while (Date.now() < deadline) {
+      const token = await lockService.acquireLock(lockKey, EXECUTION_LOCK_TTL);
+      if (token) {
+        try {
+          await fn();
+        } finally {
+          await lockService.releaseLock(lockKey, token);
+        }
+        return;
       }
-      this.runningExecutions.set(executionId, context);
+      await new Promise(resolve => setTimeout(resolve, EXECUTION_LOCK_POLL));
+    }
+    throw new ExecutionBusyError(executionId);
+  }
+
+  /**
+   * Change an execution's state. Inline runs share one in-memory context; in queue mode the stored context
+   * is re-read under the execution lock, as other workers may have changed it since this one read it.
+   * Pass waitForLock when giving up would lose work already done, e.g. a finished node's result.
+   */
+  private async withCurrentContext<T>(
+    context: ExecutionContext,
+    fn: (current: ExecutionContext) => Promise<T>,
+    options: { waitForLock?: boolean } = {}
+  ): Promise<T | undefined> {
+    if (!this.queueMode) {
+      return fn(context);
     }
 
-    if (context.status !== 'paused') {
-      throw new Error(`Execution ${executionId} is not paused`);
+    let result: T | undefined;
+    await this.withExecutionLock(context.executionId, async () => {
+      const current = await this.getContext(context.executionId);
+      if (current) {
+        result = await fn(current);
+      }
+    }, options.waitForLock ? EXECUTION_LOCK_TTL * 1000 + EXECUTION_LOCK_WAIT : EXECUTION_LOCK_WAIT);
+    return result;
+  }
+
+  private get queueMode(): boolean {
+    return config.engine.mode === 'queue';
+  }
+
+  // Workers always read the stored context: the step before may have run on another worker
+  private async getContext(executionId: string): Promise<ExecutionContext | null> {
+    if (this.queueMode) {
+      return this.loadExecution(executionId);
     }
+    return this.runningExecutions.get(executionId) || await this.loadExecution(executionId);
+  }
 
-    // Merge resume data into context
-    if (resumeData) {
-      context.variables = { ...context.variables, ...resumeData };
+  private async loadOrThrow(executionId: string): Promise<ExecutionContext> {
+    const context = await this.getContext(executionId);
+    if (!context) {
+      throw new Error(`Execution ${executionId} not found`);
     }
+    return context;
+  }
 
-    context.status = WorkflowStatus.RUNNING;
-    await this.persistExecution(context);
+  private trackExecution(context: ExecutionContext): void {
+    if (!this.queueMode) {
+      this.runningExecutions.set(context.executionId, context);
+    }
+  }
 
-    // Continue execution
-    this.executeNextNode(context);
+  private isActive(context: ExecutionContext): boolean {
+    return [WorkflowStatus.PENDING, WorkflowStatus.RUNNING, WorkflowStatus.PAUSED].includes(context.status);
   }
 
   /**
-   * Execute the next node in the workflow
+   * Start a new run, or park it as pending while the workflow is at its concurrency limit
    */
-  private async executeNextNode(context: ExecutionContext): Promise<void> {
-    const lockKey = `execution:${context.executionId}`;
-    
-    try {
-      await lockService.withLock(lockKey, async () => {
-        const workflow = await WorkflowModel.findById(context.workflowId);
-        if (!workflow) throw new Error(`Workflow ${context.workflowId} not found`);
+  private async launchExecution(context: ExecutionContext): Promise<void> {
+    await this.reconcileStaleExecutions(context.workflowId);
 
-        const currentNode = workflow.nodes.find(n => n.id === context.currentNodeId);
-        if (!currentNode) {
-          await this.completeExecution(context, WorkflowStatus.COMPLETED);
-          return;
+    const admitted = await this.withStartLock(context.workflowId, async () => {
+      const { limit, policy } = await this.getConcurrency(context.workflowId);
+      if (limit > 0 && await this.countRunningExecutions(context.workflowId) >= limit) {
+        if (policy === 'reject') {
+          throw new WorkflowConcurrencyError(context.workflowId, limit);
         }
+        context.status = WorkflowStatus.PENDING;
+      } else {
+        await this.startTimeoutClock(context);
+      }
+      this.announceExecution(context);
+      // Persisting inside the lock makes the run count towards the limit before the next start checks it
+      await this.persistExecution(context);
+      return context.status === WorkflowStatus.RUNNING;
+    });
+
+    if (!admitted) {
+      console.log(`⏳ Execution ${context.executionId} queued until workflow ${context.workflowId} has a free slot`);
+      return;
+    }
+
+    await this.beginExecution(context);
+  }
+
+  /**
+   * Record how a new run came about; called once its admission is decided, before it is first persisted
+   */
+  private announceExecution(context: ExecutionContext): void {
+    if (context.retryOf) {
+      this.emitExecutionEvent(context, 'execution:retried', {
+        executionId: context.executionId,
+        retryOf: context.retryOf.executionId,
+        nodeId: context.retryOf.nodeId,
+        workflowVersion: context.workflowVersion
+      }, { broadcast: true });
+    }
+
+    if (context.status === WorkflowStatus.PENDING) {
+      this.emitExecutionEvent(context, 'execution:queued', {
+        executionId: context.executionId,
+        workflowId: context.workflowId
+      }, { broadcast: true });
+    } else {
+      this.emitExecutionEvent(context, 'execution:start', {
+        executionId: context.executionId,
+        workflowId: context.workflowId,
+        workflowVersion: context.workflowVersion,
+        parentExecutionId: context.parentExecution?.executionId
+      });
+    }
+  }
+
+  /**
+   * Start pending runs of a workflow while it has free concurrency slots
+   */
+  private async startQueuedExecutions(workflowId: string): Promise<void> {
+    await this.reconcileStaleExecutions(workflowId);
+
+    const started = await this.withStartLock(workflowId, async () => {
+      const { limit } = await this.getConcurrency(workflowId);
+      const free = limit > 0 ? limit - await this.countRunningExecutions(workflowId) : Infinity;
+      if (free <= 0) return [];
+
+      const pending = await ExecutionHistoryModel.find({ workflowId, status: WorkflowStatus.PENDING })
+        .sort({ startTime: 1 })
+        .limit(Math.min(free, 100))
+        .select('_id');
 
-        this.emit('node:start', {
+      const contexts: ExecutionContext[] = [];
+      for (const { _id } of pending) {
+        const context = await this.loadExecution(String(_id));
+        if (!context || context.status !== WorkflowStatus.PENDING) continue;
+        context.status = WorkflowStatus.RUNNING;
+        await this.startTimeoutClock(context);
+        this.emitExecutionEvent(context, 'execution:start', {
           executionId: context.executionId,
-          nodeId: currentNode.id,
-          nodeType: currentNode.type
+          workflowId,
+          queued: true
         });
+        await this.persistExecution(context);
+        contexts.push(context);
+      }
+      return contexts;
+    });
 
-        const startTime = Date.now();
+    for (const context of started) {
+      console.log(`▶️ Starting queued execution ${context.executionId}`);
+      await this.beginExecution(context);
+    }
+  }
 
-        try {
-          // Execute the node
-          const result = await this.nodeExecutor.executeNode(currentNode, context);
+  private startQueuedExecutionsInBackground(workflowId: string): void {
+    this.startQueuedExecutions(workflowId).catch(error =>
+      console.error(`❌ Failed to start queued executions of workflow ${workflowId}:`, error));
+  }
 
-          const duration = Date.now() - startTime;
+  private async beginExecution(context: ExecutionContext): Promise<void> {
+    this.trackExecution(context);
 
-          // Record execution history
-          context.executionHistory.push({
-            nodeId: currentNode.id,
-            timestamp: new Date(),
-            input: context.variables,
-            output: result.output,
-            duration
-          });
+    for (const branch of Object.values(context.branches).filter(b => b.status === 'running')) {
+      await this.scheduleStep(context, branch.id);
+    }
+  }
 
-          // Handle different result types
-          if (result.type === 'success') {
-            // Update variables with node output
-            if (result.output) {
-              context.variables = { ...context.variables, ...result.output };
-            }
+  /**
+   * Run fn while holding the workflow's start lock, waiting for it if another start holds it
+   */
+  private async withStartLock<T>(workflowId: string, fn: () => Promise<T>): Promise<T> {
+    const lockKey = `workflow-start:${workflowId}`;
+    for (let attempt = 0; attempt < START_LOCK_ATTEMPTS; attempt++) {
+      const token = await lockService.acquireLock(lockKey, 10);
+      if (token) {
+        try {
+          return await fn();
+        } finally {
+          await lockService.releaseLock(lockKey, token);
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, START_LOCK_RETRY_DELAY));
+    }
+    throw new Error(`Timed out waiting to start an execution of workflow ${workflowId}`);
+  }
 
-            // Find next node(s)
-            const nextNodes = this.getNextNodes(workflow.nodes, workflow.edges, currentNode.id, result.output);
-            
-            if (nextNodes.length === 0) {
-              // No more nodes, complete execution
-              await this.completeExecution(context, WorkflowStatus.COMPLETED);
-            } else if (nextNodes.length === 1) {
-              // Single path, continue
-              context.currentNodeId = nextNodes[0];
-              await this.persistExecution(context);
-              
-              // Schedule next execution
-              setImmediate(() => this.executeNextNode(context));
-            } else {
-              // Multiple paths (parallel execution)
-              await this.handleParallelExecution(context, nextNodes);
-            }
+  /**
+   * Concurrency limits the workflow as a whole, so it comes from the live settings rather than a pinned version
+   */
+  private async getConcurrency(workflowId: string): Promise<{ limit: number; policy: 'queue' | 'reject' }> {
+    const workflow = await WorkflowModel.findById(workflowId).select('settings');
+    return {
+      limit: Number(workflow?.settings?.concurrency) || 0,
+      policy: workflow?.settings?.concurrencyPolicy === 'reject' ? 'reject' : 'queue'
+    };
+  }
 
-          } else if (result.type === 'pause') {
-            // Pause execution for human intervention
-            context.status = WorkflowStatus.PAUSED;
-            await this.persistExecution(context);
+  // Paused runs (waiting on people, timers or sub-workflows) don't hold a slot, and nor do lost ones
+  private async countRunningExecutions(workflowId: string): Promise<number> {
+    return ExecutionHistoryModel.countDocuments({
+      workflowId,
+      status: WorkflowStatus.RUNNING,
+      updatedAt: { $gte: this.staleBefore() }
+    });
+  }
 
-            this.emit('execution:paused', {
-              executionId: context.executionId,
-              nodeId: currentNode.id,
-              reason: result.reason,
-              data: result.data
-            });
+  /**
+   * Cancel running executions of a workflow that made no progress within the stale window: the process
+   * running them died or restarted, and they would hold a concurrency slot forever
+   */
+  private async reconcileStaleExecutions(workflowId: string): Promise<void> {
+    const stale = await ExecutionHistoryModel.find({
+      workflowId,
+      status: WorkflowStatus.RUNNING,
+      updatedAt: { $lt: this.staleBefore() }
+    }).limit(100).select('_id');
 
-          } else if (result.type === 'error') {
-            // Handle node execution error
-            context.executionHistory.push({
-              nodeId: currentNode.id,
-              timestamp: new Date(),
-              input: context.variables,
-              output: null,
-              error: result.error,
-              duration: Date.now() - startTime
-            });
+    for (const { _id } of stale) {
+      const executionId = String(_id);
+      // Still running in this process, so not lost
+      if (this.runningExecutions.has(executionId)) continue;
 
-            await this.handleExecutionError(context, result.error || 'Unknown error');
-          }
+      try {
+        const context = await this.loadExecution(executionId);
+        if (!context) continue;
 
-          this.emit('node:complete', {
-            executionId: context.executionId,
-            nodeId: currentNode.id,
-            result: result.type,
-            duration
+        await this.withCurrentContext(context, async (current) => {
+          // Re-check under the lock: a worker may have picked the run up in the meantime
+          const stillStale = await ExecutionHistoryModel.exists({
+            _id: executionId,
+            status: WorkflowStatus.RUNNING,
+            updatedAt: { $lt: this.staleBefore() }
           });
+          if (!stillStale || current.status !== WorkflowStatus.RUNNING) return;
 
-        } catch (error) {
-          const duration = Date.now() - startTime;
-          
-          context.executionHistory.push({
-            nodeId: currentNode.id,
-            timestamp: new Date(),
-            input: context.variables,
-            output: null,
-            error: error instanceof Error ? error.message : String(error),
-            duration
+          console.warn(`🧹 Cancelling execution ${executionId}: no progress for ${config.engine.staleExecutionAfter}s`);
+          await this.cancelContext(current, {
+            code: 'EXECUTION_STALE',
+            message: `Execution made no progress for ${config.engine.staleExecutionAfter}s and was presumed lost`
           });
+        });
+      } catch (error) {
+        console.error(`❌ Failed to reconcile stale execution ${executionId}:`, error);
+      }
+    }
+  }
 
-          await this.handleExecutionError(context, error instanceof Error ? error.message : String(error));
-        }
-      });
+  private staleBefore(): Date {
+    return new Date(Date.now() - config.engine.staleExecutionAfter * 1000);
+  }
 
-    } catch (error) {
-      console.error(`Failed to execute node in ${context.executionId}:`, error);
-      await this.handleExecutionError(context, error instanceof Error ? error.message : String(error));
+  // Mark a run as alive while a node is still working on it
+  private touchExecution(executionId: string): void {
+    ExecutionHistoryModel.updateOne({ _id: executionId }, { $set: { updatedAt: new Date() } }).catch(error =>
+      console.warn(`⚠️ Failed to record heartbeat for execution ${executionId}:`, error));
+  }
+
+  /**
+   * Workflows saved before concurrency limits were enforced carry the old, never-applied default of 1.
+   * They keep running without a limit: their concurrency is set to 0 (unlimited). Safe to run repeatedly.
+   */
+  async migrateLegacyConcurrency(): Promise<void> {
+    const { modifiedCount } = await WorkflowModel.updateMany(
+      { 'settings.concurrencyPolicy': { $exists: false } },
+      { $set: { 'settings.concurrency': 0, 'settings.concurrencyPolicy': 'queue' } }
+    );
+    if (modifiedCount > 0) {
+      console.log(`🔧 ${modifiedCount} workflow(s) from before concurrency limits now run without a limit`);
     }
   }
 
   /**
-   * Handle parallel execution of multiple nodes
+   * Start (or restart) the run's timeout clock; time spent paused doesn't count towards the timeout.
+   * Callers persist the context afterwards so workers can check the clock.
    */
-  private async handleParallelExecution(context: ExecutionContext, nodeIds: string[]): Promise<void> {
-    // For now, execute sequentially (can be enhanced to true parallel later)
-    for (const nodeId of nodeIds) {
-      context.currentNodeId = nodeId;
-      await this.persistExecution(context);
-      await this.executeNextNode(context);
+  private async startTimeoutClock(context: ExecutionContext): Promise<void> {
+    this.stopTimeoutClock(context);
+    const runningSince = new Date();
+    context.runningSince = runningSince;
+
+    const { settings } = await this.getDefinition(context);
+    const timeout = Number(settings?.timeout);
+    if (!(timeout > 0)) return;
+
+    const remaining = Math.max(timeout - (context.activeDuration || 0), 0);
+    const job: EngineJob = {
+      type: 'timeout',
+      executionId: context.executionId,
+      timeout,
+      runningSince: runningSince.toISOString()
+    };
+
+    // Checks left over from an earlier running stretch see a different runningSince and do nothing
+    if (this.queueMode) {
+      await queueService.enqueueEngineJob(job, { delay: remaining });
+      return;
     }
+
+    const timer = setTimeout(() => {
+      this.executionTimeouts.delete(context.executionId);
+      this.processJob(job).catch(error =>
+        console.error(`❌ Failed to time out execution ${context.executionId}:`, error));
+    }, Math.min(remaining, MAX_TIMER_DELAY));
+    timer.unref();
+    this.executionTimeouts.set(context.executionId, timer);
   }
 
   /**
-   * Complete workflow execution
+   * Stop the timeout clock, adding the current running stretch to the run's active duration
    */
-  private async completeExecution(context: ExecutionContext, status: WorkflowStatus): Promise<void> {
-    context.status = status;
-    context.endTime = new Date();
-    
-    // Only log in development mode
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🎯 Execution completed:', context.executionId, status);
+  private stopTimeoutClock(context: ExecutionContext): void {
+    if (context.runningSince) {
+      context.activeDuration = (context.activeDuration || 0) + Date.now() - new Date(context.runningSince).getTime();
+      context.runningSince = undefined;
+    }
+
+    const timer = this.executionTimeouts.get(context.executionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.executionTimeouts.delete(context.executionId);
+    }
+  }
+
+  private async applyTimeout(job: Extract<EngineJob, { type: 'timeout' }>): Promise<void> {
+    const context = await this.getContext(job.executionId);
+    if (!context || context.status !== WorkflowStatus.RUNNING || !context.runningSince) return;
+    if (new Date(context.runningSince).getTime() !== new Date(job.runningSince).getTime()) return;
+
+    // Timeouts longer than setTimeout allows are waited out in steps
+    const active = (context.activeDuration || 0) + Date.now() - new Date(context.runningSince).getTime();
+    if (active < job.timeout) {
+      await this.startTimeoutClock(context);
+      await this.persistExecution(context);
+      return;
     }
-    
-    await this.persistExecution(context);
-    this.runningExecutions.delete(context.executionId);
 
-    this.emit('execution:complete', {
+    console.warn(`⏰ Execution ${context.executionId} timed out after ${job.timeout}ms`);
+    this.emitExecutionEvent(context, 'execution:timeout', {
       executionId: context.executionId,
-      status,
-      duration: context.endTime.getTime() - context.startTime.getTime()
+      workflowId: context.workflowId,
+      timeout: job.timeout
+    }, { broadcast: true });
+    await this.cancelContext(context, {
+      code: 'EXECUTION_TIMEOUT',
+      message: `Execution timed out after ${job.timeout}ms`
     });
   }
 
   /**
-   * Handle execution errors
+   * Send the workflow's success or failure notifications; notification errors never affect the run
    */
-  private async handleExecutionError(context: ExecutionContext, error: string): Promise<void> {
-    context.status = WorkflowStatus.FAILED;
-    context.endTime = new Date();
-    
-    await this.persistExecution(context);
-    this.runningExecutions.delete(context.executionId);
+  private notifyOutcome(context: ExecutionContext): void {
+    // Test runs don't notify anyone
+    if (context.mock) {
+      return;
+    }
 
-    this.emit('execution:failed', {
-      executionId: context.executionId,
-      error,
-      nodeId: context.currentNodeId
-    });
+    this.getDefinition(context)
+      .then(({ settings }) => workflowNotificationService.notify(
+        context.workflowId,
+        settings,
+        context.status === WorkflowStatus.COMPLETED ? 'completed' : 'failed',
+        {
+          executionId: context.executionId,
+          status: context.status,
+          error: context.error?.message,
+          duration: (context.endTime?.getTime() ?? Date.now()) - new Date(context.startTime).getTime()
+        }
+      ))
+      .catch(error => console.error(`❌ Failed to send notifications for execution ${context.executionId}:`, error));
+  }
+
+  /**
+   * Load the workflow definition an execution is pinned to
+   */
+  private async getDefinition(context: Pick<ExecutionContext, 'workflowId' | 'workflowVersion'>): Promise<WorkflowDefinition> {
+    if (context.workflowVersion === undefined) {
+      // Executions started before versioning keep following the live workflow
+      const workflow = await WorkflowModel.findById(context.workflowId);
+      if (!workflow) throw new Error(`Workflow ${context.workflowId} not found`);
+      return {
+        workflowId: context.workflowId,
+        version: workflow.version,
+        name: workflow.name,
+        nodes: workflow.nodes,
+        edges: workflow.edges,
+        settings: workflow.settings
+      };
+    }
+    return workflowVersionService.getDefinition(context.workflowId, context.workflowVersion);
+  }
+
+  /**
+   * Id for a new execution, handed out before the run is queued or started
+   */
+  private newExecutionId(): string {
+    return `exec_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
 
   /**
@@ -293,8 +2141,9 @@ export class WorkflowEngine extends EventEmitter {
   /**
    * Get next nodes based on current node and edges
    */
-  private getNextNodes(nodes: INode[], edges: IEdge[], currentNodeId: string, nodeOutput?: any): string[] {
-    const outgoingEdges = edges.filter(edge => edge.source === currentNodeId);
+  private getNextNodes(nodes: INode[], edges: IEdge[], currentNodeId: string, scope: Record<string, any>): string[] {
+    // Error edges are only followed when the node fails (see routeNodeError)
+    const outgoingEdges = edges.filter(edge => edge.source === currentNodeId && edge.sourceHandle !== ERROR_HANDLE);
     
     if (outgoingEdges.length === 0) {
       return [];
@@ -302,11 +2151,29 @@ export class WorkflowEngine extends EventEmitter {
 
     // Handle conditional edges (decision nodes)
     const currentNode = nodes.find(n => n.id === currentNodeId);
+
+    // A loop's body edges are walked per item by executeLoop; only its other edges continue the flow
+    if (currentNode?.type === NodeType.LOOP) {
+      return outgoingEdges.filter(edge => edge.sourceHandle !== LOOP_BODY_HANDLE).map(edge => edge.target);
+    }
+
+    // Switches (and decisions wired through handles) follow exactly the handle their output picked
+    const routesByHandle = currentNode?.type === NodeType.SWITCH ||
+      (currentNode?.type === NodeType.DECISION && outgoingEdges.some(edge => edge.sourceHandle));
+    if (routesByHandle) {
+      const output = scope.nodes?.[currentNodeId] || {};
+      const handle = currentNode?.type === NodeType.SWITCH ? output.handle : output.decisionPath;
+      return outgoingEdges
+        .filter(edge => (edge.sourceHandle || DEFAULT_HANDLE) === (handle || DEFAULT_HANDLE))
+        .map(edge => edge.target);
+    }
+
     if (currentNode?.type === NodeType.DECISION) {
-      // Filter edges based on condition evaluation
+      // Filter edges based on condition evaluation against the branch variables
       const validEdges = outgoingEdges.filter(edge => {
-        if (!edge.condition) return true; // Default path
-        return this.evaluateCondition(edge.condition, nodeOutput);
+        const condition = edge.condition || edge.data?.condition;
+        if (!condition) return true; // Default path
+        return ExpressionEvaluator.evaluateCondition(condition, scope);
       });
       return validEdges.map(edge => edge.target);
     }
@@ -316,28 +2183,32 @@ export class WorkflowEngine extends EventEmitter {
   }
 
   /**
-   * Evaluate condition for decision nodes
+   * Emit an engine event and append it to the execution's event log. Broadcast events go out on the
+   * event bus, the rest only to listeners on the engine. Call it before the context is next persisted
+   * so the log sequence is saved with it.
    */
-  private evaluateCondition(condition: string, data: any): boolean {
-    try {
-      // Simple condition evaluation (can be enhanced with proper expression parser)
-      // Format: "variable operator value" e.g., "score > 7"
-      const [variable, operator, value] = condition.split(' ');
-      const actualValue = data[variable];
-      
-      switch (operator) {
-        case '>': return actualValue > parseFloat(value);
-        case '<': return actualValue < parseFloat(value);
-        case '>=': return actualValue >= parseFloat(value);
-        case '<=': return actualValue <= parseFloat(value);
-        case '==': return actualValue == value;
-        case '!=': return actualValue != value;
-        case 'contains': return String(actualValue).includes(value);
-        default: return true;
-      }
-    } catch (error) {
-      console.warn('Failed to evaluate condition:', condition, error);
-      return false;
+  private emitExecutionEvent(
+    context: ExecutionContext,
+    type: string,
+    data: Record<string, any>,
+    options: { broadcast?: boolean } = {}
+  ): void {
+    context.eventSequence = (context.eventSequence || 0) + 1;
+    const { eventSequence, ...state } = context;
+    eventLogService.appendExecutionEvent({
+      sequence: eventSequence,
+      type,
+      executionId: context.executionId,
+      workflowId: context.workflowId,
+      nodeId: data.nodeId,
+      branchId: data.branchId,
+      data
+    }, state);
+
+    if (options.broadcast) {
+      this.eventBus.emitEvent(type, data);
+    } else {
+      this.emit(type, data);
     }
   }
 
@@ -348,29 +2219,51 @@ export class WorkflowEngine extends EventEmitter {
     const executionData = {
       _id: context.executionId,
       workflowId: context.workflowId,
+      workflowVersion: context.workflowVersion,
       status: context.status,
       startTime: context.startTime,
       endTime: context.endTime,
       nodeExecutions: context.executionHistory.map(h => ({
         nodeId: h.nodeId,
+        branchId: h.branchId,
         startTime: h.timestamp,
         endTime: new Date(h.timestamp.getTime() + h.duration),
-        status: h.error ? 'failed' : 'success',
+        status: h.interrupted ? 'cancelled' : h.error ? 'failed' : 'success',
         error: h.error,
+        errorCode: h.errorCode,
+        validationErrors: h.validationErrors,
         output: h.output,
+        promoted: h.promoted,
+        childExecutionId: h.childExecutionId,
+        attempts: h.attempts,
+        handled: h.handled,
+        interrupted: h.interrupted,
         metrics: {
           duration: h.duration,
-          memoryUsage: process.memoryUsage().heapUsed
+          memoryUsage: process.memoryUsage().heapUsed,
+          aiTokensUsed: h.aiTokensUsed,
+          aiCost: h.aiCost
         }
       })),
-      inputs: context.variables,
+      inputs: context.variables.trigger || {},
       outputs: context.variables,
+      branches: context.branches,
+      joins: context.joins,
+      parentExecution: context.parentExecution,
+      callStack: context.callStack,
+      retryOf: context.retryOf,
+      idempotencyKey: context.idempotencyKey,
+      error: context.error,
+      activeDuration: context.activeDuration,
+      runningSince: context.runningSince || null,
+      eventSequence: context.eventSequence,
+      ...(context.mock && { tags: [MOCK_EXECUTION_TAG], pinnedOutputs: context.mock.pinnedOutputs }),
       metrics: {
         totalDuration: context.endTime ? 
           context.endTime.getTime() - context.startTime.getTime() : 
           Date.now() - context.startTime.getTime(),
-        totalCost: 0, // Will be calculated based on AI usage
-        aiTokensUsed: 0,
+        totalCost: context.executionHistory.reduce((sum, h) => sum + (h.aiCost || 0), 0),
+        aiTokensUsed: context.executionHistory.reduce((sum, h) => sum + (h.aiTokensUsed || 0), 0),
         peakMemoryUsage: process.memoryUsage().heapUsed,
         nodeCount: context.executionHistory.length,
         successfulNodes: context.executionHistory.filter(h => !h.error).length,
@@ -400,7 +2293,14 @@ export class WorkflowEngine extends EventEmitter {
     // Try cache first
     const cached = await cacheService.get<ExecutionContext>(`execution:${executionId}`);
     if (cached) {
-      return cached;
+      // Dates come back from the cache as strings
+      return {
+        ...cached,
+        startTime: new Date(cached.startTime),
+        endTime: cached.endTime ? new Date(cached.endTime) : undefined,
+        runningSince: cached.runningSince ? new Date(cached.runningSince) : undefined,
+        executionHistory: cached.executionHistory.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+      };
     }
 
     // Load from database
@@ -410,17 +2310,49 @@ export class WorkflowEngine extends EventEmitter {
     }
 
     // Reconstruct context
+    const currentNodeId = execution.nodeExecutions[execution.nodeExecutions.length - 1]?.nodeId || '';
+    const hasBranches = execution.branches && Object.keys(execution.branches).length > 0;
     const context: ExecutionContext = {
       executionId,
       workflowId: execution.workflowId.toString(),
-      currentNodeId: execution.nodeExecutions[execution.nodeExecutions.length - 1]?.nodeId || '',
+      workflowVersion: execution.workflowVersion,
+      currentNodeId,
       variables: execution.outputs,
+      // Executions persisted before branch tracking resume on a single main branch
+      branches: hasBranches ? execution.branches as Record<string, ExecutionBranch> : {
+        [MAIN_BRANCH]: {
+          id: MAIN_BRANCH,
+          currentNodeId,
+          variables: execution.outputs,
+          status: execution.status === WorkflowStatus.PAUSED ? 'paused' : 'running'
+        }
+      },
+      joins: execution.joins || {},
+      parentExecution: execution.parentExecution?.executionId ? execution.parentExecution : undefined,
+      callStack: execution.callStack || [],
+      retryOf: execution.retryOf?.executionId ? execution.retryOf : undefined,
+      idempotencyKey: execution.idempotencyKey,
+      error: execution.error?.code ? { code: execution.error.code, message: execution.error.message } : undefined,
+      activeDuration: execution.activeDuration,
+      runningSince: execution.runningSince || undefined,
+      eventSequence: execution.eventSequence,
+      mock: execution.tags?.includes(MOCK_EXECUTION_TAG) ? { pinnedOutputs: execution.pinnedOutputs || {} } : undefined,
       executionHistory: execution.nodeExecutions.map(ne => ({
         nodeId: ne.nodeId,
+        branchId: ne.branchId,
         timestamp: new Date(ne.startTime),
         input: execution.inputs,
         output: ne.output,
+        promoted: ne.promoted,
+        childExecutionId: ne.childExecutionId,
+        attempts: ne.attempts,
         error: ne.error,
+        errorCode: ne.errorCode,
+        validationErrors: ne.validationErrors,
+        handled: ne.handled,
+        interrupted: ne.interrupted,
+        aiTokensUsed: ne.metrics?.aiTokensUsed,
+        aiCost: ne.metrics?.aiCost,
         duration: ne.metrics?.duration || 0
       })),
       status: execution.status,
@@ -440,9 +2372,11 @@ export class WorkflowEngine extends EventEmitter {
     });
 
     this.eventBus.on('human:rejected', async (data: any) => {
-      const context = this.runningExecutions.get(data.executionId);
-      if (context) {
-        await this.handleExecutionError(context, 'Human approval rejected');
+      const job: EngineJob = { type: 'reject', executionId: data.executionId, reason: 'Human approval rejected' };
+      if (this.queueMode) {
+        await queueService.enqueueEngineJob(job);
+      } else {
+        await this.processJob(job);
       }
     });
   }
@@ -451,18 +2385,100 @@ export class WorkflowEngine extends EventEmitter {
    * Get execution status
    */
   async getExecutionStatus(executionId: string): Promise<ExecutionContext | null> {
-    return this.runningExecutions.get(executionId) || await this.loadExecution(executionId);
+    return this.getContext(executionId);
   }
 
   /**
    * Cancel running execution
    */
-  async cancelExecution(executionId: string): Promise<void> {
-    const context = this.runningExecutions.get(executionId);
-    if (context) {
-      await this.completeExecution(context, WorkflowStatus.CANCELLED);
+  async cancelExecution(executionId: string, reason?: { code: string; message: string }): Promise<void> {
+    if (this.queueMode) {
+      const context = await this.loadExecution(executionId);
+      if (context && this.isActive(context)) {
+        // Abort the node work in flight first; its step records the interruption once the node stops
+        await queueService.publishAbort(executionId, reason);
+        await queueService.enqueueEngineJob({ type: 'cancel', executionId, reason });
+      }
+      return;
+    }
+    await this.applyCancel(executionId, reason);
+  }
+
+  private async applyCancel(executionId: string, reason?: { code: string; message: string }): Promise<void> {
+    const context = await this.getContext(executionId);
+    if (!context || !this.isActive(context)) {
+      return;
+    }
+    await this.cancelContext(context, reason);
+  }
+
+  private async cancelContext(context: ExecutionContext, reason?: { code: string; message: string }): Promise<void> {
+    const executionId = context.executionId;
+    context.error = reason;
+    this.abortInFlightNodes(executionId, reason);
+
+    const pausedBranches = Object.values(context.branches).filter(branch => branch.status === 'paused');
+
+    // Drop pending wake-ups so cancelled runs don't leave jobs behind
+    await Promise.all(
+      pausedBranches.map(branch => queueService.cancelTimer({
+        executionId,
+        branchId: branch.id,
+        nodeId: branch.currentNodeId
+      }))
+    );
+
+    // Children of cancelled runs are cancelled too; unlinking them first keeps their results from reaching us
+    const childExecutionIds = pausedBranches
+      .filter(branch => branch.childExecutionId)
+      .map(branch => branch.childExecutionId as string);
+    pausedBranches.forEach(branch => { branch.childExecutionId = undefined; });
+    await Promise.all(childExecutionIds.map(childId => this.cancelExecution(childId)));
+
+    await this.completeExecution(context, WorkflowStatus.CANCELLED);
+  }
+
+  /**
+   * Abort node work this process has in flight for an execution and record each node as interrupted.
+   * Workers call this when a cancellation is broadcast.
+   */
+  abortInFlightNodes(executionId: string, reason?: { code: string; message: string }): void {
+    const message = reason?.message || 'Execution cancelled';
+
+    for (const [key, inFlight] of this.inFlightNodes) {
+      if (inFlight.context.executionId !== executionId) continue;
+      this.inFlightNodes.delete(key);
+
+      // A worker's context is its own copy; its step records the interruption in the stored one
+      const { context, branchId, nodeId, startTime, controller } = inFlight;
+      if (!this.queueMode) {
+        this.recordInterruptedNode(context, branchId, nodeId, startTime, message);
+      }
+
+      console.log(`🛑 Interrupted node ${nodeId} of execution ${executionId}`);
+      controller.abort(message);
     }
   }
+
+  private recordInterruptedNode(context: ExecutionContext, branchId: string, nodeId: string, startTime: number, message: string): void {
+    context.executionHistory.push({
+      nodeId,
+      branchId,
+      timestamp: new Date(),
+      input: context.branches[branchId]?.variables,
+      output: null,
+      error: `Interrupted: ${message}`,
+      interrupted: true,
+      duration: Date.now() - startTime
+    });
+
+    this.emitExecutionEvent(context, 'node:interrupted', {
+      executionId: context.executionId,
+      nodeId,
+      branchId,
+      reason: message
+    }, { broadcast: true });
+  }
 }
 
 export const workflowEngine = new WorkflowEngine();
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface IAIUsage extends Document {
+  key: string;
+  executionId: string;
+  workflowId: mongoose.Types.ObjectId;
+  userId: string;
+  nodeId: string;
+  branchId?: string;
+  provider: string;
+  modelId: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;
+  cost: number;
+  timestamp: Date;
+}
+
+// One entry per AI node run: the ledger execution, workflow and user spend is rolled up from
+const aiUsageSchema = new mongoose.Schema<IAIUsage>({
+  // executionId:branchId:nodeId:position in the run's history, so a re-delivered step isn't counted twice
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  executionId: {
+    type: String,
+    ref: 'ExecutionHistory',
+    required: true
+  },
+  workflowId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Workflow',
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  nodeId: { type: String, required: true },
+  branchId: String,
+  provider: { type: String, required: true },
+  modelId: String,
+  calls: { type: Number, default: 1 }, // More than one when output schema repairs re-prompted
+  promptTokens: { type: Number, default: 0 },
+  completionTokens: { type: Number, default: 0 },
+  totalTokens: { type: Number, default: 0 },
+  estimated: { type: Boolean, default: false },
+  cost: { type: Number, default: 0 }, // USD
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+aiUsageSchema.index({ timestamp: -1 });
+aiUsageSchema.index({ executionId: 1 });
+aiUsageSchema.index({ workflowId: 1, timestamp: -1 });
+aiUsageSchema.index({ userId: 1, timestamp: -1 });
+
+export const AIUsageModel = mongoose.model<IAIUsage>('AIUsage', aiUsageSchema);
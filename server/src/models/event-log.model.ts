@@ -1,20 +1,36 @@
 import mongoose from 'mongoose';
-import { EventType } from '../types/workflow.types';
 
 const eventLogSchema = new mongoose.Schema({
   type: {
     type: String,
-    enum: Object.values(EventType),
     required: true
   },
+  // Engine execution ids (exec_...), the _id of ExecutionHistory documents
   executionId: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'WorkflowExecution',
+    type: String,
+    ref: 'ExecutionHistory',
     required: true
   },
+  workflowId: {
+    type: String
+  },
   nodeId: {
     type: String
   },
+  branchId: {
+    type: String
+  },
+  // Position in the execution's log; entries written by the engine always have one
+  sequence: {
+    type: Number
+  },
+  // Either the full execution context after the event, or the change the event made to it
+  snapshot: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  patch: {
+    type: mongoose.Schema.Types.Mixed
+  },
   data: {
     type: mongoose.Schema.Types.Mixed
   },
@@ -27,5 +43,14 @@ const eventLogSchema = new mongoose.Schema({
 // Index for efficient querying
 eventLogSchema.index({ executionId: 1, timestamp: 1 });
 eventLogSchema.index({ nodeId: 1, timestamp: 1 });
+eventLogSchema.index(
+  { executionId: 1, sequence: 1 },
+  { unique: true, partialFilterExpression: { sequence: { $exists: true } } }
+);
+
+// The log is append-only: entries can be added and pruned with their execution, never rewritten
+eventLogSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function(next) {
+  next(new Error('Event log entries cannot be modified'));
+});
 
 export const EventLogModel = mongoose.model('EventLog', eventLogSchema);
\ No newline at end of file
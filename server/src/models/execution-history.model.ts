@@ -1,19 +1,37 @@
 import mongoose, { Document } from 'mongoose';
 import { WorkflowStatus } from '../types/workflow.types';
 
+// Tag of runs that used pinned sample data instead of calling out; they are left out of analytics
+export const MOCK_EXECUTION_TAG = 'mock';
+export const NOT_MOCK_EXECUTION = { tags: { $ne: MOCK_EXECUTION_TAG } };
+
 interface IExecutionHistory extends Document {
   workflowId: mongoose.Types.ObjectId;
+  workflowVersion?: number;
   status: WorkflowStatus;
   startTime: Date;
   endTime?: Date;
   duration?: number;
   nodeExecutions: Array<{
     nodeId: string;
+    branchId?: string;
     startTime: Date;
     endTime?: Date;
-    status: 'success' | 'failed' | 'skipped';
+    status: 'success' | 'failed' | 'skipped' | 'cancelled';
     error?: string;
+    errorCode?: string;
+    validationErrors?: Array<{ path: string; message: string }>;
     output?: any;
+    promoted?: Record<string, any>;
+    childExecutionId?: string;
+    attempts?: Array<{
+      attempt: number;
+      delay: number;
+      error?: string;
+      timestamp: Date;
+    }>;
+    handled?: boolean;
+    interrupted?: boolean;
     metrics: {
       duration: number;
       memoryUsage: number;
@@ -23,12 +41,29 @@ interface IExecutionHistory extends Document {
   }>;
   inputs: Record<string, any>;
   outputs: Record<string, any>;
+  branches?: Record<string, any>;
+  joins?: Record<string, any>;
+  parentExecution?: {
+    executionId: string;
+    nodeId: string;
+    branchId: string;
+  };
+  callStack?: string[];
+  retryOf?: {
+    executionId: string;
+    nodeId: string;
+  };
+  idempotencyKey?: string;
   error?: {
     message: string;
     code: string;
     nodeId?: string;
     stack?: string;
   };
+  activeDuration?: number; // Time spent running, excluding pauses; the workflow timeout applies to this
+  runningSince?: Date; // Start of the current running stretch
+  eventSequence?: number; // Sequence of the last entry in the execution's event log
+  pinnedOutputs?: Record<string, any>; // Node outputs a mock run used, keyed by node id
   metrics: {
     totalDuration: number;
     totalCost: number;
@@ -51,6 +86,7 @@ const executionHistorySchema = new mongoose.Schema<IExecutionHistory>({
     ref: 'Workflow',
     required: true
   },
+  workflowVersion: Number,
   status: {
     type: String,
     enum: Object.values(WorkflowStatus),
@@ -66,15 +102,28 @@ const executionHistorySchema = new mongoose.Schema<IExecutionHistory>({
   duration: Number,
   nodeExecutions: [{
     nodeId: { type: String, required: true },
+    branchId: String,
     startTime: { type: Date, required: true },
     endTime: Date,
     status: {
       type: String,
-      enum: ['success', 'failed', 'skipped'],
+      enum: ['success', 'failed', 'skipped', 'cancelled'],
       required: true
     },
     error: String,
+    errorCode: String, // e.g. AI_OUTPUT_INVALID
+    validationErrors: mongoose.Schema.Types.Mixed, // Output schema mismatches of an AI node
     output: mongoose.Schema.Types.Mixed,
+    promoted: mongoose.Schema.Types.Mixed,
+    childExecutionId: String,
+    attempts: [{
+      attempt: Number,
+      delay: Number,
+      error: String,
+      timestamp: Date
+    }],
+    handled: Boolean,
+    interrupted: Boolean, // Cancelled while the node was running
     metrics: {
       duration: Number,
       memoryUsage: Number,
@@ -90,12 +139,37 @@ const executionHistorySchema = new mongoose.Schema<IExecutionHistory>({
     type: mongoose.Schema.Types.Mixed,
     default: {}
   },
+  branches: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  joins: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  // Set when this run was started by a sub-workflow node
+  parentExecution: {
+    executionId: { type: String, index: true },
+    nodeId: String,
+    branchId: String
+  },
+  callStack: [String],
+  // Set when this run re-started an earlier one from one of its nodes
+  retryOf: {
+    executionId: { type: String, index: true },
+    nodeId: String
+  },
+  idempotencyKey: String, // Key of the trigger delivery that started the run
   error: {
     message: String,
     code: String,
     nodeId: String,
     stack: String
   },
+  activeDuration: Number,
+  runningSince: Date,
+  eventSequence: Number,
+  pinnedOutputs: mongoose.Schema.Types.Mixed,
   metrics: {
     totalDuration: { type: Number, default: 0 },
     totalCost: { type: Number, default: 0 },
@@ -120,7 +194,7 @@ executionHistorySchema.index({ tags: 1 });
 executionHistorySchema.statics.getMetricsSummary = async function(workflowId: string) {
   return await this.aggregate([
     {
-      $match: { workflowId: new mongoose.Types.ObjectId(workflowId) }
+      $match: { workflowId: new mongoose.Types.ObjectId(workflowId), ...NOT_MOCK_EXECUTION }
     },
     {
       $group: {
@@ -175,6 +249,8 @@ executionHistorySchema.pre('save', function(next) {
 
 // Performance indexes
 executionHistorySchema.index({ workflowId: 1, startTime: -1 });
+executionHistorySchema.index({ workflowId: 1, status: 1, startTime: 1 });
+executionHistorySchema.index({ workflowId: 1, status: 1, updatedAt: 1 }); // Running runs without recent progress
 executionHistorySchema.index({ status: 1, startTime: -1 });
 executionHistorySchema.index({ startTime: -1 });
 executionHistorySchema.index({ 'metrics.totalCost': -1 });
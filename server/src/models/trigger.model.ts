@@ -6,12 +6,14 @@ export interface ITriggerConfig {
   enabled: boolean;
   workflowId: string;
   nodeId: string;
-  config: any; // Type-specific configuration
+  config: any; // Type-specific configuration; any type may set priority to override the workflow's lane
   metadata?: {
     createdAt: Date;
     updatedAt: Date;
     lastTriggered?: Date;
     triggerCount?: number;
+    dedupeHits?: number; // Deliveries skipped because their idempotency key was already used
+    lastDedupeHit?: Date;
     errors?: Array<{
       timestamp: Date;
       error: string;
@@ -30,6 +32,7 @@ export interface IEmailTriggerConfig extends ITriggerConfig {
     frequency: number; // in minutes
     markAsRead: boolean;
     lastChecked?: Date;
+    dedupeWindow?: number; // Seconds a Message-ID is remembered; defaults to IDEMPOTENCY_WINDOW
     imapConfig?: {
       host: string;
       port: number;
@@ -58,6 +61,9 @@ export interface IWebhookTriggerConfig extends ITriggerConfig {
     responseCode: number;
     webhookUrl: string; // Generated URL
     secretKey?: string;
+    idempotencyHeader?: string; // Header carrying the idempotency key; defaults to IDEMPOTENCY_HEADER
+    idempotencyKeyPath?: string; // Dot path into the payload to read the key from instead of a header
+    dedupeWindow?: number; // Seconds a key is remembered; defaults to IDEMPOTENCY_WINDOW
   };
 }
 
@@ -145,6 +151,11 @@ const triggerSchema = new mongoose.Schema({
       type: Number,
       default: 0
     },
+    dedupeHits: {
+      type: Number,
+      default: 0
+    },
+    lastDedupeHit: Date,
     errors: [{
       timestamp: Date,
       error: String,
@@ -0,0 +1,47 @@
+import mongoose, { Document } from 'mongoose';
+import { INode, IEdge } from '../types/workflow.types';
+
+export interface IWorkflowVersion extends Document {
+  workflowId: mongoose.Types.ObjectId;
+  version: number;
+  name: string;
+  description?: string;
+  nodes: INode[];
+  edges: IEdge[];
+  settings: Record<string, any>;
+  createdBy?: string;
+  message?: string;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+// Snapshots are write-once: a workflow's history only ever grows
+const workflowVersionSchema = new mongoose.Schema<IWorkflowVersion>({
+  workflowId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Workflow',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Version must be an integer'
+    }
+  },
+  name: { type: String, required: true },
+  description: String,
+  nodes: [mongoose.Schema.Types.Mixed],
+  edges: [mongoose.Schema.Types.Mixed],
+  settings: mongoose.Schema.Types.Mixed,
+  createdBy: String,
+  message: String,
+  restoredFrom: Number
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+workflowVersionSchema.index({ workflowId: 1, version: -1 }, { unique: true });
+
+export const WorkflowVersionModel = mongoose.model<IWorkflowVersion>('WorkflowVersion', workflowVersionSchema);
@@ -1,5 +1,14 @@
 import mongoose, { Document } from 'mongoose';
-import { INode, IEdge, NodeType } from '../types/workflow.types';
+import { INode, IEdge, NodeType, ExecutionPriority } from '../types/workflow.types';
+
+/**
+ * Sample output pinned to a node; mock runs return it instead of running the node
+ */
+export interface PinnedNodeData {
+  output: any;
+  pinnedAt: Date;
+  pinnedBy?: string;
+}
 
 interface IWorkflow extends Document {
   name: string;
@@ -22,6 +31,9 @@ interface IWorkflow extends Document {
     timeout: number;
     maxRetries: number;
     concurrency: number;
+    concurrencyPolicy: 'queue' | 'reject';
+    priority: ExecutionPriority;
+    rateLimit: { maxRuns: number; perSeconds: number };
     notifyOnFailure: boolean;
     notifyOnSuccess: boolean;
     notificationChannels: string[];
@@ -31,6 +43,7 @@ interface IWorkflow extends Document {
     editors: string[];
     viewers: string[];
   };
+  pinnedData: Record<string, PinnedNodeData>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -71,6 +84,8 @@ const edgeSchema = new mongoose.Schema({
   source: { type: String, required: true },
   target: { type: String, required: true },
   type: { type: String, required: true },
+  sourceHandle: String,
+  targetHandle: String,
   data: {
     condition: String,
     priority: { type: Number, default: 1 },
@@ -125,9 +140,27 @@ const workflowSchema = new mongoose.Schema<IWorkflow>({
       type: Number,
       default: 3
     },
+    // Runs allowed at once; 0 = unlimited
     concurrency: { 
       type: Number,
-      default: 1
+      default: 0
+    },
+    // What happens to runs started while `concurrency` runs are already going
+    concurrencyPolicy: {
+      type: String,
+      enum: ['queue', 'reject'],
+      default: 'queue'
+    },
+    // Lane triggered runs wait in; triggers can override it
+    priority: {
+      type: String,
+      enum: Object.values(ExecutionPriority),
+      default: ExecutionPriority.NORMAL
+    },
+    // At most maxRuns triggered runs start per perSeconds window; 0 means no cap
+    rateLimit: {
+      maxRuns: { type: Number, default: 0 },
+      perSeconds: { type: Number, default: 60 }
     },
     notifyOnFailure: { 
       type: Boolean,
@@ -146,6 +179,11 @@ const workflowSchema = new mongoose.Schema<IWorkflow>({
     owners: [String],
     editors: [String],
     viewers: [String]
+  },
+  // Keyed by node id. Test data rather than definition, so it isn't part of versions
+  pinnedData: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
   }
 }, {
   timestamps: true,
@@ -165,13 +203,7 @@ workflowSchema.index({ version: -1 });
 workflowSchema.index({ 'metadata.successRate': -1 });
 workflowSchema.index({ 'metadata.avgExecutionTime': 1 });
 
-// Middleware for version control
-workflowSchema.pre('save', async function(next) {
-  if (this.isModified() && (this as any).status === 'active') {
-    (this as any).version += 1;
-  }
-  next();
-});
+// Versions are bumped by workflowVersionService.publish when a changed definition is snapshotted
 
 // Methods
 workflowSchema.methods.archive = async function() {
@@ -2,6 +2,8 @@ import express from 'express';
 import { securityOptimizationService } from '../services/security-optimization.service';
 import { performanceMonitor } from '../services/performance-monitor.service';
 import { authenticate, authorize } from '../middleware/auth.middleware';
+import { queueService } from '../services/queue.service';
+import { ExecutionPriority } from '../types/workflow.types';
 
 const router = express.Router();
 
@@ -246,6 +248,129 @@ router.get('/system-diagnostics', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/admin/queues/lanes
+ * @desc Get queue depth per priority lane, with waiting runs per user
+ * @access Private (Admin only)
+ */
+router.get('/queues/lanes', async (req, res) => {
+  try {
+    const lanes = await queueService.getLaneStats();
+
+    res.json({
+      success: true,
+      data: lanes
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve queue lanes',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route POST /api/admin/queues/lanes/:lane/pause
+ * @desc Stop starting runs from a lane; runs already started carry on
+ * @access Private (Admin only)
+ */
+router.post('/queues/lanes/:lane/pause', async (req, res) => {
+  try {
+    const lane = parseLane(req.params.lane);
+    if (!lane) {
+      return res.status(400).json({
+        success: false,
+        message: `Lane must be one of: ${Object.values(ExecutionPriority).join(', ')}`
+      });
+    }
+
+    await queueService.pauseLane(lane);
+    console.log(`⏸️ Queue lane ${lane} paused by admin ${req.user?.userId}`);
+
+    res.json({
+      success: true,
+      message: `Lane '${lane}' paused`
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to pause lane',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route POST /api/admin/queues/lanes/:lane/resume
+ * @desc Resume starting runs from a paused lane
+ * @access Private (Admin only)
+ */
+router.post('/queues/lanes/:lane/resume', async (req, res) => {
+  try {
+    const lane = parseLane(req.params.lane);
+    if (!lane) {
+      return res.status(400).json({
+        success: false,
+        message: `Lane must be one of: ${Object.values(ExecutionPriority).join(', ')}`
+      });
+    }
+
+    await queueService.resumeLane(lane);
+    console.log(`▶️ Queue lane ${lane} resumed by admin ${req.user?.userId}`);
+
+    res.json({
+      success: true,
+      message: `Lane '${lane}' resumed`
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resume lane',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route POST /api/admin/queues/lanes/:lane/drain
+ * @desc Drop every run waiting in a lane; runs already started carry on
+ * @access Private (Admin only)
+ */
+router.post('/queues/lanes/:lane/drain', async (req, res) => {
+  try {
+    const lane = parseLane(req.params.lane);
+    if (!lane) {
+      return res.status(400).json({
+        success: false,
+        message: `Lane must be one of: ${Object.values(ExecutionPriority).join(', ')}`
+      });
+    }
+
+    const dropped = await queueService.drainLane(lane);
+    console.log(`🧹 Queue lane ${lane} drained by admin ${req.user?.userId}: ${dropped} runs dropped`);
+
+    res.json({
+      success: true,
+      data: { lane, dropped },
+      message: `Lane '${lane}' drained`
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to drain lane',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Resolve a lane name from the URL
+ */
+function parseLane(value: string): ExecutionPriority | null {
+  return Object.values(ExecutionPriority).includes(value as ExecutionPriority) ? value as ExecutionPriority : null;
+}
+
 /**
  * Perform security vulnerability scan
  */
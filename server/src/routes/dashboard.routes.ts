@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { AIService } from '../services/ai.service';
+import { aiProviderRegistry } from '../services/ai-provider-registry.service';
 import { AIWorkflowTemplates } from '../services/ai-workflow-templates.service';
 import { authenticate } from '../middleware/auth.middleware';
 import mongoose from 'mongoose';
+import { NOT_MOCK_EXECUTION } from '../models/execution-history.model';
 
 const router = Router();
 
@@ -53,10 +55,10 @@ router.get('/overview', async (req, res) => {
       const weekStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
       
       const [totalExecs, todayExecs, weekExecs, failedExecs] = await Promise.all([
-        ExecutionModel.countDocuments({}),
-        ExecutionModel.countDocuments({ createdAt: { $gte: todayStart } }),
-        ExecutionModel.countDocuments({ createdAt: { $gte: weekStart } }),
-        ExecutionModel.countDocuments({ status: 'failed' }),
+        ExecutionModel.countDocuments(NOT_MOCK_EXECUTION),
+        ExecutionModel.countDocuments({ ...NOT_MOCK_EXECUTION, createdAt: { $gte: todayStart } }),
+        ExecutionModel.countDocuments({ ...NOT_MOCK_EXECUTION, createdAt: { $gte: weekStart } }),
+        ExecutionModel.countDocuments({ ...NOT_MOCK_EXECUTION, status: 'failed' }),
       ]);
       
       executionStats = {
@@ -135,120 +137,40 @@ router.get('/overview', async (req, res) => {
  */
 router.get('/ai-status', async (req, res) => {
   try {
-    const status = {
-      timestamp: new Date().toISOString(),
-      providers: [
-        {
-          id: 'gemini',
-          name: 'Google Gemini 2.5 Flash',
-          status: 'operational',
-          responseTime: '1.2s',
-          uptime: '99.9%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            generation: 'https://generativelanguage.googleapis.com',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 45,
-            tokensUsed: 23450,
-            quota: { limit: 1500, remaining: 1455 }
-          }
-        },
-        {
-          id: 'groq',
-          name: 'Groq Llama 3.1',
-          status: 'operational',
-          responseTime: '0.8s',
-          uptime: '99.8%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            chat: 'https://api.groq.com',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 234,
-            tokensUsed: 156780,
-            quota: { limit: 10000, remaining: 9766 }
-          }
-        },
-        {
-          id: 'huggingface',
-          name: 'HuggingFace Inference',
-          status: 'operational',
-          responseTime: '2.1s',
-          uptime: '99.5%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            inference: 'https://api-inference.huggingface.co',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 67,
-            tokensUsed: 34200,
-            quota: { limit: 1000, remaining: 933 }
-          }
-        },
-        {
-          id: 'glm4',
-          name: 'GLM-4.5-Air (OpenRouter)',
-          status: 'operational',
-          responseTime: '3.2s',
-          uptime: '99.2%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            chat: 'https://openrouter.ai/api/v1',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 12,
-            tokensUsed: 8900,
-            quota: { limit: 200, remaining: 188 }
-          }
-        },
-        {
-          id: 'kimi',
-          name: 'Kimi Dev 72B (OpenRouter)',
-          status: 'operational',
-          responseTime: '4.1s',
-          uptime: '98.9%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            chat: 'https://openrouter.ai/api/v1',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 8,
-            tokensUsed: 12300,
-            quota: { limit: 200, remaining: 192 }
-          }
-        },
-        {
-          id: 'qwen',
-          name: 'Qwen 2.5 72B (OpenRouter)',
-          status: 'operational',
-          responseTime: '2.8s',
-          uptime: '99.1%',
-          lastCheck: new Date().toISOString(),
-          endpoints: {
-            chat: 'https://openrouter.ai/api/v1',
-            status: 'healthy'
-          },
-          usage: {
-            requestsToday: 15,
-            tokensUsed: 9800,
-            quota: { limit: 200, remaining: 185 }
+    // Every registered adapter, built-in or added through AI_PROVIDERS
+    const providers = await Promise.all(aiProviderRegistry.list().map(async adapter => {
+      const quota = await aiService.getQuotaStatus(adapter.id);
+      return {
+        id: adapter.id,
+        name: adapter.name,
+        model: adapter.model,
+        endpoint: adapter.endpoint,
+        status: !adapter.isConfigured() ? 'not_configured' : quota.exhausted ? 'quota_exhausted' : 'operational',
+        lastCheck: new Date().toISOString(),
+        usage: {
+          requestsToday: quota.used.daily,
+          requestsThisMinute: quota.used.minute,
+          tokensToday: quota.used.dailyTokens,
+          // Limits of 0 are unlimited and have a remaining of null
+          quota: {
+            limits: quota.limits,
+            remaining: quota.remaining,
+            exhausted: quota.exhausted,
+            resetsAt: quota.resetsAt
           }
         }
-      ],
+      };
+    }));
+
+    const status = {
+      timestamp: new Date().toISOString(),
+      providers,
       summary: {
-        totalProviders: 6,
-        operational: 6,
-        degraded: 0,
-        offline: 0,
-        averageResponseTime: '2.37s',
-        totalRequestsToday: 381,
-        totalTokensUsed: 245430
+        totalProviders: providers.length,
+        operational: providers.filter(p => p.status === 'operational').length,
+        notConfigured: providers.filter(p => p.status === 'not_configured').length,
+        quotaExhausted: providers.filter(p => p.status === 'quota_exhausted').length,
+        totalRequestsToday: providers.reduce((sum, p) => sum + p.usage.requestsToday, 0)
       }
     };
 
@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
-import { workflowEngine } from '../engine/workflow-engine';
+import { workflowEngine, WorkflowConcurrencyError, RetryFromNodeError } from '../engine/workflow-engine';
 import { WorkflowModel } from '../models/workflow.model';
-import { ExecutionHistoryModel } from '../models/execution-history.model';
+import { workflowVersionService } from '../services/workflow-version.service';
+import { WorkflowValidationError } from '../services/workflow-validation.service';
+import { ExecutionHistoryModel, NOT_MOCK_EXECUTION } from '../models/execution-history.model';
+import { WorkflowStatus } from '../types/workflow.types';
 import mongoose from 'mongoose';
 import { EventBus } from '../engine/event-bus';
+import { eventLogService, EventLogGapError } from '../services/event-log.service';
 import { authenticate } from '../middleware/auth.middleware';
 import { rateLimit } from '../middleware/rate-limit';
 
@@ -26,7 +30,8 @@ router.post('/workflows/:workflowId/execute',
   executionRateLimit,
   [
     param('workflowId').isMongoId().withMessage('Invalid workflow ID'),
-    body('triggerData').optional().isObject().withMessage('Trigger data must be an object')
+    body('triggerData').optional().isObject().withMessage('Trigger data must be an object'),
+    body('mock').optional().isBoolean().withMessage('mock must be a boolean')
   ],
   async (req: Request, res: Response) => {
     try {
@@ -39,7 +44,7 @@ router.post('/workflows/:workflowId/execute',
       }
 
       const { workflowId } = req.params;
-      const { triggerData = {} } = req.body;
+      const { triggerData = {}, mock = false } = req.body;
 
       // Add user context to trigger data
       const contextData = {
@@ -49,16 +54,32 @@ router.post('/workflows/:workflowId/execute',
         executedAt: new Date().toISOString()
       };
 
-      const executionId = await workflowEngine.executeWorkflow(workflowId, contextData);
+      const executionId = await workflowEngine.executeWorkflow(workflowId, contextData, { mock });
+      const execution = await workflowEngine.getExecutionStatus(executionId);
+      const queued = execution?.status === WorkflowStatus.PENDING;
 
       res.status(202).json({
-        message: 'Workflow execution started',
+        message: queued ? 'Workflow execution queued' : 'Workflow execution started',
         executionId,
-        status: 'started'
+        status: queued ? 'queued' : 'started',
+        mock
       });
 
     } catch (error) {
       console.error('Workflow execution error:', error);
+      if (error instanceof WorkflowConcurrencyError) {
+        return res.status(429).json({
+          error: 'Concurrency limit reached',
+          message: error.message
+        });
+      }
+      if (error instanceof WorkflowValidationError) {
+        return res.status(422).json({
+          error: 'Validation failed',
+          message: error.message,
+          validation: error.validation
+        });
+      }
       res.status(500).json({
         error: 'Execution failed',
         message: error instanceof Error ? error.message : 'Unknown error'
@@ -101,7 +122,10 @@ router.get('/executions/:executionId',
       let totalNodes = execution.executionHistory.length;
       try {
         if (execution && execution.workflowId) {
-          const wf = await WorkflowModel.findById(execution.workflowId);
+          // Count against the version the run is pinned to, not the live workflow
+          const wf = execution.workflowVersion !== undefined
+            ? await workflowVersionService.getDefinition(execution.workflowId, execution.workflowVersion)
+            : await WorkflowModel.findById(execution.workflowId);
           if (wf && Array.isArray(wf.nodes)) {
             totalNodes = wf.nodes.length;
           }
@@ -170,6 +194,63 @@ router.post('/executions/:executionId/resume',
   }
 );
 
+/**
+ * Re-run a finished execution from one of its nodes as a new linked execution
+ */
+router.post('/executions/:executionId/retry-from/:nodeId',
+  authenticate,
+  executionRateLimit,
+  [
+    param('executionId').notEmpty().withMessage('Execution ID is required'),
+    param('nodeId').notEmpty().withMessage('Node ID is required'),
+    body('variables').optional().isObject().withMessage('Variables must be an object'),
+    body('useLatestVersion').optional().isBoolean().withMessage('useLatestVersion must be a boolean')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const { executionId, nodeId } = req.params;
+      const { variables, useLatestVersion = false } = req.body;
+
+      const retryExecutionId = await workflowEngine.retryFromNode(executionId, nodeId, { variables, useLatestVersion });
+
+      res.status(202).json({
+        message: `Execution restarted from node ${nodeId}`,
+        executionId: retryExecutionId,
+        retryOf: executionId,
+        status: 'started'
+      });
+
+    } catch (error) {
+      console.error('Retry execution error:', error);
+      if (error instanceof RetryFromNodeError) {
+        const status = { 'not-found': 404, 'still-active': 409, 'invalid-node': 400 }[error.reason];
+        return res.status(status).json({
+          error: 'Failed to retry execution',
+          message: error.message
+        });
+      }
+      if (error instanceof WorkflowConcurrencyError) {
+        return res.status(429).json({
+          error: 'Concurrency limit reached',
+          message: error.message
+        });
+      }
+      res.status(500).json({
+        error: 'Failed to retry execution',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Cancel running execution
  */
@@ -324,6 +405,93 @@ router.post('/approvals/:executionId/respond',
   }
 );
 
+/**
+ * Get the event log of an execution, oldest first
+ */
+router.get('/executions/:executionId/timeline',
+  authenticate,
+  [
+    param('executionId').notEmpty().withMessage('Execution ID is required')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const { executionId } = req.params;
+      const events = await eventLogService.getExecutionTimeline(executionId);
+
+      if (events.length === 0 && !(await ExecutionHistoryModel.exists({ _id: executionId }))) {
+        return res.status(404).json({
+          error: 'Execution not found'
+        });
+      }
+
+      res.json({ executionId, events });
+
+    } catch (error) {
+      console.error('Get execution timeline error:', error);
+      res.status(500).json({
+        error: 'Failed to get execution timeline',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Rebuild the execution context as it was right after one event of its log
+ */
+router.get('/executions/:executionId/timeline/:sequence',
+  authenticate,
+  [
+    param('executionId').notEmpty().withMessage('Execution ID is required'),
+    param('sequence').isInt({ min: 1 }).withMessage('Sequence must be a positive integer')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const { executionId } = req.params;
+      const sequence = parseInt(req.params.sequence, 10);
+      const replay = await eventLogService.getStateAt(executionId, sequence);
+
+      if (!replay) {
+        return res.status(404).json({
+          error: 'Event not found',
+          message: `Execution ${executionId} has no event #${sequence}`
+        });
+      }
+
+      res.json({
+        executionId,
+        sequence,
+        event: replay.event,
+        context: replay.state
+      });
+
+    } catch (error) {
+      console.error('Replay execution error:', error);
+      const status = error instanceof EventLogGapError ? 409 : 500;
+      res.status(status).json({
+        error: 'Failed to replay execution',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Get real-time execution events (Server-Sent Events)
  */
@@ -370,7 +538,7 @@ router.get('/workflows/:workflowId/executions/stats',
       const workflowObjectId = new mongoose.Types.ObjectId(workflowId);
 
       const [summary] = await ExecutionHistoryModel.aggregate([
-        { $match: { workflowId: workflowObjectId } },
+        { $match: { workflowId: workflowObjectId, ...NOT_MOCK_EXECUTION } },
         {
           $group: {
             _id: null,
@@ -390,7 +558,7 @@ router.get('/workflows/:workflowId/executions/stats',
         }
       ]);
 
-      const recentExecutions = await ExecutionHistoryModel.find({ workflowId: workflowObjectId })
+      const recentExecutions = await ExecutionHistoryModel.find({ workflowId: workflowObjectId, ...NOT_MOCK_EXECUTION })
         .sort({ startTime: -1 })
         .limit(5)
         .select({ _id: 1, status: 1, startTime: 1, endTime: 1, 'metrics.totalDuration': 1 });
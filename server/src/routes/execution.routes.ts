@@ -1,9 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { query, validationResult } from 'express-validator';
-import { ExecutionHistoryModel } from '../models/execution-history.model';
+import { ExecutionHistoryModel, NOT_MOCK_EXECUTION } from '../models/execution-history.model';
+import { EventLogModel } from '../models/event-log.model';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import { rateLimit } from '../middleware/rate-limit';
 import { cacheService } from '../services/cache.service';
+import { costLedgerService } from '../services/cost-ledger.service';
 
 const router = Router();
 
@@ -177,21 +179,40 @@ router.get('/:id',
 );
 
 /**
- * Get execution analytics
+ * Get execution analytics, with AI spend over the last `days` days (default 30) and budget alerts
  */
 router.get('/analytics/summary',
   authenticate,
   authorize(['admin']),
+  [
+    query('days').optional().isInt({ min: 1, max: 365 }).withMessage('Days must be between 1 and 365')
+  ],
   async (req: Request, res: Response) => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const days = parseInt(req.query.days as string) || 30;
+
+      // AI spend is read fresh so budget alerts aren't an hour late
+      const spend = await costLedgerService.getSpendSummary(days);
+
       const cacheKey = 'execution:analytics:summary';
-      const cachedAnalytics = await cacheService.get(cacheKey);
+      const cachedAnalytics = await cacheService.get<Record<string, any>>(cacheKey);
       
       if (cachedAnalytics) {
-        return res.json(cachedAnalytics);
+        return res.json({ ...cachedAnalytics, spend });
       }
 
       const analytics = await ExecutionHistoryModel.aggregate([
+        {
+          $match: NOT_MOCK_EXECUTION
+        },
         {
           $group: {
             _id: '$status',
@@ -207,6 +228,7 @@ router.get('/analytics/summary',
       const dailyStats = await ExecutionHistoryModel.aggregate([
         {
           $match: {
+            ...NOT_MOCK_EXECUTION,
             startTime: {
               $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
             }
@@ -238,7 +260,7 @@ router.get('/analytics/summary',
       // Cache for 1 hour
       await cacheService.set(cacheKey, result, 3600);
 
-      res.json(result);
+      res.json({ ...result, spend });
 
     } catch (error) {
       console.error('Get execution analytics error:', error);
@@ -268,7 +290,7 @@ router.get('/workflow/:workflowId/stats',
 
       const stats = await ExecutionHistoryModel.aggregate([
         {
-          $match: { workflowId: workflowId }
+          $match: { workflowId: workflowId, ...NOT_MOCK_EXECUTION }
         },
         {
           $group: {
@@ -335,8 +357,9 @@ router.delete('/:id',
         });
       }
 
-      // Clear cache
+      // Clear cache and the execution's event log
       await Promise.all([
+        EventLogModel.deleteMany({ executionId: id }),
         cacheService.del(`execution:${id}`),
         cacheService.clearByPrefix('executions'),
         cacheService.clearByPrefix('execution:analytics'),
@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { triggerService } from '../services/trigger.service';
+import { IdempotencyConflictError } from '../services/idempotency.service';
+import { WorkflowValidationError } from '../services/workflow-validation.service';
 import { authenticate } from '../middleware/auth.middleware';
 import { rateLimit } from '../middleware/rate-limit';
+import { ExecutionPriority } from '../types/workflow.types';
 
 const router = Router();
 
@@ -25,6 +28,7 @@ router.post('/',
     body('workflowId').isMongoId().withMessage('Valid workflow ID required'),
     body('nodeId').notEmpty().withMessage('Node ID is required'),
     body('config').isObject().withMessage('Configuration object required'),
+    body('config.priority').optional().isIn(Object.values(ExecutionPriority)).withMessage('Invalid priority'),
     body('enabled').optional().isBoolean().withMessage('Enabled must be boolean')
   ],
   async (req: Request, res: Response) => {
@@ -106,6 +110,7 @@ router.put('/:triggerId',
   [
     param('triggerId').isMongoId().withMessage('Valid trigger ID required'),
     body('config').optional().isObject().withMessage('Configuration must be object'),
+    body('config.priority').optional().isIn(Object.values(ExecutionPriority)).withMessage('Invalid priority'),
     body('enabled').optional().isBoolean().withMessage('Enabled must be boolean')
   ],
   async (req: Request, res: Response) => {
@@ -372,14 +377,14 @@ router.post('/webhook/:triggerId',
       const data = req.body;
       const headers = req.headers;
 
-      const executionId = await triggerService.handleWebhookTrigger(
+      const result = await triggerService.handleWebhookTrigger(
         webhookUrl,
         method,
         data,
         headers
       );
 
-      if (!executionId) {
+      if (!result) {
         return res.status(404).json({
           error: 'Webhook trigger not found or inactive'
         });
@@ -387,11 +392,27 @@ router.post('/webhook/:triggerId',
 
       res.json({
         success: true,
-        message: 'Webhook trigger executed successfully',
-        executionId
+        message: result.duplicate
+          ? 'Duplicate delivery, returning the original execution'
+          : 'Webhook trigger executed successfully',
+        executionId: result.executionId,
+        duplicate: result.duplicate
       });
 
     } catch (error) {
+      if (error instanceof IdempotencyConflictError) {
+        return res.status(409).json({
+          error: 'Duplicate delivery in progress',
+          message: error.message
+        });
+      }
+      if (error instanceof WorkflowValidationError) {
+        return res.status(422).json({
+          error: 'Validation failed',
+          message: error.message,
+          validation: error.validation
+        });
+      }
       console.error('Webhook trigger error:', error);
       res.status(500).json({
         error: 'Failed to execute webhook trigger',
@@ -2,6 +2,9 @@ import express from 'express';
 import { EventBus } from '../engine/event-bus';
 import { workflowEngine } from '../engine/workflow-engine';
 import { EmailNotificationService } from '../services/email-notification.service';
+import { idempotencyService, IdempotencyConflictError } from '../services/idempotency.service';
+import { WorkflowValidationError } from '../services/workflow-validation.service';
+import { ExecutionPriority } from '../types/workflow.types';
 
 const router = express.Router();
 const emailNotificationService = new EmailNotificationService();
@@ -13,7 +16,7 @@ const emailNotificationService = new EmailNotificationService();
  */
 router.post('/workflow-trigger', async (req, res) => {
   try {
-    const { workflowId, data, webhookSecret } = req.body;
+    const { workflowId, data, webhookSecret, idempotencyKeyPath, priority } = req.body;
 
     // Validate webhook secret if provided
     if (process.env.WEBHOOK_SECRET && webhookSecret !== process.env.WEBHOOK_SECRET) {
@@ -30,20 +33,50 @@ router.post('/workflow-trigger', async (req, res) => {
       });
     }
 
-    // Trigger workflow execution
-    const executionId = await workflowEngine.executeWorkflow(workflowId, data);
+    if (priority !== undefined && !Object.values(ExecutionPriority).includes(priority)) {
+      return res.status(400).json({
+        success: false,
+        message: `Priority must be one of: ${Object.values(ExecutionPriority).join(', ')}`
+      });
+    }
+
+    // Queue the run, once per idempotency key (from the header or a path into data)
+    const idempotencyKey = idempotencyService.extractKey({ headers: req.headers, payload: data }, { path: idempotencyKeyPath });
+    const { executionId, duplicate } = idempotencyKey
+      ? await idempotencyService.runOnce(`workflow:${workflowId}`, idempotencyKey, () =>
+          workflowEngine.queueExecution(workflowId, data, { priority, idempotencyKey })
+        )
+      : { executionId: await workflowEngine.queueExecution(workflowId, data, { priority }), duplicate: false };
+
+    if (duplicate) {
+      console.log(`🔁 Duplicate delivery for workflow ${workflowId} (key ${idempotencyKey}) -> ${executionId}`);
+    }
 
     res.json({
       success: true,
-      message: 'Workflow triggered successfully',
+      message: duplicate ? 'Duplicate delivery, returning the original execution' : 'Workflow queued successfully',
       data: {
         executionId,
         workflowId,
+        duplicate,
         triggeredAt: new Date()
       }
     });
 
   } catch (error) {
+    if (error instanceof IdempotencyConflictError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error instanceof WorkflowValidationError) {
+      return res.status(422).json({
+        success: false,
+        message: error.message,
+        validation: error.validation
+      });
+    }
     console.error('Webhook workflow trigger error:', error);
     res.status(500).json({
       success: false,
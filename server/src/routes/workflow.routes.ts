@@ -1,11 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { body, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { WorkflowModel } from '../models/workflow.model';
 import { authenticate, authorize, checkOwnership } from '../middleware/auth.middleware';
 import { rateLimit } from '../middleware/rate-limit';
 import { cacheService } from '../services/cache.service';
 import { lockService } from '../services/lock.service';
 import { getCurrentRateLimits } from '../config/rate-limits';
+import { workflowVersionService } from '../services/workflow-version.service';
+import { workflowValidationService } from '../services/workflow-validation.service';
+import { ExecutionPriority } from '../types/workflow.types';
 
 const router = Router();
 
@@ -13,6 +16,36 @@ const router = Router();
 const rateLimits = getCurrentRateLimits();
 const workflowRateLimit = rateLimit(rateLimits.workflows);
 
+/**
+ * Load a workflow and check the user may read it, or edit it when `edit` is set
+ */
+const findAccessibleWorkflow = async (req: Request, res: Response, edit = false) => {
+  const workflow = await WorkflowModel.findById(req.params.id);
+  if (!workflow) {
+    res.status(404).json({
+      error: 'Workflow not found',
+      message: 'The requested workflow does not exist'
+    });
+    return null;
+  }
+
+  const userId = req.user?.userId || req.user?._id || req.user?.id;
+  const hasPermission = req.user?.role === 'admin' ||
+    workflow.permissions.owners.includes(userId) ||
+    workflow.permissions.editors.includes(userId) ||
+    (!edit && workflow.permissions.viewers.includes(userId));
+
+  if (!hasPermission) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: `You do not have permission to ${edit ? 'update' : 'access'} this workflow`
+    });
+    return null;
+  }
+
+  return workflow;
+};
+
 /**
  * Get all workflows with filtering and pagination
  */
@@ -174,6 +207,7 @@ router.post('/',
 
       const workflow = new WorkflowModel(workflowData);
       await workflow.save();
+      await workflowVersionService.publish(String(workflow._id), { userId, message: 'Created' });
 
       // Clear cache
       await cacheService.clearByPrefix('workflows');
@@ -241,7 +275,8 @@ router.get('/:id',
       });
 
       res.json({
-        workflow
+        workflow,
+        validation: workflowValidationService.validate(workflow)
       });
 
     } catch (error) {
@@ -268,7 +303,10 @@ router.put('/:id',
     body('status').optional().isIn(['draft', 'active', 'archived']).withMessage('Invalid status'),
     body('category').optional().isString().withMessage('Category must be a string'),
     body('tags').optional().isArray().withMessage('Tags must be an array'),
-    body('metadata').optional().isObject().withMessage('Metadata must be an object')
+    body('metadata').optional().isObject().withMessage('Metadata must be an object'),
+    body('settings.priority').optional().isIn(Object.values(ExecutionPriority)).withMessage('Invalid priority'),
+    body('settings.rateLimit.maxRuns').optional().isInt({ min: 0 }).withMessage('Rate limit runs must be 0 or more'),
+    body('settings.rateLimit.perSeconds').optional().isInt({ min: 1 }).withMessage('Rate limit window must be at least 1 second')
   ],
   async (req: Request, res: Response) => {
     try {
@@ -286,7 +324,8 @@ router.put('/:id',
       }
 
       const { id } = req.params;
-      const updateData = req.body;
+      // Versions are assigned when the change is published, never by the client
+      const { version: _version, _id, versionMessage, ...updateData } = req.body;
 
       // Find workflow and check permissions
       const workflow = await WorkflowModel.findById(id);
@@ -311,6 +350,24 @@ router.put('/:id',
         });
       }
 
+      // Check the definition as it will be after this update; errors only block activation
+      const validation = workflowValidationService.validate({
+        _id: workflow._id,
+        nodes: updateData.nodes ?? workflow.nodes,
+        edges: updateData.edges ?? workflow.edges
+      });
+      if (updateData.status === 'active' && workflow.status !== 'active' && !validation.valid) {
+        console.log('❌ Activation blocked by validation errors:', validation.errors.length);
+        return res.status(422).json({
+          error: 'Validation failed',
+          message: 'Workflow has errors and cannot be activated',
+          validation
+        });
+      }
+
+      // Snapshot the current definition first so workflows saved before versioning keep their history
+      await workflowVersionService.publish(id);
+
       // Update workflow
       const updatedWorkflow = await WorkflowModel.findByIdAndUpdate(
         id,
@@ -332,6 +389,9 @@ router.put('/:id',
         });
       }
 
+      // A changed definition becomes a new immutable version; running executions stay on theirs
+      const published = await workflowVersionService.publish(id, { userId, message: versionMessage });
+
       // Clear cache
       await cacheService.del(`workflow:${id}`);
       await cacheService.del(`workflows:user:${req.user._id}`);
@@ -339,6 +399,7 @@ router.put('/:id',
       console.log('✅ Workflow updated successfully:', {
         id: updatedWorkflow._id,
         name: updatedWorkflow.name,
+        version: published.version,
         nodesCount: updatedWorkflow.nodes?.length || 0,
         edgesCount: updatedWorkflow.edges?.length || 0
       });
@@ -346,12 +407,14 @@ router.put('/:id',
       // Convert _id to id for frontend compatibility
       const responseWorkflow = {
         ...updatedWorkflow.toObject(),
+        version: published.version,
         id: String(updatedWorkflow._id)
       }; 
 
       res.json({
         message: 'Workflow updated successfully',
-        workflow: responseWorkflow
+        workflow: responseWorkflow,
+        validation
       });
 
     } catch (error) {
@@ -364,4 +427,388 @@ router.put('/:id',
   }
 );
 
-export default router;
\ No newline at end of file
+/**
+ * Validate a workflow's saved definition
+ */
+router.get('/:id/validation',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res);
+      if (!workflow) return;
+
+      res.json(workflowValidationService.validate(workflow));
+
+    } catch (error) {
+      console.error('Validate workflow error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to validate workflow'
+      });
+    }
+  }
+);
+
+/**
+ * Pin a sample output to a node; mock runs return it instead of running the node
+ */
+router.put('/:id/pins/:nodeId',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID'),
+    param('nodeId').notEmpty().withMessage('Node ID is required'),
+    body('output').exists().withMessage('Output is required')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res, true);
+      if (!workflow) return;
+
+      const { nodeId } = req.params;
+      if (!workflow.nodes.some(node => node.id === nodeId)) {
+        return res.status(404).json({
+          error: 'Node not found',
+          message: `Workflow has no node ${nodeId}`
+        });
+      }
+
+      const pin = {
+        output: req.body.output,
+        pinnedAt: new Date(),
+        pinnedBy: req.user.userId || req.user._id || req.user.id
+      };
+      workflow.pinnedData = { ...(workflow.pinnedData || {}), [nodeId]: pin };
+      workflow.markModified('pinnedData');
+      await workflow.save();
+      await cacheService.del(`workflow:${req.params.id}`);
+
+      res.json({
+        message: `Output pinned to node ${nodeId}`,
+        nodeId,
+        pin
+      });
+
+    } catch (error) {
+      console.error('Pin node output error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to pin node output'
+      });
+    }
+  }
+);
+
+/**
+ * Remove the sample output pinned to a node
+ */
+router.delete('/:id/pins/:nodeId',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID'),
+    param('nodeId').notEmpty().withMessage('Node ID is required')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res, true);
+      if (!workflow) return;
+
+      const { nodeId } = req.params;
+      if (!workflow.pinnedData?.[nodeId]) {
+        return res.status(404).json({
+          error: 'Pin not found',
+          message: `Node ${nodeId} has no pinned output`
+        });
+      }
+
+      const { [nodeId]: _removed, ...pinnedData } = workflow.pinnedData;
+      workflow.pinnedData = pinnedData;
+      workflow.markModified('pinnedData');
+      await workflow.save();
+      await cacheService.del(`workflow:${req.params.id}`);
+
+      res.json({
+        message: `Pinned output removed from node ${nodeId}`,
+        nodeId
+      });
+
+    } catch (error) {
+      console.error('Unpin node output error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to remove pinned output'
+      });
+    }
+  }
+);
+
+/**
+ * List a workflow's versions, newest first
+ */
+router.get('/:id/versions',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res);
+      if (!workflow) return;
+
+      // Workflows saved before versioning get their first snapshot here
+      await workflowVersionService.publish(req.params.id);
+      const versions = await workflowVersionService.listVersions(req.params.id);
+
+      res.json({
+        currentVersion: versions[0]?.version ?? workflow.version,
+        versions
+      });
+
+    } catch (error) {
+      console.error('List workflow versions error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch workflow versions'
+      });
+    }
+  }
+);
+
+/**
+ * Diff two versions of a workflow
+ */
+router.get('/:id/versions/diff',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID'),
+    query('from').isInt({ min: 1 }).withMessage('From must be a version number'),
+    query('to').isInt({ min: 1 }).withMessage('To must be a version number')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res);
+      if (!workflow) return;
+
+      const diff = await workflowVersionService.diffVersions(
+        req.params.id,
+        parseInt(req.query.from as string),
+        parseInt(req.query.to as string)
+      );
+      if (!diff) {
+        return res.status(404).json({
+          error: 'Version not found',
+          message: 'One of the requested versions does not exist'
+        });
+      }
+
+      res.json({ diff });
+
+    } catch (error) {
+      console.error('Diff workflow versions error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to diff workflow versions'
+      });
+    }
+  }
+);
+
+/**
+ * Get a single version with its full definition
+ */
+router.get('/:id/versions/:version',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID'),
+    param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res);
+      if (!workflow) return;
+
+      const version = await workflowVersionService.getVersion(req.params.id, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({
+          error: 'Version not found',
+          message: `Workflow has no version ${req.params.version}`
+        });
+      }
+
+      res.json({ version });
+
+    } catch (error) {
+      console.error('Get workflow version error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch workflow version'
+      });
+    }
+  }
+);
+
+/**
+ * Restore an old version; it becomes live as a new version
+ */
+router.post('/:id/versions/:version/restore',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID'),
+    param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer'),
+    body('message').optional().isString().isLength({ max: 200 }).withMessage('Message must be under 200 characters')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res, true);
+      if (!workflow) return;
+
+      const version = parseInt(req.params.version);
+      if (!await workflowVersionService.getVersion(req.params.id, version)) {
+        return res.status(404).json({
+          error: 'Version not found',
+          message: `Workflow has no version ${version}`
+        });
+      }
+
+      const userId = req.user.userId || req.user._id || req.user.id;
+      const restored = await lockService.withLock(`workflow:${req.params.id}:versions`, () =>
+        workflowVersionService.restore(req.params.id, version, userId, req.body.message)
+      );
+      await cacheService.clearByPrefix('workflows');
+
+      console.log(`⏪ Workflow ${req.params.id} restored to version ${version} as version ${restored.version}`);
+
+      res.json({
+        message: `Version ${version} restored`,
+        version: restored
+      });
+
+    } catch (error) {
+      console.error('Restore workflow version error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to restore workflow version'
+      });
+    }
+  }
+);
+
+/**
+ * Roll the live workflow back to the version before the current one
+ */
+router.post('/:id/rollback',
+  authenticate,
+  workflowRateLimit,
+  [
+    param('id').isMongoId().withMessage('Invalid workflow ID')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const workflow = await findAccessibleWorkflow(req, res, true);
+      if (!workflow) return;
+
+      const userId = req.user.userId || req.user._id || req.user.id;
+      const current = await workflowVersionService.publish(req.params.id, { userId });
+      if (current.version <= 1) {
+        return res.status(409).json({
+          error: 'Nothing to roll back',
+          message: 'The workflow has no earlier version'
+        });
+      }
+
+      const restored = await lockService.withLock(`workflow:${req.params.id}:versions`, () =>
+        workflowVersionService.rollback(req.params.id, userId)
+      );
+      await cacheService.clearByPrefix('workflows');
+
+      console.log(`⏪ Workflow ${req.params.id} rolled back to version ${restored.restoredFrom} as version ${restored.version}`);
+
+      res.json({
+        message: `Rolled back to version ${restored.restoredFrom}`,
+        version: restored
+      });
+
+    } catch (error) {
+      console.error('Rollback workflow error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to roll back workflow'
+      });
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,10 @@ import app from './app';
 import { connectDatabase } from './database/connection';
 import { initializeWebSocket } from './services/websocket.service';
 import { performanceMonitor } from './services/performance-monitor.service';
+import { queueService } from './services/queue.service';
+import { EventBus } from './engine/event-bus';
+import { workflowEngine } from './engine/workflow-engine';
+import { config } from './config/config';
 
 const PORT = process.env.PORT || 3000;
 
@@ -11,6 +15,9 @@ async function startServer() {
     // Connect to database
     console.log('🔌 Connecting to database...');
     await connectDatabase();
+
+    // Workflows saved before concurrency limits were enforced keep running without one
+    await workflowEngine.migrateLegacyConcurrency();
     
     // Create HTTP server
     const httpServer = http.createServer(app);
@@ -19,6 +26,14 @@ async function startServer() {
     console.log('🔌 Initializing WebSocket service...');
     initializeWebSocket(httpServer);
     
+    // In queue mode workers run the steps; this process only enqueues and relays their events to clients
+    if (config.engine.mode === 'queue') {
+      console.log('📮 Engine in queue mode: executions run on workers (npm run worker)');
+      EventBus.getInstance().receiveForwardedEvents();
+    } else {
+      queueService.startProcessing();
+    }
+    
     // Setup performance monitoring alerts
     performanceMonitor.on('alert', (alert) => {
       console.warn(`🚨 Performance Alert: ${alert.message}`);
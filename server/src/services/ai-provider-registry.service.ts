@@ -0,0 +1,531 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import Groq from 'groq-sdk';
+import { HfInference } from '@huggingface/inference';
+import axios from 'axios';
+import { config } from '../config/config';
+
+/**
+ * A piece of AI work handed to a provider
+ */
+export interface AIProviderTask {
+  type: string;
+  prompt: string;
+  context?: any;
+  options?: any; // temperature and maxTokens are honoured by adapters that support them
+  signal?: AbortSignal;
+  onToken?: (token: string) => void; // Set to stream; the full text is still returned at the end
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // The provider didn't report usage, so it was estimated from the text
+}
+
+export interface AIProviderResponse {
+  result: string;
+  provider: string;
+  confidence?: number;
+  tokens?: number; // usage.totalTokens
+  model?: string;
+  usage?: AIUsage;
+  cost?: number; // USD, priced by AIService from the configured price table
+}
+
+/**
+ * What AIService needs from a provider. Register adapters with aiProviderRegistry to make them
+ * available for routing, fallbacks and explicit `aiProvider` selection on AI nodes.
+ */
+export interface AIProviderAdapter {
+  id: string;
+  name: string;
+  model: string;
+  endpoint: string;
+  dailyLimit: number; // Requests per day; 0 means unlimited
+  minuteLimit?: number; // Requests per minute; 0 or unset means unlimited
+  dailyTokenLimit?: number; // Tokens per day; 0 or unset means unlimited
+  supportsStreaming: boolean; // Adapters that don't stream ignore onToken
+  isConfigured(): boolean;
+  complete(task: AIProviderTask): Promise<AIProviderResponse>;
+}
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  name?: string;
+  baseUrl: string; // Up to and including the version segment, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  dailyLimit?: number;
+  minuteLimit?: number;
+  dailyTokenLimit?: number;
+  timeout?: number; // Milliseconds
+  maxTokens?: number; // Used when the task doesn't set one
+  temperature?: number;
+}
+
+/**
+ * Prompt sent to chat providers: the task prompt followed by its context and options
+ */
+export function buildTaskPrompt(task: AIProviderTask): string {
+  let prompt = task.prompt;
+
+  if (task.context) {
+    prompt += `\n\nContext: ${JSON.stringify(task.context, null, 2)}`;
+  }
+
+  if (task.options) {
+    prompt += `\n\nOptions: ${JSON.stringify(task.options, null, 2)}`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Usage reported by an OpenAI-style API, or estimated at ~4 characters per token when it reports none
+ */
+export function toUsage(reported: { prompt?: number; completion?: number; total?: number } | undefined, prompt: string, completion: string): AIUsage {
+  if (reported && (reported.total || reported.prompt || reported.completion)) {
+    const promptTokens = reported.prompt || 0;
+    const completionTokens = reported.completion || Math.max(0, (reported.total || 0) - promptTokens);
+    return { promptTokens, completionTokens, totalTokens: reported.total || promptTokens + completionTokens, estimated: false };
+  }
+
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+function openAIUsage(usage: any): { prompt?: number; completion?: number; total?: number } | undefined {
+  return usage ? { prompt: usage.prompt_tokens, completion: usage.completion_tokens, total: usage.total_tokens } : undefined;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: Ollama, vLLM, LM Studio, OpenRouter...
+ */
+export class OpenAICompatibleAdapter implements AIProviderAdapter {
+  id: string;
+  name: string;
+  model: string;
+  endpoint: string;
+  dailyLimit: number;
+  minuteLimit: number;
+  dailyTokenLimit: number;
+  supportsStreaming = true;
+
+  constructor(protected options: OpenAICompatibleOptions) {
+    this.id = options.id;
+    this.name = options.name || options.id;
+    this.model = options.model;
+    this.endpoint = options.baseUrl.replace(/\/+$/, '');
+    this.dailyLimit = options.dailyLimit ?? 0;
+    this.minuteLimit = options.minuteLimit ?? 0;
+    this.dailyTokenLimit = options.dailyTokenLimit ?? 0;
+  }
+
+  isConfigured(): boolean {
+    return true; // Self-hosted servers usually don't need a key
+  }
+
+  async complete(task: AIProviderTask): Promise<AIProviderResponse> {
+    const body = {
+      model: this.model,
+      messages: [
+        { role: 'user', content: buildTaskPrompt(task) }
+      ],
+      max_tokens: task.options?.maxTokens ?? this.options.maxTokens ?? 1000,
+      temperature: task.options?.temperature ?? this.options.temperature ?? 0.7
+    };
+    const requestConfig = {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+        ...this.options.headers
+      },
+      signal: task.signal,
+      timeout: this.options.timeout ?? 30000
+    };
+
+    try {
+      if (task.onToken) {
+        return await this.stream(body, requestConfig, task.onToken);
+      }
+
+      const response = await axios.post(`${this.endpoint}/chat/completions`, body, requestConfig);
+      const text = response.data.choices?.[0]?.message?.content || 'No response';
+      const usage = toUsage(openAIUsage(response.data.usage), body.messages[0].content, text);
+
+      return {
+        result: text,
+        provider: this.id,
+        confidence: 0.9,
+        tokens: usage.totalTokens,
+        model: response.data.model || this.model,
+        usage
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`${this.name} API error: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Read the completion as server-sent events, passing each content delta on as it arrives
+   */
+  private async stream(body: Record<string, any>, requestConfig: Record<string, any>, onToken: (token: string) => void): Promise<AIProviderResponse> {
+    const response = await axios.post(`${this.endpoint}/chat/completions`, {
+      ...body,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { ...requestConfig, responseType: 'stream' });
+
+    let text = '';
+    let model = this.model;
+    let reported: any;
+    let buffered = '';
+
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') continue;
+
+        const event = JSON.parse(payload);
+        const token = event.choices?.[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+        model = event.model || model;
+        reported = event.usage || reported; // Sent with the last chunk, if at all
+      }
+    }
+
+    const usage = toUsage(openAIUsage(reported), body.messages[0].content, text);
+    return {
+      result: text || 'No response',
+      provider: this.id,
+      confidence: 0.9,
+      tokens: usage.totalTokens,
+      model,
+      usage
+    };
+  }
+}
+
+/**
+ * Free OpenRouter models; without an OPENROUTER_API_KEY they answer with a simulated response
+ */
+class OpenRouterAdapter extends OpenAICompatibleAdapter {
+  constructor(options: Omit<OpenAICompatibleOptions, 'baseUrl' | 'apiKey' | 'headers'>, private simulation: string) {
+    super({
+      ...options,
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey: process.env.OPENROUTER_API_KEY,
+      headers: {
+        'HTTP-Referer': 'https://agentic-orchestration.app',
+        'X-Title': 'Agentic Orchestration Builder'
+      }
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  async complete(task: AIProviderTask): Promise<AIProviderResponse> {
+    if (!this.isConfigured()) {
+      console.log(`ℹ️ ${this.name} running in simulation mode (no OpenRouter key)`);
+      return {
+        result: `[${this.name} Simulation] Processing "${task.prompt}" - ${this.simulation}`,
+        provider: `${this.id}-simulation`,
+        confidence: 0.75,
+        tokens: 0, // Nothing was sent to a provider
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false }
+      };
+    }
+    return super.complete(task);
+  }
+}
+
+// Gemini implementation (Google AI Studio - FREE)
+class GeminiAdapter implements AIProviderAdapter {
+  id = 'gemini';
+  name = 'Google Gemini 2.5 Flash';
+  model = 'gemini-2.5-flash';
+  endpoint = 'https://generativelanguage.googleapis.com';
+  dailyLimit = 1500;
+  minuteLimit = 10;
+  supportsStreaming = true;
+  private client = process.env.GOOGLE_AI_API_KEY ? new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY) : null;
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async complete(task: AIProviderTask): Promise<AIProviderResponse> {
+    if (!this.client) {
+      throw new Error('Gemini not initialized - add GOOGLE_AI_API_KEY to .env');
+    }
+
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const prompt = buildTaskPrompt(task);
+    let text: string;
+    let metadata: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } | undefined;
+    if (task.onToken) {
+      const result = await model.generateContentStream(prompt, { signal: task.signal });
+      text = '';
+      for await (const chunk of result.stream) {
+        const token = chunk.text();
+        if (token) {
+          text += token;
+          task.onToken(token);
+        }
+      }
+      metadata = (await result.response).usageMetadata;
+    } else {
+      const result = await model.generateContent(prompt, { signal: task.signal });
+      const response = await result.response;
+      text = response.text();
+      metadata = response.usageMetadata;
+    }
+
+    const usage = toUsage({
+      prompt: metadata?.promptTokenCount,
+      completion: metadata?.candidatesTokenCount,
+      total: metadata?.totalTokenCount
+    }, prompt, text);
+    return {
+      result: text,
+      provider: this.id,
+      confidence: 0.9,
+      tokens: usage.totalTokens,
+      model: this.model,
+      usage
+    };
+  }
+}
+
+// Groq implementation (FREE with high speed)
+class GroqAdapter implements AIProviderAdapter {
+  id = 'groq';
+  name = 'Groq Llama 3.1';
+  model = 'llama-3.1-8b-instant';
+  endpoint = 'https://api.groq.com';
+  dailyLimit = 10000;
+  minuteLimit = 30;
+  supportsStreaming = true;
+  private client = process.env.GROQ_API_KEY ? new Groq({ apiKey: process.env.GROQ_API_KEY }) : null;
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async complete(task: AIProviderTask): Promise<AIProviderResponse> {
+    if (!this.client) {
+      throw new Error('Groq not initialized - add GROQ_API_KEY to .env');
+    }
+
+    const body = {
+      messages: [
+        { role: 'user' as const, content: buildTaskPrompt(task) }
+      ],
+      model: this.model,
+      max_tokens: 1024,
+      temperature: 0.7
+    };
+
+    if (task.onToken) {
+      const stream = await this.client.chat.completions.create({ ...body, stream: true }, { signal: task.signal });
+      let text = '';
+      let reported: any;
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          text += token;
+          task.onToken(token);
+        }
+        reported = chunk.x_groq?.usage || reported;
+      }
+      const usage = toUsage(openAIUsage(reported), body.messages[0].content, text);
+      return {
+        result: text,
+        provider: this.id,
+        confidence: 0.85,
+        tokens: usage.totalTokens,
+        model: this.model,
+        usage
+      };
+    }
+
+    const completion = await this.client.chat.completions.create(body, { signal: task.signal });
+    const text = completion.choices[0]?.message?.content || '';
+    const usage = toUsage(openAIUsage(completion.usage), body.messages[0].content, text);
+
+    return {
+      result: text,
+      provider: this.id,
+      confidence: 0.85,
+      tokens: usage.totalTokens,
+      model: this.model,
+      usage
+    };
+  }
+}
+
+// Hugging Face implementation (FREE specialized models)
+class HuggingFaceAdapter implements AIProviderAdapter {
+  id = 'huggingface';
+  name = 'HuggingFace Inference';
+  model = 'facebook/bart-large-cnn';
+  endpoint = 'https://api-inference.huggingface.co';
+  dailyLimit = 1000;
+  supportsStreaming = false;
+  private client = process.env.HUGGINGFACE_API_KEY ? new HfInference(process.env.HUGGINGFACE_API_KEY) : null;
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  async complete(task: AIProviderTask): Promise<AIProviderResponse> {
+    if (!this.client) {
+      throw new Error('Hugging Face not initialized - add HUGGINGFACE_API_KEY to .env');
+    }
+
+    let result: any;
+
+    try {
+      switch (task.type) {
+        case 'sentiment_analysis':
+          result = await this.client.textClassification({
+            model: 'cardiffnlp/twitter-roberta-base-sentiment-latest',
+            inputs: task.prompt
+          }, { signal: task.signal });
+          result = `Sentiment: ${result[0].label} (${Math.round(result[0].score * 100)}% confidence)`;
+          break;
+        case 'question_answering':
+          // For Q&A, expect context in task options
+          const context = task.options?.context || task.prompt;
+          const question = task.options?.question || 'What is this about?';
+          result = await this.client.questionAnswering({
+            model: 'deepset/roberta-base-squad2',
+            inputs: { question, context }
+          }, { signal: task.signal });
+          result = result.answer;
+          break;
+        default:
+          // Summarization also serves as the default for general text processing
+          result = await this.client.summarization({
+            model: this.model,
+            inputs: task.prompt,
+            parameters: { max_length: 100 }
+          }, { signal: task.signal });
+          result = result.summary_text;
+      }
+
+      // The inference API doesn't report usage
+      const text = typeof result === 'string' ? result : JSON.stringify(result);
+      const usage = toUsage(undefined, task.prompt, text);
+      return {
+        result: text,
+        provider: this.id,
+        confidence: 0.8,
+        tokens: usage.totalTokens,
+        usage
+      };
+    } catch (error) {
+      throw new Error(`HuggingFace API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * The AI providers available to AIService, keyed by id. Built-in providers and the ones listed in
+ * AI_PROVIDERS are registered at startup; more can be registered at runtime, e.g. by tests.
+ */
+class AIProviderRegistry {
+  private adapters: Map<string, AIProviderAdapter> = new Map();
+
+  constructor() {
+    this.registerBuiltIns();
+    this.registerFromConfig(config.aiProviders);
+  }
+
+  register(adapter: AIProviderAdapter) {
+    if (this.adapters.has(adapter.id)) {
+      console.warn(`⚠️ AI provider ${adapter.id} registered twice, keeping the latest`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(id: string) {
+    this.adapters.delete(id);
+  }
+
+  get(id: string): AIProviderAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  list(): AIProviderAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  private registerBuiltIns() {
+    this.register(new GeminiAdapter());
+    this.register(new GroqAdapter());
+    this.register(new HuggingFaceAdapter());
+    this.register(new OpenRouterAdapter(
+      { id: 'qwen', name: 'Qwen 2.5 72B (OpenRouter)', model: 'qwen/qwen-2.5-72b-instruct:free', maxTokens: 800, timeout: 20000, dailyLimit: 1000, minuteLimit: 20 },
+      'Qwen would provide multilingual coding assistance here.'
+    ));
+    this.register(new OpenRouterAdapter(
+      { id: 'glm4', name: 'GLM-4.5-Air (OpenRouter)', model: 'z-ai/glm-4.5-air:free', maxTokens: 500, timeout: 15000, dailyLimit: 1000, minuteLimit: 20 },
+      'GLM-4 would provide advanced reasoning here.'
+    ));
+    this.register(new OpenRouterAdapter(
+      { id: 'kimi', name: 'Kimi Dev 72B (OpenRouter)', model: 'moonshotai/kimi-dev-72b:free', maxTokens: 1000, timeout: 20000, dailyLimit: 1000, minuteLimit: 20 },
+      'Kimi would provide long-context analysis here.'
+    ));
+
+    const configured = this.list().filter(adapter => adapter.isConfigured()).map(adapter => adapter.name);
+    console.log(`🤖 AI providers configured: ${configured.join(', ') || 'none (simulation only)'}`);
+  }
+
+  /**
+   * Register the OpenAI-compatible providers listed in AI_PROVIDERS; invalid entries are skipped
+   */
+  private registerFromConfig(raw: string) {
+    if (!raw.trim()) return;
+
+    let entries: any[];
+    try {
+      entries = JSON.parse(raw);
+      if (!Array.isArray(entries)) {
+        throw new Error('expected a JSON array');
+      }
+    } catch (error) {
+      console.error(`❌ Ignoring AI_PROVIDERS: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry?.id || !entry.baseUrl || !entry.model) {
+        console.error('❌ Skipping AI provider without id, baseUrl and model:', entry);
+        continue;
+      }
+      this.register(new OpenAICompatibleAdapter({
+        ...entry,
+        apiKey: entry.apiKey || (entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined)
+      }));
+      console.log(`✅ AI provider ${entry.id} registered (${entry.baseUrl}, ${entry.model})`);
+    }
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
@@ -0,0 +1,186 @@
+import Redis from 'ioredis';
+import { config } from '../config/config';
+import { aiProviderRegistry } from './ai-provider-registry.service';
+
+export type QuotaWindow = 'minute' | 'daily' | 'dailyTokens';
+
+export interface QuotaLimits {
+  daily: number; // Requests per UTC day
+  minute: number; // Requests per minute
+  dailyTokens: number; // Tokens per UTC day
+}
+
+export interface QuotaStatus {
+  provider: string;
+  limits: QuotaLimits; // 0 means unlimited
+  used: QuotaLimits;
+  remaining: Record<QuotaWindow, number | null>; // null when unlimited
+  resetsAt: { minute: string; daily: string };
+  exhausted: QuotaWindow | null; // The first window with nothing left
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Takes one request from the minute and day windows, unless one of them (or the day's tokens) is used up.
+// Returns 0 when taken, otherwise 1, 2 or 3 for the exhausted minute, daily or token window.
+const CONSUME_SCRIPT = `
+  local minute = tonumber(redis.call('GET', KEYS[1]) or '0')
+  local daily = tonumber(redis.call('GET', KEYS[2]) or '0')
+  local tokens = tonumber(redis.call('GET', KEYS[3]) or '0')
+  if tonumber(ARGV[1]) > 0 and minute >= tonumber(ARGV[1]) then return 1 end
+  if tonumber(ARGV[2]) > 0 and daily >= tonumber(ARGV[2]) then return 2 end
+  if tonumber(ARGV[3]) > 0 and tokens >= tonumber(ARGV[3]) then return 3 end
+  redis.call('INCR', KEYS[1])
+  redis.call('EXPIRE', KEYS[1], ARGV[4])
+  redis.call('INCR', KEYS[2])
+  redis.call('EXPIRE', KEYS[2], ARGV[5])
+  return 0
+`;
+
+const EXHAUSTED_WINDOWS: Record<number, QuotaWindow> = { 1: 'minute', 2: 'daily', 3: 'dailyTokens' };
+
+/**
+ * Provider quota counters in Redis, shared by every process and AIService instance. Windows are fixed:
+ * requests per minute, and requests and tokens per UTC day, so counters reset on their own.
+ */
+class AIQuotaService {
+  private redis: Redis;
+  private overrides: Record<string, Partial<QuotaLimits>> = {};
+
+  constructor() {
+    // Fail fast while Redis is down instead of queueing, so AI calls aren't held up by quota checks
+    this.redis = new Redis(config.redis.url, { maxRetriesPerRequest: 1, enableOfflineQueue: false });
+    this.redis.on('error', (error) => {
+      console.error('❌ AI quota Redis error:', error.message);
+    });
+    this.overrides = this.parseOverrides(config.aiQuotaLimits);
+  }
+
+  /**
+   * The provider's own limits with AI_QUOTA_LIMITS applied on top
+   */
+  getLimits(provider: string): QuotaLimits {
+    const adapter = aiProviderRegistry.get(provider);
+    const override = this.overrides[provider] || {};
+    return {
+      daily: override.daily ?? adapter?.dailyLimit ?? 0,
+      minute: override.minute ?? adapter?.minuteLimit ?? 0,
+      dailyTokens: override.dailyTokens ?? adapter?.dailyTokenLimit ?? 0
+    };
+  }
+
+  /**
+   * Take one request from the provider's quota. Returns the exhausted window instead when there's none
+   * left. If Redis can't be reached the request is let through, as failing every AI node would be worse.
+   */
+  async tryConsume(provider: string): Promise<{ allowed: boolean; exhausted?: QuotaWindow }> {
+    const limits = this.getLimits(provider);
+    const now = Date.now();
+
+    try {
+      const result = Number(await this.redis.eval(
+        CONSUME_SCRIPT,
+        3,
+        ...this.keys(provider, now),
+        limits.minute,
+        limits.daily,
+        limits.dailyTokens,
+        2 * MINUTE_MS / 1000,
+        2 * DAY_MS / 1000
+      ));
+      return result === 0 ? { allowed: true } : { allowed: false, exhausted: EXHAUSTED_WINDOWS[result] };
+    } catch (error) {
+      console.warn(`⚠️ Could not check AI quota for ${provider}, allowing the request:`, error instanceof Error ? error.message : error);
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Count the tokens a completed request used against the provider's daily token window
+   */
+  async recordTokens(provider: string, tokens: number): Promise<void> {
+    if (!tokens || tokens <= 0) return;
+
+    const key = this.keys(provider, Date.now())[2];
+    try {
+      await this.redis.multi().incrby(key, Math.round(tokens)).expire(key, 2 * DAY_MS / 1000).exec();
+    } catch (error) {
+      console.warn(`⚠️ Could not record AI token usage for ${provider}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Whether the provider has a request left in every window; used by routing to skip exhausted providers
+   */
+  async hasCapacity(provider: string): Promise<boolean> {
+    const status = await this.getStatus(provider);
+    return status.exhausted === null;
+  }
+
+  async getStatus(provider: string): Promise<QuotaStatus> {
+    const limits = this.getLimits(provider);
+    const now = Date.now();
+
+    let used: QuotaLimits = { minute: 0, daily: 0, dailyTokens: 0 };
+    try {
+      const [minute, daily, dailyTokens] = await this.redis.mget(...this.keys(provider, now));
+      used = { minute: Number(minute) || 0, daily: Number(daily) || 0, dailyTokens: Number(dailyTokens) || 0 };
+    } catch (error) {
+      console.warn(`⚠️ Could not read AI quota for ${provider}:`, error instanceof Error ? error.message : error);
+    }
+
+    const remaining = (window: QuotaWindow) => limits[window] > 0 ? Math.max(0, limits[window] - used[window]) : null;
+    const windows: QuotaWindow[] = ['minute', 'daily', 'dailyTokens'];
+
+    return {
+      provider,
+      limits,
+      used,
+      remaining: { minute: remaining('minute'), daily: remaining('daily'), dailyTokens: remaining('dailyTokens') },
+      resetsAt: {
+        minute: new Date((Math.floor(now / MINUTE_MS) + 1) * MINUTE_MS).toISOString(),
+        daily: new Date((Math.floor(now / DAY_MS) + 1) * DAY_MS).toISOString()
+      },
+      exhausted: windows.find(window => remaining(window) === 0) || null
+    };
+  }
+
+  // Minute requests, daily requests and daily tokens, keyed by the window they count for
+  private keys(provider: string, now: number): [string, string, string] {
+    const minute = Math.floor(now / MINUTE_MS);
+    const day = new Date(now).toISOString().slice(0, 10);
+    return [
+      `ai-quota:${provider}:requests:${minute}`,
+      `ai-quota:${provider}:requests:${day}`,
+      `ai-quota:${provider}:tokens:${day}`
+    ];
+  }
+
+  private parseOverrides(raw: string): Record<string, Partial<QuotaLimits>> {
+    if (!raw.trim()) return {};
+
+    try {
+      const table = JSON.parse(raw);
+      if (!table || typeof table !== 'object' || Array.isArray(table)) {
+        throw new Error('expected an object keyed by provider id');
+      }
+
+      const overrides: Record<string, Partial<QuotaLimits>> = {};
+      for (const [provider, limits] of Object.entries<any>(table)) {
+        overrides[provider] = {};
+        for (const window of ['daily', 'minute', 'dailyTokens'] as const) {
+          if (limits?.[window] !== undefined) {
+            overrides[provider][window] = Math.max(0, Number(limits[window]) || 0);
+          }
+        }
+      }
+      return overrides;
+    } catch (error) {
+      console.error(`❌ Ignoring AI_QUOTA_LIMITS: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+      return {};
+    }
+  }
+}
+
+export const aiQuotaService = new AIQuotaService();
@@ -0,0 +1,227 @@
+import { config } from '../config/config';
+import { AIUsageModel } from '../models/ai-usage.model';
+import { WorkflowModel } from '../models/workflow.model';
+import { AIUsage } from './ai-provider-registry.service';
+
+export interface TokenPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+export interface AIUsageEntry {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  branchId?: string;
+  position: number; // Index of the node run in the execution history
+  provider: string;
+  model?: string;
+  calls?: number;
+  usage: AIUsage;
+  cost: number;
+}
+
+export interface BudgetAlert {
+  budget: 'daily' | 'monthly';
+  level: 'warning' | 'exceeded';
+  limit: number;
+  spent: number;
+  ratio: number;
+  message: string;
+}
+
+const USER_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Prices AI token usage and keeps the spend ledger that execution, workflow and user totals roll up from
+ */
+class CostLedgerService {
+  private pricing: Record<string, TokenPrice> = {};
+  private workflowUsers = new Map<string, { userId: string; expires: number }>();
+
+  constructor() {
+    this.loadPricing(config.aiCost.pricing);
+  }
+
+  /**
+   * Replace the price table. Keys are "provider/model", "provider" or "*" for everything else.
+   */
+  loadPricing(raw: string | Record<string, TokenPrice>): void {
+    if (!raw) {
+      this.pricing = {};
+      return;
+    }
+
+    try {
+      const table = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      if (!table || typeof table !== 'object' || Array.isArray(table)) {
+        throw new Error('expected an object of { input, output } prices');
+      }
+
+      const pricing: Record<string, TokenPrice> = {};
+      for (const [key, price] of Object.entries<any>(table)) {
+        pricing[key] = { input: Number(price?.input) || 0, output: Number(price?.output) || 0 };
+      }
+      this.pricing = pricing;
+    } catch (error) {
+      console.error('❌ Invalid AI_PRICING, AI usage will be recorded at no cost:', error instanceof Error ? error.message : error);
+      this.pricing = {};
+    }
+  }
+
+  getPrice(provider: string, model?: string): TokenPrice {
+    return (model && this.pricing[`${provider}/${model}`]) || this.pricing[provider] || this.pricing['*'] || { input: 0, output: 0 };
+  }
+
+  /**
+   * Cost in USD of one model call
+   */
+  priceUsage(provider: string, model: string | undefined, usage: AIUsage): number {
+    const price = this.getPrice(provider, model);
+    const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+    return Math.round(cost * 1e8) / 1e8;
+  }
+
+  /**
+   * Add a node run to the ledger; a repeated entry for the same run is ignored
+   */
+  async record(entry: AIUsageEntry): Promise<void> {
+    const userId = await this.resolveUserId(entry.workflowId);
+
+    try {
+      await AIUsageModel.create({
+        key: `${entry.executionId}:${entry.branchId || 'main'}:${entry.nodeId}:${entry.position}`,
+        executionId: entry.executionId,
+        workflowId: entry.workflowId,
+        userId,
+        nodeId: entry.nodeId,
+        branchId: entry.branchId,
+        provider: entry.provider,
+        modelId: entry.model,
+        calls: entry.calls || 1,
+        promptTokens: entry.usage.promptTokens,
+        completionTokens: entry.usage.completionTokens,
+        totalTokens: entry.usage.totalTokens,
+        estimated: entry.usage.estimated,
+        cost: entry.cost
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error; // Duplicate key: a re-delivered step already recorded it
+    }
+  }
+
+  /**
+   * Spend over the last `days` days by day, workflow, user and provider, with budget alerts
+   */
+  async getSpendSummary(days: number = 30) {
+    const now = new Date();
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const totals = {
+      cost: { $sum: '$cost' },
+      promptTokens: { $sum: '$promptTokens' },
+      completionTokens: { $sum: '$completionTokens' },
+      totalTokens: { $sum: '$totalTokens' },
+      calls: { $sum: '$calls' }
+    };
+
+    const [result] = await AIUsageModel.aggregate([
+      { $match: { timestamp: { $gte: since < startOfMonth ? since : startOfMonth } } },
+      {
+        $facet: {
+          total: [{ $match: { timestamp: { $gte: since } } }, { $group: { _id: null, ...totals } }],
+          timeline: [
+            { $match: { timestamp: { $gte: since } } },
+            { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } }, ...totals } },
+            { $sort: { _id: 1 } }
+          ],
+          byWorkflow: [
+            { $match: { timestamp: { $gte: since } } },
+            { $group: { _id: '$workflowId', executions: { $addToSet: '$executionId' }, ...totals } },
+            { $sort: { cost: -1, totalTokens: -1 } },
+            { $limit: 20 },
+            { $lookup: { from: 'workflows', localField: '_id', foreignField: '_id', as: 'workflow' } },
+            {
+              $project: {
+                workflowId: '$_id',
+                _id: 0,
+                name: { $arrayElemAt: ['$workflow.name', 0] },
+                executions: { $size: '$executions' },
+                cost: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, calls: 1
+              }
+            }
+          ],
+          byUser: [
+            { $match: { timestamp: { $gte: since } } },
+            { $group: { _id: '$userId', ...totals } },
+            { $sort: { cost: -1, totalTokens: -1 } },
+            { $limit: 20 },
+            { $project: { userId: '$_id', _id: 0, cost: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, calls: 1 } }
+          ],
+          byProvider: [
+            { $match: { timestamp: { $gte: since } } },
+            { $group: { _id: '$provider', ...totals } },
+            { $sort: { cost: -1, totalTokens: -1 } },
+            { $project: { provider: '$_id', _id: 0, cost: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, calls: 1 } }
+          ],
+          today: [{ $match: { timestamp: { $gte: startOfDay } } }, { $group: { _id: null, cost: { $sum: '$cost' } } }],
+          month: [{ $match: { timestamp: { $gte: startOfMonth } } }, { $group: { _id: null, cost: { $sum: '$cost' } } }]
+        }
+      }
+    ]);
+
+    const { _id, ...total } = result.total[0] || { _id: null, cost: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, calls: 0 };
+    const spentToday = result.today[0]?.cost || 0;
+    const spentThisMonth = result.month[0]?.cost || 0;
+
+    return {
+      days,
+      total,
+      timeline: result.timeline.map(({ _id: date, ...day }: any) => ({ date, ...day })),
+      byWorkflow: result.byWorkflow,
+      byUser: result.byUser,
+      byProvider: result.byProvider,
+      budgets: {
+        daily: { limit: config.aiCost.dailyBudget, spent: spentToday },
+        monthly: { limit: config.aiCost.monthlyBudget, spent: spentThisMonth },
+        alertThreshold: config.aiCost.alertThreshold
+      },
+      alerts: [
+        this.checkBudget('daily', config.aiCost.dailyBudget, spentToday),
+        this.checkBudget('monthly', config.aiCost.monthlyBudget, spentThisMonth)
+      ].filter((alert): alert is BudgetAlert => alert !== null)
+    };
+  }
+
+  private checkBudget(budget: 'daily' | 'monthly', limit: number, spent: number): BudgetAlert | null {
+    if (!limit || limit <= 0) return null;
+
+    const ratio = spent / limit;
+    if (ratio < config.aiCost.alertThreshold) return null;
+
+    const level = ratio >= 1 ? 'exceeded' : 'warning';
+    const period = budget === 'daily' ? 'today' : 'this month';
+    const message = level === 'exceeded'
+      ? `AI spend ${period} ($${spent.toFixed(2)}) exceeded the ${budget} budget of $${limit.toFixed(2)}`
+      : `AI spend ${period} ($${spent.toFixed(2)}) reached ${Math.round(ratio * 100)}% of the ${budget} budget of $${limit.toFixed(2)}`;
+
+    return { budget, level, limit, spent, ratio, message };
+  }
+
+  /**
+   * Spend is attributed to the workflow's creator, or its first owner
+   */
+  private async resolveUserId(workflowId: string): Promise<string> {
+    const cached = this.workflowUsers.get(workflowId);
+    if (cached && cached.expires > Date.now()) return cached.userId;
+
+    const workflow = await WorkflowModel.findById(workflowId).select('metadata.creator permissions.owners').lean();
+    const userId = workflow?.metadata?.creator || workflow?.permissions?.owners?.[0] || 'unknown';
+    this.workflowUsers.set(workflowId, { userId, expires: Date.now() + USER_CACHE_TTL_MS });
+    return userId;
+  }
+}
+
+export const costLedgerService = new CostLedgerService();
@@ -1,4 +1,5 @@
 import { Readable } from 'stream';
+import { ExpressionEvaluator } from '../utils/expression-evaluator';
 
 // Simple CSV parser implementation
 class SimpleCSVParser {
@@ -487,9 +488,9 @@ export class DataTransformationService {
   }
 
   /**
-   * Join two datasets
+   * Join two datasets (also used by merge nodes to join branch outputs)
    */
-  private joinDatasets(data: any, config: {
+  joinDatasets(data: any, config: {
     joinWith: any[];
     joinKey: string;
     joinType: 'inner' | 'left' | 'right' | 'full';
@@ -657,34 +658,17 @@ export class DataTransformationService {
       return this.transformFunctions.get(transform)!(value, record);
     }
 
-    // Simple expression evaluation
+    // Expression with the current field available as `value`
     try {
-      return this.evaluateExpression(transform.replace('value', JSON.stringify(value)), record);
+      return this.evaluateExpression(transform, { ...record, value });
     } catch {
       return value;
     }
   }
 
   private evaluateExpression(expression: string, context: any): any {
-    // Simple and safe expression evaluator
-    // Replace field references with actual values
-    let processedExpression = expression;
-    
-    for (const [key, value] of Object.entries(context)) {
-      const regex = new RegExp(`\\b${key}\\b`, 'g');
-      processedExpression = processedExpression.replace(regex, JSON.stringify(value));
-    }
-
-    // Only allow safe operations
-    if (!/^[\d\s+\-*/()\.,'"]+$/.test(processedExpression.replace(/[a-zA-Z_][a-zA-Z0-9_]*/g, ''))) {
-      throw new Error('Unsafe expression');
-    }
-
-    try {
-      return Function(`"use strict"; return (${processedExpression})`)();
-    } catch {
-      throw new Error('Invalid expression');
-    }
+    // Sandboxed evaluation shared with decision nodes and edge conditions
+    return ExpressionEvaluator.evaluate(expression, context);
   }
 
   private convertType(value: any, type?: string): any {
@@ -21,6 +21,7 @@ export interface EmailInboundFilter {
 
 export interface InboundEmail {
   id: string;
+  messageId?: string; // RFC 822 Message-ID header
   from: string;
   to: string[];
   subject: string;
@@ -118,6 +119,7 @@ export class EmailInboundService {
 
         emails.push({
           id: String(uid),
+          messageId: parsed.messageId,
           from: parsed.from?.text || '',
           to: parsed.to?.value?.map(value => value.address) || [],
           subject: parsed.subject || '',
@@ -205,6 +207,7 @@ export class EmailInboundService {
           }
           messages.push({
             id: String(msgNumber),
+            messageId: parsed.messageId,
             from: parsed.from?.text || '',
             to: parsed.to?.value?.map(value => value.address) || [],
             subject: parsed.subject || '',
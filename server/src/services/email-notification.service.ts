@@ -3,6 +3,7 @@ import { GmailService, EmailMessage } from './gmail.service';
 import { EventBus } from '../engine/event-bus';
 import { EmailEventModel } from '../models/email-event.model';
 import { EmailUnsubscribeModel } from '../models/email-unsubscribe.model';
+import { TemplateRenderer } from '../utils/template-renderer';
 
 export interface EmailTemplate {
   id: string;
@@ -169,9 +170,9 @@ export class EmailNotificationService {
       };
 
       // Process template
-      const processedSubject = this.processTemplate(template.subject, variables);
-      let processedHtmlBody = this.processTemplate(template.htmlBody, variables);
-      const processedTextBody = template.textBody ? this.processTemplate(template.textBody, variables) : undefined;
+      const processedSubject = TemplateRenderer.render(template.subject, variables);
+      let processedHtmlBody = TemplateRenderer.render(template.htmlBody, variables);
+      const processedTextBody = template.textBody ? TemplateRenderer.render(template.textBody, variables) : undefined;
 
       const trackingId = uuidv4();
       processedHtmlBody = this.applyTracking(processedHtmlBody, {
@@ -579,17 +580,6 @@ export class EmailNotificationService {
     });
   }
 
-  private processTemplate(template: string, variables: Record<string, any>): string {
-    let processed = template;
-    
-    for (const [key, value] of Object.entries(variables)) {
-      const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
-      processed = processed.replace(regex, String(value));
-    }
-
-    return processed;
-  }
-
   private evaluateConditions(conditions: any[], eventData: Record<string, any>): boolean {
     return conditions.every(condition => {
       const value = eventData[condition.field];
@@ -1,15 +1,48 @@
 import { EventType } from '../types/workflow.types';
 import { EventLogModel } from '../models/event-log.model';
+import { diffState, applyStatePatch, StatePatchOperation } from '../utils/state-patch';
 
 export interface IEventLog {
-  type: EventType;
+  type: EventType | string;
   executionId: string;
   nodeId?: string;
   data?: Record<string, any>;
   timestamp?: Date;
 }
 
+/**
+ * An engine event as stored in an execution's append-only log
+ */
+export interface ExecutionLogEntry {
+  sequence: number;
+  type: string;
+  executionId: string;
+  workflowId?: string;
+  nodeId?: string;
+  branchId?: string;
+  data?: Record<string, any>;
+  timestamp: Date;
+}
+
+// A full snapshot is written at least this often so rebuilding a state never folds more patches than this
+const SNAPSHOT_INTERVAL = 50;
+const MAX_TRACKED_EXECUTIONS = 1000;
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Thrown when an execution's log has a hole, so states after it can't be rebuilt
+ */
+export class EventLogGapError extends Error {
+  constructor(executionId: string, public sequence: number) {
+    super(`Event log of execution ${executionId} is missing entry ${sequence}`);
+    this.name = 'EventLogGapError';
+  }
+}
+
 export class EventLogService {
+  // State each execution was left in by the last event this process logged for it, the base for the next patch
+  private lastStates: Map<string, { sequence: number; state: Record<string, any> }> = new Map();
+
   async logEvent(event: IEventLog): Promise<void> {
     try {
       await EventLogModel.create({
@@ -22,6 +55,85 @@ export class EventLogService {
     }
   }
 
+  /**
+   * Append an engine event with the execution state it left behind. The state is captured before this
+   * returns; the write itself happens in the background and never fails the execution.
+   */
+  appendExecutionEvent(entry: Omit<ExecutionLogEntry, 'timestamp'>, state: Record<string, any>): void {
+    const current = JSON.parse(JSON.stringify(state));
+    const previous = this.lastStates.get(entry.executionId);
+
+    // Patch against the previous event only when this process logged it; another worker may have moved the run on
+    const record: Record<string, any> = {
+      ...entry,
+      data: entry.data ? JSON.parse(JSON.stringify(entry.data)) : undefined,
+      timestamp: new Date()
+    };
+    if (previous && previous.sequence === entry.sequence - 1 && entry.sequence % SNAPSHOT_INTERVAL !== 0) {
+      record.patch = diffState(previous.state, current);
+    } else {
+      record.snapshot = current;
+    }
+
+    this.lastStates.delete(entry.executionId);
+    if (!FINISHED_STATUSES.includes(current.status)) {
+      this.lastStates.set(entry.executionId, { sequence: entry.sequence, state: current });
+      if (this.lastStates.size > MAX_TRACKED_EXECUTIONS) {
+        this.lastStates.delete(this.lastStates.keys().next().value as string);
+      }
+    }
+
+    EventLogModel.create(record).catch(error => {
+      console.error(`Failed to log event ${entry.type} #${entry.sequence} of execution ${entry.executionId}:`, error);
+      // Start over from a snapshot rather than patch against an entry that isn't stored
+      if (this.lastStates.get(entry.executionId)?.sequence === entry.sequence) {
+        this.lastStates.delete(entry.executionId);
+      }
+    });
+  }
+
+  /**
+   * Events of an execution in log order, without the state they carry
+   */
+  async getExecutionTimeline(executionId: string): Promise<ExecutionLogEntry[]> {
+    return await EventLogModel.find({ executionId, sequence: { $exists: true } })
+      .sort({ sequence: 1 })
+      .select('-_id -__v -snapshot -patch')
+      .lean() as any;
+  }
+
+  /**
+   * Rebuild the execution state as it was right after the event with the given sequence
+   */
+  async getStateAt(executionId: string, sequence: number): Promise<{ event: ExecutionLogEntry; state: Record<string, any> } | null> {
+    const base = await EventLogModel.findOne({ executionId, sequence: { $lte: sequence }, snapshot: { $exists: true } })
+      .sort({ sequence: -1 })
+      .lean();
+    if (!base) {
+      return null;
+    }
+
+    const entries = await EventLogModel.find({ executionId, sequence: { $gt: base.sequence, $lte: sequence } })
+      .sort({ sequence: 1 })
+      .lean();
+
+    let state = base.snapshot;
+    let last: any = base;
+    for (const entry of entries) {
+      if (entry.sequence !== last.sequence + 1) {
+        throw new EventLogGapError(executionId, last.sequence + 1);
+      }
+      state = applyStatePatch(state, (entry.patch || []) as StatePatchOperation[]);
+      last = entry;
+    }
+    if (last.sequence !== sequence) {
+      return null;
+    }
+
+    const { snapshot, patch, _id, __v, ...event } = last;
+    return { event: event as ExecutionLogEntry, state };
+  }
+
   async getExecutionEvents(executionId: string): Promise<IEventLog[]> {
     return await EventLogModel.find({ executionId }).sort({ timestamp: 1 }) as any;
   }
@@ -35,6 +147,8 @@ export class EventLogService {
     if (toTimestamp) {
       query.timestamp = { $lte: toTimestamp };
     }
-    return await EventLogModel.find(query).sort({ timestamp: 1 }) as any;
+    return await EventLogModel.find(query).sort({ timestamp: 1, sequence: 1 }) as any;
   }
-}
\ No newline at end of file
+}
+
+export const eventLogService = new EventLogService();
@@ -26,6 +26,7 @@ export interface FileOperation {
     type: 'user' | 'group' | 'domain' | 'anyone';
     emailAddress?: string;
   };
+  signal?: AbortSignal; // Aborts the transfer, e.g. when the execution running it is cancelled
 }
 
 export interface FileOperationResult {
@@ -131,7 +132,7 @@ export class FileOperationsService {
       requestBody,
       media,
       fields: 'id,name,size,mimeType,webViewLink'
-    });
+    }, { signal: operation.signal });
 
     return {
       success: true,
@@ -154,7 +155,7 @@ export class FileOperationsService {
       const searchResult = await drive.files.list({
         q: `name='${operation.fileName}'`,
         fields: 'files(id,name)'
-      });
+      }, { signal: operation.signal });
       
       if (!searchResult.data.files?.length) {
         throw new Error(`File ${operation.fileName} not found`);
@@ -165,7 +166,7 @@ export class FileOperationsService {
     const response = await drive.files.get({
       fileId: fileId!,
       alt: 'media'
-    }, { responseType: 'stream' });
+    }, { responseType: 'stream', signal: operation.signal });
 
     // Convert stream to buffer
     const chunks: Buffer[] = [];
@@ -192,7 +193,7 @@ export class FileOperationsService {
       q: query,
       fields: 'files(id,name,size,mimeType,modifiedTime,webViewLink)',
       pageSize: 100
-    });
+    }, { signal: operation.signal });
 
     const files = response.data.files?.map(file => ({
       id: file.id!,
@@ -214,7 +215,7 @@ export class FileOperationsService {
       throw new Error('fileId is required for delete operation');
     }
 
-    await drive.files.delete({ fileId: operation.folderId });
+    await drive.files.delete({ fileId: operation.folderId }, { signal: operation.signal });
 
     return {
       success: true,
@@ -237,7 +238,7 @@ export class FileOperationsService {
     await drive.permissions.create({
       fileId: operation.folderId,
       requestBody: permission
-    });
+    }, { signal: operation.signal });
 
     return {
       success: true,
@@ -249,7 +250,7 @@ export class FileOperationsService {
    * Dropbox Operations
    */
   private async executeDropboxOperation(operation: FileOperation): Promise<FileOperationResult> {
-    const client = this.getDropboxClient(operation.provider.credentials.accessToken);
+    const client = this.getDropboxClient(operation.provider.credentials.accessToken, operation.signal);
 
     switch (operation.operation) {
       case 'upload':
@@ -265,9 +266,10 @@ export class FileOperationsService {
     }
   }
 
-  private getDropboxClient(accessToken: string): AxiosInstance {
+  private getDropboxClient(accessToken: string, signal?: AbortSignal): AxiosInstance {
     return axios.create({
       baseURL: 'https://api.dropboxapi.com/2',
+      signal,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json'
@@ -366,7 +368,7 @@ export class FileOperationsService {
    * OneDrive Operations (Microsoft Graph API)
    */
   private async executeOneDriveOperation(operation: FileOperation): Promise<FileOperationResult> {
-    const client = this.getOneDriveClient(operation.provider.credentials.accessToken);
+    const client = this.getOneDriveClient(operation.provider.credentials.accessToken, operation.signal);
 
     switch (operation.operation) {
       case 'upload':
@@ -382,9 +384,10 @@ export class FileOperationsService {
     }
   }
 
-  private getOneDriveClient(accessToken: string): AxiosInstance {
+  private getOneDriveClient(accessToken: string, signal?: AbortSignal): AxiosInstance {
     return axios.create({
       baseURL: 'https://graph.microsoft.com/v1.0/me/drive',
+      signal,
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json'
@@ -499,14 +502,14 @@ export class FileOperationsService {
         if (!objectKey) {
           throw new Error('path is required for S3 download');
         }
-        return await this.downloadFromS3(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken);
+        return await this.downloadFromS3(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken, operation.signal);
       case 'delete':
         if (!objectKey) {
           throw new Error('path is required for S3 delete');
         }
-        return await this.deleteFromS3(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken);
+        return await this.deleteFromS3(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken, operation.signal);
       case 'list':
-        return await this.listS3Objects(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken);
+        return await this.listS3Objects(baseUrl, baseHost, region, bucket, objectKey, accessKeyId, secretAccessKey, sessionToken, operation.signal);
       default:
         throw new Error(`Operation ${operation.operation} not supported for S3`);
     }
@@ -536,7 +539,7 @@ export class FileOperationsService {
 
     const signed = this.signAwsRequest('PUT', `/${key}`, '', headers, body || Buffer.from(''), region, bucket, accessKeyId, secretAccessKey, sessionToken);
 
-    await axios.put(url, body, { headers: signed });
+    await axios.put(url, body, { headers: signed, signal: operation.signal });
 
     return {
       success: true,
@@ -553,13 +556,14 @@ export class FileOperationsService {
     key: string,
     accessKeyId: string,
     secretAccessKey: string,
-    sessionToken?: string
+    sessionToken?: string,
+    signal?: AbortSignal
   ): Promise<FileOperationResult> {
     const url = `${baseUrl}/${encodeURIComponent(key).replace(/%2F/g, '/')}`;
     const headers: Record<string, string> = { host };
     const signed = this.signAwsRequest('GET', `/${key}`, '', headers, '', region, bucket, accessKeyId, secretAccessKey, sessionToken);
 
-    const response = await axios.get(url, { headers: signed, responseType: 'arraybuffer' });
+    const response = await axios.get(url, { headers: signed, responseType: 'arraybuffer', signal });
     const buffer = Buffer.from(response.data);
 
     return {
@@ -578,13 +582,14 @@ export class FileOperationsService {
     key: string,
     accessKeyId: string,
     secretAccessKey: string,
-    sessionToken?: string
+    sessionToken?: string,
+    signal?: AbortSignal
   ): Promise<FileOperationResult> {
     const url = `${baseUrl}/${encodeURIComponent(key).replace(/%2F/g, '/')}`;
     const headers: Record<string, string> = { host };
     const signed = this.signAwsRequest('DELETE', `/${key}`, '', headers, '', region, bucket, accessKeyId, secretAccessKey, sessionToken);
 
-    await axios.delete(url, { headers: signed });
+    await axios.delete(url, { headers: signed, signal });
 
     return {
       success: true,
@@ -600,14 +605,15 @@ export class FileOperationsService {
     prefix: string,
     accessKeyId: string,
     secretAccessKey: string,
-    sessionToken?: string
+    sessionToken?: string,
+    signal?: AbortSignal
   ): Promise<FileOperationResult> {
     const query = `list-type=2${prefix ? `&prefix=${encodeURIComponent(prefix)}` : ''}`;
     const url = `${baseUrl}/?${query}`;
     const headers: Record<string, string> = { host };
     const signed = this.signAwsRequest('GET', '/', query, headers, '', region, bucket, accessKeyId, secretAccessKey, sessionToken);
 
-    const response = await axios.get(url, { headers: signed });
+    const response = await axios.get(url, { headers: signed, signal });
     const xml = response.data as string;
     const parser = new XMLParser({ ignoreAttributes: false });
     const parsed = parser.parse(xml);
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { EventBus } from '../engine/event-bus';
+import { TemplateRenderer } from '../utils/template-renderer';
 
 export interface FormField {
   id: string;
@@ -402,7 +403,7 @@ export class FormBuilderService {
   private generateEmailTemplate(form: FormConfig, submission: FormSubmission): string {
     if (form.settings.emailNotifications.template) {
       // Use custom template with variable substitution
-      return this.replaceTemplateVariables(form.settings.emailNotifications.template, {
+      return TemplateRenderer.render(form.settings.emailNotifications.template, {
         formTitle: form.title,
         submissionId: submission.id,
         submittedAt: submission.submittedAt.toISOString(),
@@ -623,13 +624,4 @@ export class FormBuilderService {
     }
     return String(value);
   }
-
-  private replaceTemplateVariables(template: string, variables: Record<string, any>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
-      result = result.replace(regex, String(value));
-    }
-    return result;
-  }
 }
\ No newline at end of file
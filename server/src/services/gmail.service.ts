@@ -39,6 +39,7 @@ export interface EmailFilter {
 export interface ParsedEmail {
   id: string;
   threadId: string;
+  messageId?: string; // RFC 822 Message-ID header
   from: string;
   to: string[];
   cc?: string[];
@@ -335,6 +336,7 @@ export class GmailService {
     return {
       id: messageId,
       threadId: message.threadId,
+      messageId: getHeader('Message-ID') || undefined,
       from: getHeader('From'),
       to: getHeader('To').split(',').map((email: string) => email.trim()),
       cc: getHeader('Cc') ? getHeader('Cc').split(',').map((email: string) => email.trim()) : undefined,
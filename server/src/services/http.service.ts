@@ -6,6 +6,10 @@ export class HttpService {
       const resp = await axios(requestConfigWithDefaults(config));
       return { success: true, status: resp.status, data: resp.data, headers: resp.headers };
     } catch (err: any) {
+      // Aborted through config.signal, e.g. because the execution was cancelled
+      if (axios.isCancel(err)) {
+        return { success: false, aborted: true, error: 'Request aborted' };
+      }
       console.error('HTTP request failed', err?.message || err);
       return { success: false, error: err?.message || String(err) };
     }
@@ -0,0 +1,183 @@
+import Redis from 'ioredis';
+import crypto from 'crypto';
+import { config } from '../config/config';
+
+export interface IdempotencyKeySource {
+  headers?: Record<string, any>;
+  payload?: any;
+}
+
+export interface IdempotencyKeyOptions {
+  header?: string; // Header carrying the key, case-insensitive
+  path?: string; // Dot path into the payload, e.g. "event.id"
+}
+
+interface IdempotencyClaim {
+  duplicate: boolean;
+  executionId?: string; // Set for duplicates: the execution started by the first delivery
+}
+
+/**
+ * Thrown when a duplicate arrives while the first delivery is still starting its execution
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(public key: string) {
+    super(`A delivery with idempotency key "${key}" is already being processed`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+const PENDING = 'pending';
+const PENDING_TTL = 60; // Seconds a claim may stay unresolved before another delivery can take it over
+const WAIT_FOR_ORIGINAL_MS = 5000;
+const POLL_INTERVAL_MS = 250;
+
+// Drops a key only while it still points at the execution being released
+const RELEASE_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then redis.call('DEL', KEYS[1]) end
+  redis.call('DEL', KEYS[2])
+  return 0
+`;
+
+/**
+ * De-duplicates trigger deliveries within a time window. The first delivery with a key claims it
+ * and records the execution it started; later deliveries get that execution instead of a new one.
+ */
+class IdempotencyService {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis(config.redis.url);
+  }
+
+  /**
+   * Read the key from the configured header or payload path, falling back to the default header
+   */
+  extractKey(source: IdempotencyKeySource, options: IdempotencyKeyOptions = {}): string | null {
+    let value: any;
+    if (options.path) {
+      value = options.path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), source.payload);
+    } else {
+      const header = (options.header || config.idempotency.header).toLowerCase();
+      const match = Object.keys(source.headers || {}).find(name => name.toLowerCase() === header);
+      value = match ? source.headers![match] : undefined;
+    }
+
+    if (Array.isArray(value)) {
+      value = value[0];
+    }
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Run start() unless the key was already used in the window, in which case the execution the first
+   * delivery started is returned instead. When Redis is unavailable deliveries are not de-duplicated.
+   */
+  async runOnce(
+    scope: string,
+    key: string,
+    start: () => Promise<string>,
+    windowSeconds: number = config.idempotency.windowSeconds
+  ): Promise<{ executionId: string; duplicate: boolean }> {
+    const redisKey = this.redisKey(scope, key);
+
+    let claim: IdempotencyClaim;
+    try {
+      claim = await this.claim(redisKey, key);
+    } catch (error) {
+      if (error instanceof IdempotencyConflictError) {
+        throw error;
+      }
+      console.warn(`⚠️ Idempotency check unavailable, starting without de-duplication:`, error);
+      return { executionId: await start(), duplicate: false };
+    }
+
+    if (claim.duplicate) {
+      return { executionId: claim.executionId!, duplicate: true };
+    }
+
+    let executionId: string;
+    try {
+      executionId = await start();
+    } catch (error) {
+      // Let a provider retry try again rather than resolve to an execution that never started
+      await this.redis.del(redisKey).catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      await this.redis.multi()
+        .set(redisKey, executionId, 'EX', windowSeconds)
+        .set(this.executionKey(executionId), redisKey, 'EX', windowSeconds)
+        .exec();
+      // The queued start already failed and was released before the key was recorded
+      if (await this.redis.exists(this.releasedKey(executionId))) {
+        await this.releaseExecution(executionId);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to record idempotency key for execution ${executionId}:`, error);
+    }
+    return { executionId, duplicate: false };
+  }
+
+  /**
+   * Free the key an execution was started under, e.g. when its queued start failed, so a retried
+   * delivery starts a new run instead of resolving to one that never ran
+   */
+  async releaseExecution(executionId: string): Promise<void> {
+    try {
+      const redisKey = await this.redis.get(this.executionKey(executionId));
+      if (!redisKey) {
+        // Not recorded (yet): leave a marker in case runOnce is about to record it
+        await this.redis.set(this.releasedKey(executionId), '1', 'EX', PENDING_TTL);
+        return;
+      }
+      await this.redis.eval(RELEASE_SCRIPT, 2, redisKey, this.executionKey(executionId), executionId);
+    } catch (error) {
+      console.warn(`⚠️ Failed to release idempotency key of execution ${executionId}:`, error);
+    }
+  }
+
+  private async claim(redisKey: string, key: string): Promise<IdempotencyClaim> {
+    const claimed = await this.redis.set(redisKey, PENDING, 'EX', PENDING_TTL, 'NX');
+    if (claimed === 'OK') {
+      return { duplicate: false };
+    }
+
+    // The first delivery may still be starting its execution; give it a moment to record the id
+    const deadline = Date.now() + WAIT_FOR_ORIGINAL_MS;
+    while (true) {
+      const value = await this.redis.get(redisKey);
+      if (value === null) {
+        // The claim expired or was released after a failed start, so this delivery takes over
+        return this.claim(redisKey, key);
+      }
+      if (value !== PENDING) {
+        return { duplicate: true, executionId: value };
+      }
+      if (Date.now() >= deadline) {
+        throw new IdempotencyConflictError(key);
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  private executionKey(executionId: string): string {
+    return `idempotency:execution:${executionId}`;
+  }
+
+  private releasedKey(executionId: string): string {
+    return `idempotency:released:${executionId}`;
+  }
+
+  private redisKey(scope: string, key: string): string {
+    // Keys come from external payloads; hash them so length and characters don't matter
+    const digest = crypto.createHash('sha256').update(key).digest('hex');
+    return `idempotency:${scope}:${digest}`;
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
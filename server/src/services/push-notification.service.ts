@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { EventBus } from '../engine/event-bus';
+import { TemplateRenderer } from '../utils/template-renderer';
 
 export interface PushNotificationConfig {
   provider: 'fcm' | 'apns' | 'web_push' | 'custom';
@@ -303,9 +304,9 @@ export class PushNotificationService {
 
     const message: PushNotificationMessage = {
       to: recipients,
-      title: this.replaceVariables(template.title, variables),
-      body: this.replaceVariables(template.body, variables),
-      data: template.data ? this.replaceObjectVariables(template.data, variables) : undefined,
+      title: TemplateRenderer.render(template.title, variables),
+      body: TemplateRenderer.render(template.body, variables),
+      data: template.data ? TemplateRenderer.renderObject(template.data, variables) : undefined,
       options: template.options
     };
 
@@ -474,27 +475,6 @@ export class PushNotificationService {
     return payload;
   }
 
-  private replaceVariables(template: string, variables: Record<string, any>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
-      result = result.replace(regex, String(value));
-    }
-    return result;
-  }
-
-  private replaceObjectVariables(obj: Record<string, any>, variables: Record<string, any>): Record<string, any> {
-    const result: Record<string, any> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string') {
-        result[key] = this.replaceVariables(value, variables);
-      } else {
-        result[key] = value;
-      }
-    }
-    return result;
-  }
-
   private initializeTemplates(): void {
     // Initialize some common templates
     const defaultTemplates: Omit<NotificationTemplate, 'id'>[] = [
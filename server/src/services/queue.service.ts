@@ -1,54 +1,347 @@
 import Queue from 'bull';
+import Redis from 'ioredis';
 import { config } from '../config/config';
-import { workflowEngine } from '../engine/workflow-engine';
+import { ExecutionPriority, WorkflowStatus } from '../types/workflow.types';
+import { idempotencyService } from './idempotency.service';
+
+// Cancellations are broadcast here so the worker running an execution's current step can abort it
+const ABORT_CHANNEL = 'workflow-engine:abort';
+
+// Bull runs lower numbers first; a user's n-th waiting run gets priority n, up to this
+const MAX_FAIRNESS_PRIORITY = 10000;
+
+const LANES = Object.values(ExecutionPriority);
+
+// How long a deferred run's latest job id is remembered for status lookups by execution id
+const DEFERRED_JOB_TTL = 24 * 60 * 60;
+
+/**
+ * A triggered run waiting in a priority lane; its execution id is reserved when it is enqueued
+ */
+export interface WorkflowRunJob {
+  workflowId: string;
+  executionId: string;
+  data: Record<string, any>;
+  userId: string; // Runs are interleaved per user so one user's backlog can't hold up everyone else
+  lane: ExecutionPriority;
+  rateLimit?: { maxRuns: number; perSeconds: number };
+  idempotencyKey?: string; // Key of the delivery that queued the run, recorded on its execution
+}
+
+export interface LaneStats {
+  lane: ExecutionPriority;
+  paused: boolean;
+  concurrency: number;
+  waiting: number;
+  delayed: number; // Includes runs held back by their workflow's rate cap
+  active: number;
+  completed: number;
+  failed: number;
+  pendingByUser: Record<string, number>;
+}
+
+export interface WorkflowTimerJob {
+  executionId: string;
+  branchId: string;
+  nodeId: string;
+  resumeAt: string;
+}
+
+/**
+ * Work the engine hands to worker processes in queue mode; each job changes a single execution
+ */
+export type EngineJob =
+  | { type: 'step'; executionId: string; branchId: string }
+  | { type: 'resume'; executionId: string; resumeData?: any }
+  | { type: 'reject'; executionId: string; reason: string }
+  | { type: 'child-finished'; executionId: string; childExecutionId: string; error?: string }
+  | { type: 'cancel'; executionId: string; reason?: { code: string; message: string } }
+  | { type: 'timer'; executionId: string; timer: WorkflowTimerJob }
+  | { type: 'timeout'; executionId: string; timeout: number; runningSince: string };
 
 export class QueueService {
-  private workflowQueue!: Queue.Queue;
+  private laneQueues!: Record<ExecutionPriority, Queue.Queue<WorkflowRunJob>>;
+  private redis!: Redis;
+  private timerQueue!: Queue.Queue<WorkflowTimerJob>;
+  private engineQueue!: Queue.Queue<EngineJob>;
+  private abortPublisher?: Redis;
+  private abortSubscriber?: Redis;
 
   constructor() {
     this.initializeQueues();
   }
 
   private initializeQueues() {
-    this.workflowQueue = new Queue('workflow-execution', config.redis.url, {
+    // One queue per lane, so a bulk backlog never sits in front of critical runs
+    this.laneQueues = {} as Record<ExecutionPriority, Queue.Queue<WorkflowRunJob>>;
+    for (const lane of LANES) {
+      this.laneQueues[lane] = new Queue(`workflow-execution-${lane}`, config.redis.url, {
+        defaultJobOptions: {
+          // Starting a run isn't idempotent, so a failed start is not retried
+          attempts: 1,
+          removeOnComplete: 1000,
+          removeOnFail: false
+        }
+      });
+    }
+
+    // Per-user waiting counts and rate windows
+    this.redis = new Redis(config.redis.url);
+
+    // Delayed jobs live in Redis, so timers outlive the process that scheduled them
+    this.timerQueue = new Queue('workflow-timers', config.redis.url, {
       defaultJobOptions: {
-        attempts: 3,
+        attempts: 5,
         backoff: {
           type: 'exponential',
-          delay: 1000
+          delay: 5000
         },
-        removeOnComplete: false,
+        removeOnComplete: true,
         removeOnFail: false
       }
     });
 
-    this.setupQueueHandlers();
+    // A step waiting for another step on the same execution is retried until that one is done
+    this.engineQueue = new Queue('workflow-engine', config.redis.url, {
+      defaultJobOptions: {
+        attempts: 50,
+        backoff: {
+          type: 'fixed',
+          delay: 2000
+        },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    });
   }
 
-  private setupQueueHandlers() {
-    this.workflowQueue.process(async (job) => {
-      const { workflowId, data } = job.data;
-      return await workflowEngine.executeWorkflow(workflowId, data);
+  /**
+   * Start consuming queued work in this process; engine jobs are only consumed by workers
+   */
+  startProcessing(options: { engineJobs?: boolean; concurrency?: number } = {}) {
+    // The engine is loaded lazily because it schedules timers through this service
+    for (const lane of LANES) {
+      const queue = this.laneQueues[lane];
+      queue.process(config.engine.laneConcurrency[lane], (job) => this.startRun(job));
+
+      queue.on('completed', (job) => {
+        console.log(`Job ${job.id} completed for workflow ${job.data.workflowId} (${lane} lane)`);
+      });
+
+      queue.on('failed', (job, error) => {
+        console.error(`Job ${job.id} failed for workflow ${job.data.workflowId} (${lane} lane):`, error);
+      });
+    }
+
+    this.timerQueue.process(async (job) => {
+      const { workflowEngine } = await import('../engine/workflow-engine');
+      await workflowEngine.handleTimerExpired(job.data);
     });
 
-    this.workflowQueue.on('completed', (job) => {
-      console.log(`Job ${job.id} completed for workflow ${job.data.workflowId}`);
+    this.timerQueue.on('failed', (job, error) => {
+      console.error(`Timer ${job.id} failed for execution ${job.data.executionId}:`, error);
     });
 
-    this.workflowQueue.on('failed', (job, error) => {
-      console.error(`Job ${job.id} failed for workflow ${job.data.workflowId}:`, error);
+    if (options.engineJobs) {
+      this.engineQueue.process(options.concurrency || 1, async (job) => {
+        const { workflowEngine } = await import('../engine/workflow-engine');
+        await workflowEngine.processJob(job.data);
+      });
+
+      this.engineQueue.on('failed', (job, error) => {
+        console.error(`Engine job ${job.data.type} failed for execution ${job.data.executionId}:`, error.message);
+      });
+
+      this.abortSubscriber = new Redis(config.redis.url);
+      this.abortSubscriber.subscribe(ABORT_CHANNEL).catch(error =>
+        console.error('Failed to subscribe to execution aborts:', error));
+      this.abortSubscriber.on('message', async (_channel, message) => {
+        const { executionId, reason } = JSON.parse(message);
+        const { workflowEngine } = await import('../engine/workflow-engine');
+        workflowEngine.abortInFlightNodes(executionId, reason);
+      });
+    }
+  }
+
+  /**
+   * Tell every worker to abort the node work it has in flight for an execution
+   */
+  async publishAbort(executionId: string, reason?: { code: string; message: string }) {
+    this.abortPublisher = this.abortPublisher || new Redis(config.redis.url);
+    await this.abortPublisher.publish(ABORT_CHANNEL, JSON.stringify({ executionId, reason }));
+  }
+
+  /**
+   * Queue a triggered run in its lane. Each user's runs are numbered as they wait, and lower numbers
+   * start first, so users take turns instead of queueing behind whoever enqueued the most.
+   */
+  async enqueueWorkflow(run: WorkflowRunJob) {
+    const waiting = await this.redis.hincrby(this.pendingKey(run.lane), run.userId, 1);
+    return await this.laneQueues[run.lane].add(run, {
+      jobId: run.executionId,
+      priority: Math.min(waiting, MAX_FAIRNESS_PRIORITY)
     });
   }
 
-  async enqueueWorkflow(workflowId: string, data: Record<string, any> = {}) {
-    return await this.workflowQueue.add({
-      workflowId,
-      data
+  /**
+   * Start a queued run, or put it back until the next window when its workflow is over its rate cap
+   */
+  private async startRun(job: Queue.Job<WorkflowRunJob>) {
+    const { workflowId, executionId, data, userId, lane, rateLimit, idempotencyKey } = job.data;
+
+    if (rateLimit && rateLimit.maxRuns > 0) {
+      const windowMs = Math.max(1, rateLimit.perSeconds) * 1000;
+      const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+      const key = `queue:rate:${workflowId}:${windowStart}`;
+      const started = await this.redis.incr(key);
+      if (started === 1) {
+        await this.redis.pexpire(key, windowMs);
+      }
+      if (started > rateLimit.maxRuns) {
+        const delay = windowStart + windowMs - Date.now();
+        console.log(`🚦 Workflow ${workflowId} is over its rate cap, run ${executionId} retries in ${delay}ms`);
+        // A fresh job id: this one is still active until the handler returns
+        const jobId = `${executionId}:${windowStart + windowMs}`;
+        await this.laneQueues[lane].add(job.data, {
+          jobId,
+          priority: job.opts.priority,
+          delay
+        });
+        await this.redis.set(this.deferredJobKey(executionId), jobId, 'EX', DEFERRED_JOB_TTL);
+        return { executionId, deferred: true };
+      }
+    }
+
+    await this.redis.hincrby(this.pendingKey(lane), userId, -1);
+
+    const { workflowEngine } = await import('../engine/workflow-engine');
+    try {
+      await workflowEngine.executeWorkflow(workflowId, data, { executionId, idempotencyKey });
+    } catch (error) {
+      // The run never started: record why, and let a redelivery with the same idempotency key try again
+      await idempotencyService.releaseExecution(executionId);
+      await workflowEngine.recordUnstartedExecution(job.data, WorkflowStatus.FAILED, {
+        code: 'START_FAILED',
+        message: error instanceof Error ? error.message : String(error)
+      }).catch(recordError => console.error(`❌ Failed to record failed start of execution ${executionId}:`, recordError));
+      throw error;
+    }
+    return { executionId, deferred: false };
+  }
+
+  /**
+   * Depth of every lane, with how many runs each user has waiting
+   */
+  async getLaneStats(): Promise<LaneStats[]> {
+    return await Promise.all(LANES.map(async (lane) => {
+      const queue = this.laneQueues[lane];
+      const [counts, paused, pending] = await Promise.all([
+        queue.getJobCounts(),
+        queue.isPaused(),
+        this.redis.hgetall(this.pendingKey(lane))
+      ]);
+
+      const pendingByUser: Record<string, number> = {};
+      for (const [userId, count] of Object.entries(pending)) {
+        if (parseInt(count) > 0) {
+          pendingByUser[userId] = parseInt(count);
+        }
+      }
+
+      return {
+        lane,
+        paused,
+        concurrency: config.engine.laneConcurrency[lane],
+        waiting: counts.waiting,
+        delayed: counts.delayed,
+        active: counts.active,
+        completed: counts.completed,
+        failed: counts.failed,
+        pendingByUser
+      };
+    }));
+  }
+
+  /**
+   * Stop every process from starting runs in a lane; runs already started carry on
+   */
+  async pauseLane(lane: ExecutionPriority) {
+    await this.laneQueues[lane].pause();
+  }
+
+  async resumeLane(lane: ExecutionPriority) {
+    await this.laneQueues[lane].resume();
+  }
+
+  /**
+   * Throw away the runs waiting in a lane, returning how many were dropped. Each dropped run is
+   * recorded as cancelled, so its reserved execution id doesn't point at a run that never happens.
+   */
+  async drainLane(lane: ExecutionPriority): Promise<number> {
+    const queue = this.laneQueues[lane];
+    const jobs = await queue.getJobs(['waiting', 'delayed', 'paused']);
+    const { workflowEngine } = await import('../engine/workflow-engine');
+
+    let dropped = 0;
+    for (const job of jobs) {
+      try {
+        await job.remove();
+      } catch {
+        continue; // A worker picked it up in the meantime, so it runs after all
+      }
+      dropped++;
+      await this.redis.hincrby(this.pendingKey(lane), job.data.userId, -1);
+      await workflowEngine.recordUnstartedExecution(job.data, WorkflowStatus.CANCELLED, {
+        code: 'LANE_DRAINED',
+        message: `Dropped from the ${lane} lane before it started`
+      });
+    }
+    return dropped;
+  }
+
+  /**
+   * Hand a piece of engine work to whichever worker picks it up first
+   */
+  async enqueueEngineJob(job: EngineJob, options: { delay?: number; jobId?: string } = {}) {
+    return await this.engineQueue.add(job, options);
+  }
+
+  async removeEngineJob(jobId: string) {
+    const job = await this.engineQueue.getJob(jobId);
+    if (job) {
+      await job.remove();
+    }
+  }
+
+  /**
+   * Schedule a paused execution branch to wake up at the given time
+   */
+  async scheduleTimer(timer: WorkflowTimerJob) {
+    const delay = Math.max(0, new Date(timer.resumeAt).getTime() - Date.now());
+    return await this.timerQueue.add(timer, {
+      jobId: this.getTimerJobId(timer),
+      delay
     });
   }
 
+  /**
+   * Remove a pending timer, e.g. when its execution is cancelled
+   */
+  async cancelTimer(timer: Omit<WorkflowTimerJob, 'resumeAt'>) {
+    const job = await this.timerQueue.getJob(this.getTimerJobId(timer));
+    if (job) {
+      await job.remove();
+    }
+  }
+
+  /**
+   * Status of a queued run by its execution id; a run deferred by its rate cap is found under its latest job
+   */
   async getJobStatus(jobId: string) {
-    const job = await this.workflowQueue.getJob(jobId);
+    const deferredJobId = await this.redis.get(this.deferredJobKey(jobId));
+    const findJob = async (id: string) =>
+      (await Promise.all(LANES.map(lane => this.laneQueues[lane].getJob(id)))).find(Boolean);
+    const job = (deferredJobId && await findJob(deferredJobId)) || await findJob(jobId);
     if (!job) {
       throw new Error('Job not found');
     }
@@ -63,14 +356,37 @@ export class QueueService {
   }
 
   async pauseQueue() {
-    await this.workflowQueue.pause();
+    await Promise.all(LANES.map(lane => this.pauseLane(lane)));
   }
 
   async resumeQueue() {
-    await this.workflowQueue.resume();
+    await Promise.all(LANES.map(lane => this.resumeLane(lane)));
   }
 
   async cleanQueue() {
-    await this.workflowQueue.clean(1000, 'completed');
+    await Promise.all(LANES.map(lane => this.laneQueues[lane].clean(1000, 'completed')));
   }
-}
\ No newline at end of file
+
+  async close() {
+    await Promise.all([this.abortPublisher?.quit(), this.abortSubscriber?.quit(), this.redis.quit()]);
+    await Promise.all([
+      ...LANES.map(lane => this.laneQueues[lane].close()),
+      this.timerQueue.close(),
+      this.engineQueue.close()
+    ]);
+  }
+
+  private pendingKey(lane: ExecutionPriority): string {
+    return `queue:lane:${lane}:pending`;
+  }
+
+  private deferredJobKey(executionId: string): string {
+    return `queue:deferred:${executionId}`;
+  }
+
+  private getTimerJobId(timer: Omit<WorkflowTimerJob, 'resumeAt'>): string {
+    return `timer:${timer.executionId}:${timer.branchId}:${timer.nodeId}`;
+  }
+}
+
+export const queueService = new QueueService();
@@ -5,6 +5,7 @@ export interface RetryConfig {
   backoffMultiplier: number;
   jitter: boolean;
   retryCondition?: (error: any) => boolean;
+  signal?: AbortSignal; // Stops retrying, and any wait between attempts, once aborted
 }
 
 export interface RetryAttempt {
@@ -78,7 +79,7 @@ export class RetryService {
         });
 
         // Check if we should retry this error
-        if (!finalConfig.retryCondition || !finalConfig.retryCondition(error)) {
+        if (finalConfig.signal?.aborted || !finalConfig.retryCondition || !finalConfig.retryCondition(error)) {
           return {
             success: false,
             error,
@@ -98,7 +99,15 @@ export class RetryService {
         }
 
         // Wait before next attempt
-        await this.delay(attemptDelay);
+        await this.delay(attemptDelay, finalConfig.signal);
+        if (finalConfig.signal?.aborted) {
+          return {
+            success: false,
+            error,
+            attempts,
+            totalDuration: Date.now() - startTime
+          };
+        }
       }
     }
 
@@ -130,10 +139,16 @@ export class RetryService {
   }
 
   /**
-   * Simple delay utility
+   * Simple delay utility; an aborted signal ends the wait early
    */
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
   }
 
   /**
@@ -6,6 +6,12 @@ import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { GmailService, GmailConfig, EmailFilter } from './gmail.service';
 import { EmailInboundService, EmailInboundConfig } from './email-inbound.service';
+import { idempotencyService, IdempotencyConflictError } from './idempotency.service';
+
+export interface TriggerStartResult {
+  executionId: string;
+  duplicate: boolean; // The delivery repeated an idempotency key, executionId is the original run
+}
 
 export class TriggerService {
   private static instance: TriggerService;
@@ -133,7 +139,7 @@ export class TriggerService {
   /**
    * Handle webhook trigger
    */
-  async handleWebhookTrigger(webhookUrl: string, method: string, data: any, headers: any): Promise<string | null> {
+  async handleWebhookTrigger(webhookUrl: string, method: string, data: any, headers: any): Promise<TriggerStartResult | null> {
     try {
       const trigger = this.webhookRegistry.get(webhookUrl);
       if (!trigger) {
@@ -154,7 +160,11 @@ export class TriggerService {
         }
       }
 
-      const executionId = await this.executeTrigger(trigger, {
+      const idempotencyKey = idempotencyService.extractKey(
+        { headers, payload: data },
+        { header: trigger.config.idempotencyHeader, path: trigger.config.idempotencyKeyPath }
+      );
+      const result = await this.executeTriggerOnce(trigger, idempotencyKey, {
         webhookData: data,
         headers,
         method,
@@ -162,10 +172,10 @@ export class TriggerService {
       });
 
       // Update trigger if it's a document
-      if (typeof (trigger as any).updateLastTriggered === 'function') {
+      if (!result.duplicate && typeof (trigger as any).updateLastTriggered === 'function') {
         await (trigger as any).updateLastTriggered();
       }
-      return executionId;
+      return result;
     } catch (error) {
       console.error('❌ Failed to handle webhook trigger:', error);
       throw error;
@@ -237,6 +247,8 @@ export class TriggerService {
       successfulExecutions: successCount,
       failedExecutions: failedCount,
       averageDuration: avgDuration,
+      dedupeHits: trigger.metadata?.dedupeHits || 0,
+      lastDedupeHit: trigger.metadata?.lastDedupeHit,
       errors: trigger.metadata?.errors || []
     };
   }
@@ -402,7 +414,7 @@ export class TriggerService {
     console.log(`✅ Webhook trigger initialized: ${(trigger as any)._id} at ${trigger.config.webhookUrl}`);
   }
 
-  private async executeTrigger(trigger: ITriggerConfig, triggerData: any): Promise<string> {
+  private async executeTrigger(trigger: ITriggerConfig, triggerData: any, idempotencyKey?: string): Promise<string> {
     try {
       const executionId = uuidv4();
       
@@ -418,10 +430,11 @@ export class TriggerService {
       });
       await triggerExecution.save();
 
-      // Execute workflow
-      const workflowExecutionId = await workflowEngine.executeWorkflow(
+      // Queue the run in the trigger's lane, falling back to the workflow's
+      const workflowExecutionId = await workflowEngine.queueExecution(
         trigger.workflowId.toString(),
-        triggerData
+        triggerData,
+        { priority: trigger.config.priority, idempotencyKey }
       );
 
       // Update execution record
@@ -451,6 +464,33 @@ export class TriggerService {
     }
   }
 
+  /**
+   * Execute a trigger unless its idempotency key was already used within the dedupe window,
+   * in which case the execution started by the first delivery is returned
+   */
+  private async executeTriggerOnce(trigger: ITriggerConfig, idempotencyKey: string | null, triggerData: any): Promise<TriggerStartResult> {
+    if (!idempotencyKey) {
+      return { executionId: await this.executeTrigger(trigger, triggerData), duplicate: false };
+    }
+
+    const triggerId = (trigger as any)._id?.toString();
+    const result = await idempotencyService.runOnce(
+      `trigger:${triggerId}`,
+      idempotencyKey,
+      () => this.executeTrigger(trigger, triggerData, idempotencyKey),
+      trigger.config.dedupeWindow
+    );
+
+    if (result.duplicate) {
+      console.log(`🔁 Duplicate delivery for trigger ${triggerId} (key ${idempotencyKey}) -> ${result.executionId}`);
+      await TriggerModel.findByIdAndUpdate(triggerId, {
+        $inc: { 'metadata.dedupeHits': 1 },
+        $set: { 'metadata.lastDedupeHit': new Date() }
+      });
+    }
+    return result;
+  }
+
   private async checkEmailTrigger(trigger: ITriggerConfig): Promise<void> {
     const triggerId = (trigger as any)._id?.toString();
     console.log(`📧 Checking emails for trigger ${triggerId}`);
@@ -480,18 +520,27 @@ export class TriggerService {
         await this.gmailService.markAsRead(email.id);
       }
 
-      await this.executeTrigger(trigger, {
-        triggerType: 'email',
-        email: {
-          id: email.id,
-          from: email.from,
-          to: email.to,
-          subject: email.subject,
-          body: email.body,
-          timestamp: email.timestamp,
-          attachments: email.attachments
+      // Overlapping polls can fetch the same message; its Message-ID makes the second one a no-op
+      try {
+        await this.executeTriggerOnce(trigger, email.messageId || email.id, {
+          triggerType: 'email',
+          email: {
+            id: email.id,
+            messageId: email.messageId,
+            from: email.from,
+            to: email.to,
+            subject: email.subject,
+            body: email.body,
+            timestamp: email.timestamp,
+            attachments: email.attachments
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof IdempotencyConflictError)) {
+          throw error;
         }
-      });
+        console.log(`🔁 Email ${email.messageId || email.id} is already being processed for trigger ${triggerId}`);
+      }
     }
 
     trigger.config.lastChecked = new Date().toISOString();
@@ -2,7 +2,7 @@ import { Server as HttpServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/config';
-import { EventBus } from '../engine/event-bus';
+import { EventBus, WorkflowEvent } from '../engine/event-bus';
 import { workflowEngine } from '../engine/workflow-engine';
 import { URL } from 'url';
 
@@ -185,44 +185,35 @@ export class WebSocketService {
    * Setup event listeners for workflow engine events
    */
   private setupEventListeners(): void {
-    // Execution events
-    this.eventBus.on('execution:started', (data) => {
-      this.broadcastToSubscribers(`workflow:${data.workflowId}`, 'execution:started', data);
-    });
-
-    this.eventBus.on('execution:completed', (data) => {
-      this.broadcastToSubscribers(`workflow:${data.workflowId}`, 'execution:completed', data);
-    });
-
-    this.eventBus.on('execution:failed', (data) => {
-      this.broadcastToSubscribers(`workflow:${data.workflowId}`, 'execution:failed', data);
-    });
-
-    // Node events
-    this.eventBus.on('node:started', (data) => {
-      this.broadcastToSubscribers(`execution:${data.executionId}`, 'node:started', data);
-    });
-
-    this.eventBus.on('node:completed', (data) => {
-      this.broadcastToSubscribers(`execution:${data.executionId}`, 'node:completed', data);
-    });
-
-    this.eventBus.on('node:failed', (data) => {
-      this.broadcastToSubscribers(`execution:${data.executionId}`, 'node:failed', data);
-    });
-
-    // Human approval events
-    this.eventBus.on('human:approval_requested', (data) => {
-      this.notifyUser(data.assignedTo, 'human:approval_requested', data);
-    });
-
-    // AI events
-    this.eventBus.on('ai:request', (data) => {
-      this.broadcastToSubscribers(`execution:${data.executionId}`, 'ai:request', data);
-    });
-
-    this.eventBus.on('ai:response', (data) => {
-      this.broadcastToSubscribers(`execution:${data.executionId}`, 'ai:response', data);
+    // Everything arrives on the wildcard channel, including events forwarded from worker processes
+    this.eventBus.on('*', (event: WorkflowEvent) => {
+      const data = event.data || {};
+
+      switch (event.type) {
+        // Execution events
+        case 'execution:started':
+        case 'execution:completed':
+        case 'execution:failed':
+          this.broadcastToSubscribers(`workflow:${data.workflowId}`, event.type, data);
+          break;
+
+        // Node and AI events
+        case 'node:started':
+        case 'node:completed':
+        case 'node:failed':
+        case 'node:interrupted':
+        case 'ai:request':
+        case 'ai:token':
+        case 'ai:response':
+        case 'ai:error':
+          this.broadcastToSubscribers(`execution:${data.executionId}`, event.type, data);
+          break;
+
+        // Human approval events
+        case 'human:approval_requested':
+          this.notifyUser(data.assignedTo, event.type, data);
+          break;
+      }
     });
   }
 
@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import { WorkflowModel } from '../models/workflow.model';
+import { UserModel } from '../models/user.model';
+import { EmailNotificationService } from './email-notification.service';
+import { PushNotificationService } from './push-notification.service';
+
+export type WorkflowOutcome = 'completed' | 'failed';
+
+export interface WorkflowOutcomeDetails {
+  executionId: string;
+  status: string;
+  error?: string;
+  duration: number;
+}
+
+/**
+ * Tells a workflow's owners how a run ended, on the channels set in the workflow's settings
+ */
+class WorkflowNotificationService {
+  private emailNotificationService = new EmailNotificationService();
+  private pushNotificationService = new PushNotificationService();
+
+  async notify(
+    workflowId: string,
+    settings: Record<string, any> | undefined,
+    outcome: WorkflowOutcome,
+    details: WorkflowOutcomeDetails
+  ): Promise<void> {
+    const enabled = outcome === 'completed' ? settings?.notifyOnSuccess : settings?.notifyOnFailure;
+    const channels: string[] = settings?.notificationChannels || [];
+    if (!enabled || channels.length === 0) {
+      return;
+    }
+
+    const workflow = await WorkflowModel.findById(workflowId).select('name permissions.owners');
+    if (!workflow) {
+      return;
+    }
+
+    const ownerIds = (workflow.permissions?.owners || []).filter(id => mongoose.isValidObjectId(id));
+    const owners = await UserModel.find({
+      _id: { $in: ownerIds },
+      isActive: true,
+      'preferences.notifications.executionAlerts': { $ne: false }
+    }).select('email preferences.notifications');
+
+    const data = {
+      workflowId,
+      workflowName: workflow.name,
+      executionId: details.executionId,
+      status: details.status,
+      error: details.error || '',
+      duration: details.duration,
+      completedAt: new Date().toISOString(),
+      executionUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/executions/${details.executionId}`
+    };
+
+    for (const channel of channels) {
+      try {
+        switch (channel) {
+          case 'email': {
+            const recipients = owners
+              .filter(owner => owner.preferences?.notifications?.email !== false)
+              .map(owner => owner.email);
+            if (recipients.length > 0) {
+              await this.emailNotificationService.sendSystemNotification(
+                outcome === 'completed' ? 'workflow_complete' : 'workflow_failed',
+                recipients,
+                data
+              );
+            }
+            break;
+          }
+
+          case 'push':
+            await this.sendPush(owners.filter(owner => owner.preferences?.notifications?.push !== false), outcome, data);
+            break;
+
+          default:
+            console.warn(`⚠️ Unknown notification channel "${channel}" on workflow ${workflowId}`);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to send ${channel} notification for execution ${details.executionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Push to each owner's FCM topic; devices subscribe to user-<id> when they register
+   */
+  private async sendPush(owners: Array<{ _id: any }>, outcome: WorkflowOutcome, data: Record<string, any>): Promise<void> {
+    const serverKey = process.env.FCM_SERVER_KEY;
+    if (!serverKey) {
+      console.warn('⚠️ Push notifications are enabled on a workflow but FCM_SERVER_KEY is not set');
+      return;
+    }
+
+    const title = outcome === 'completed'
+      ? `Workflow "${data.workflowName}" completed`
+      : `Workflow "${data.workflowName}" ${data.status}`;
+
+    await Promise.all(owners.map(owner => this.pushNotificationService.sendNotification(
+      { provider: 'fcm', credentials: { serverKey } },
+      {
+        to: `/topics/user-${owner._id}`,
+        title,
+        body: data.error || `Execution ${data.executionId} ${data.status}`,
+        data: { workflowId: data.workflowId, executionId: data.executionId, status: data.status },
+        options: { url: data.executionUrl, priority: outcome === 'failed' ? 'high' : 'normal' }
+      }
+    )));
+  }
+}
+
+export const workflowNotificationService = new WorkflowNotificationService();
@@ -0,0 +1,310 @@
+import { INode, IEdge, NodeType } from '../types/workflow.types';
+import { ExpressionEvaluator } from '../utils/expression-evaluator';
+import { ERROR_HANDLE } from '../engine/retry-policy';
+import { parseJsonSchema } from '../utils/json-schema';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  code: string;
+  severity: ValidationSeverity;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors; warnings don't block activation
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Thrown when a workflow with validation errors is started or activated
+ */
+export class WorkflowValidationError extends Error {
+  constructor(workflowId: string, public validation: WorkflowValidationResult) {
+    super(`Workflow ${workflowId} is invalid: ${validation.errors.map(issue => issue.message).join('; ')}`);
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+// Loop bodies hang off this handle and lead back into the loop node (see workflow-engine.ts)
+const LOOP_BODY_HANDLE = 'body';
+
+/**
+ * Static checks for a workflow definition, so broken graphs are caught before they run
+ */
+class WorkflowValidationService {
+  validate(workflow: { nodes: INode[]; edges: IEdge[]; _id?: any; id?: string }): WorkflowValidationResult {
+    const nodes = workflow.nodes || [];
+    const edges = workflow.edges || [];
+    const issues: ValidationIssue[] = [];
+    const add = (severity: ValidationSeverity, code: string, message: string, target: { nodeId?: string; edgeId?: string } = {}) => {
+      issues.push({ code, severity, message, ...target });
+    };
+
+    // Node ids must be unique; edges reference them
+    const nodesById = new Map<string, INode>();
+    for (const node of nodes) {
+      if (nodesById.has(node.id)) {
+        add('error', 'DUPLICATE_NODE_ID', `Node id ${node.id} is used more than once`, { nodeId: node.id });
+      }
+      nodesById.set(node.id, node);
+    }
+
+    const triggers = nodes.filter(node => node.type === NodeType.TRIGGER);
+    if (triggers.length === 0) {
+      add('error', 'NO_TRIGGER', 'Workflow has no trigger node to start from');
+    } else if (triggers.length > 1) {
+      for (const extra of triggers.slice(1)) {
+        add('warning', 'MULTIPLE_TRIGGERS', `Only the first trigger starts executions; ${extra.id} is never used`, { nodeId: extra.id });
+      }
+    }
+
+    // Edges pointing at deleted nodes
+    const validEdges = edges.filter(edge => {
+      const missing = [edge.source, edge.target].filter(id => !nodesById.has(id));
+      if (missing.length > 0) {
+        add('error', 'DANGLING_EDGE', `Edge ${edge.id} points at missing node ${missing.join(', ')}`, { edgeId: edge.id });
+        return false;
+      }
+      return true;
+    });
+
+    for (const edge of validEdges) {
+      const condition = edge.condition || edge.data?.condition;
+      if (condition) {
+        const check = ExpressionEvaluator.validate(condition);
+        if (!check.valid) {
+          add('error', 'INVALID_CONDITION', `Edge condition is invalid: ${check.error}`, { edgeId: edge.id });
+        }
+      }
+      if (edge.sourceHandle === ERROR_HANDLE && nodesById.get(edge.source)?.type === NodeType.TRIGGER) {
+        add('warning', 'TRIGGER_ERROR_EDGE', 'Trigger nodes never fail, so this error edge is never followed', { edgeId: edge.id });
+      }
+    }
+
+    for (const node of nodes) {
+      this.validateNodeConfig(node, validEdges, workflow._id?.toString() || workflow.id, add);
+    }
+
+    // Nodes the trigger can't reach never run
+    if (triggers.length > 0) {
+      const reachable = this.reachableFrom(triggers[0].id, validEdges);
+      for (const node of nodes) {
+        if (!reachable.has(node.id) && node.type !== NodeType.TRIGGER) {
+          add('warning', 'UNREACHABLE_NODE', `Node ${this.label(node)} can't be reached from the trigger`, { nodeId: node.id });
+        }
+      }
+    }
+
+    for (const cycle of this.findCycles(nodes, validEdges)) {
+      // A decision or switch on the cycle can route out of it; anything else loops forever
+      const guarded = cycle.some(id => [NodeType.DECISION, NodeType.SWITCH].includes(nodesById.get(id)?.type as NodeType));
+      const path = [...cycle, cycle[0]].join(' → ');
+      if (guarded) {
+        add('warning', 'CONDITIONAL_CYCLE', `Nodes loop back on themselves (${path}); make sure a condition exits the cycle`, { nodeId: cycle[0] });
+      } else {
+        for (const nodeId of cycle) {
+          add('error', 'CYCLE', `Workflow contains a cycle with no exit (${path})`, { nodeId });
+        }
+      }
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning')
+    };
+  }
+
+  /**
+   * Check the config each node type needs before it can run
+   */
+  private validateNodeConfig(
+    node: INode,
+    edges: IEdge[],
+    workflowId: string | undefined,
+    add: (severity: ValidationSeverity, code: string, message: string, target?: { nodeId?: string }) => void
+  ): void {
+    const config = node.data?.config || node.data || {};
+    // Some executors read settings from node.data directly, others from node.data.config
+    const read = (key: string) => node.data?.[key] ?? config[key];
+    const missing = (message: string) => add('error', 'MISSING_CONFIG', `${this.label(node)}: ${message}`, { nodeId: node.id });
+    const checkExpression = (expression: unknown, what: string) => {
+      if (typeof expression !== 'string' || !expression.trim()) return;
+      const check = ExpressionEvaluator.validate(expression);
+      if (!check.valid) {
+        add('error', 'INVALID_EXPRESSION', `${this.label(node)}: ${what} is invalid: ${check.error}`, { nodeId: node.id });
+      }
+    };
+    const incoming = edges.filter(edge => edge.target === node.id);
+    const outgoing = edges.filter(edge => edge.source === node.id);
+
+    switch (node.type) {
+      case NodeType.AI_PROCESSOR: {
+        if (!config.prompt) missing('AI node needs a prompt');
+        const { error } = parseJsonSchema(config.outputSchema);
+        if (error) {
+          add('error', 'INVALID_SCHEMA', `${this.label(node)}: output schema is invalid: ${error}`, { nodeId: node.id });
+        }
+        break;
+      }
+
+      case NodeType.ACTION: {
+        const actionType = read('actionType');
+        const actionConfig = node.data?.config || {};
+        if (!actionType) {
+          missing('action type is not set');
+        } else if (actionType === 'http_request' && !actionConfig.url) {
+          missing('HTTP request needs a URL');
+        } else if (actionType === 'email' && (!actionConfig.to || !actionConfig.subject || !actionConfig.body)) {
+          missing('email action needs to, subject and body');
+        }
+        break;
+      }
+
+      case NodeType.DECISION: {
+        const conditions = read('conditions');
+        if (!Array.isArray(conditions) || conditions.length === 0) {
+          missing('decision node needs at least one condition');
+        } else {
+          conditions.forEach((condition: any, index: number) => {
+            if (!condition?.expression) missing(`condition ${condition?.name || index + 1} has no expression`);
+            checkExpression(condition?.expression, `condition ${condition?.name || index + 1}`);
+          });
+        }
+        break;
+      }
+
+      case NodeType.SWITCH: {
+        const cases: any[] = Array.isArray(config.cases) ? config.cases : [];
+        if (!config.value && !cases.some(c => c.condition)) {
+          missing('switch node needs a value to match');
+        }
+        checkExpression(config.value, 'switch value');
+        cases.forEach(c => checkExpression(c.condition, `case ${c.name || c.id} condition`));
+
+        const handles = new Set([...cases.map(c => c.id), 'default']);
+        for (const edge of outgoing) {
+          if (edge.sourceHandle && edge.sourceHandle !== ERROR_HANDLE && !handles.has(edge.sourceHandle)) {
+            add('warning', 'UNKNOWN_CASE', `${this.label(node)}: edge ${edge.id} leaves through a case that no longer exists`, { nodeId: node.id });
+          }
+        }
+        break;
+      }
+
+      case NodeType.HUMAN_TASK:
+        if (!read('assignee')) missing('human task needs an assignee');
+        break;
+
+      case NodeType.TIMER: {
+        const mode = config.mode || 'delay';
+        if (mode === 'delay' && !(Number(config.delay) > 0)) missing('timer needs a positive delay');
+        if (mode === 'until_date' && !config.untilDate) missing('timer needs a date to wait for');
+        break;
+      }
+
+      case NodeType.FILE_OPERATIONS:
+        if (!read('provider') || !read('operation')) missing('file operation needs a provider and an operation');
+        break;
+
+      case NodeType.DATA_TRANSFORM:
+        if (!read('inputData') || !read('transformConfig')) missing('data transform needs input data and a transform');
+        break;
+
+      case NodeType.LOOP:
+        if (!config.items) missing('loop needs an items path to iterate');
+        if (!outgoing.some(edge => edge.sourceHandle === LOOP_BODY_HANDLE)) {
+          add('warning', 'EMPTY_LOOP', `${this.label(node)}: nothing is connected to the loop body`, { nodeId: node.id });
+        }
+        break;
+
+      case NodeType.MERGE:
+        if (config.mode === 'merge_by_key' && !config.key) missing('merge by key needs a key');
+        if (config.mode === 'join' && !config.joinKey) missing('join mode needs a join key');
+        if (incoming.length < 2) {
+          add('warning', 'SINGLE_INPUT', `${this.label(node)}: has fewer than two inputs to combine`, { nodeId: node.id });
+        }
+        break;
+
+      case NodeType.JOIN:
+        if (incoming.length < 2) {
+          add('warning', 'SINGLE_INPUT', `${this.label(node)}: has fewer than two branches to wait for`, { nodeId: node.id });
+        }
+        break;
+
+      case NodeType.SUB_WORKFLOW:
+        if (!config.workflowId) {
+          missing('sub-workflow node needs a workflow to run');
+        } else if (workflowId && config.workflowId === workflowId) {
+          add('error', 'RECURSIVE_SUBWORKFLOW', `${this.label(node)}: a workflow can't run itself as a sub-workflow`, { nodeId: node.id });
+        }
+        break;
+    }
+  }
+
+  private reachableFrom(startId: string, edges: IEdge[]): Set<string> {
+    const seen = new Set<string>([startId]);
+    const queue = [startId];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const edge of edges) {
+        if (edge.source === current && !seen.has(edge.target)) {
+          seen.add(edge.target);
+          queue.push(edge.target);
+        }
+      }
+    }
+    return seen;
+  }
+
+  /**
+   * Find cycles, ignoring the edges that close a loop node's body since the loop handles those
+   */
+  private findCycles(nodes: INode[], edges: IEdge[]): string[][] {
+    const loopBackEdges = new Set<IEdge>();
+    for (const loop of nodes.filter(node => node.type === NodeType.LOOP)) {
+      const bodyStarts = edges.filter(edge => edge.source === loop.id && edge.sourceHandle === LOOP_BODY_HANDLE);
+      const body = new Set<string>();
+      for (const start of bodyStarts) {
+        for (const id of this.reachableFrom(start.target, edges.filter(edge => edge.source !== loop.id))) {
+          body.add(id);
+        }
+      }
+      edges.filter(edge => edge.target === loop.id && body.has(edge.source)).forEach(edge => loopBackEdges.add(edge));
+    }
+
+    const graph = edges.filter(edge => !loopBackEdges.has(edge));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (nodeId: string) => {
+      state.set(nodeId, 'visiting');
+      stack.push(nodeId);
+      for (const edge of graph.filter(e => e.source === nodeId)) {
+        if (state.get(edge.target) === 'visiting') {
+          cycles.push(stack.slice(stack.indexOf(edge.target)));
+        } else if (!state.has(edge.target)) {
+          visit(edge.target);
+        }
+      }
+      stack.pop();
+      state.set(nodeId, 'done');
+    };
+
+    for (const node of nodes) {
+      if (!state.has(node.id)) visit(node.id);
+    }
+    return cycles;
+  }
+
+  private label(node: INode): string {
+    return node.data?.title || node.data?.label || node.id;
+  }
+}
+
+export const workflowValidationService = new WorkflowValidationService();
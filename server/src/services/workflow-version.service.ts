@@ -0,0 +1,255 @@
+import { WorkflowModel } from '../models/workflow.model';
+import { WorkflowVersionModel, IWorkflowVersion } from '../models/workflow-version.model';
+import { INode, IEdge } from '../types/workflow.types';
+import { cacheService } from './cache.service';
+
+/**
+ * The parts of a workflow an execution runs on, frozen at one version
+ */
+export interface WorkflowDefinition {
+  workflowId: string;
+  version: number;
+  name: string;
+  nodes: INode[];
+  edges: IEdge[];
+  settings: Record<string, any>;
+}
+
+export interface WorkflowVersionDiff {
+  from: number;
+  to: number;
+  name?: { from: string; to: string };
+  nodes: { added: string[]; removed: string[]; changed: string[]; moved: string[] };
+  edges: { added: string[]; removed: string[]; changed: string[] };
+  settings: string[];
+}
+
+const DEFINITION_CACHE_TTL = 3600;
+const PUBLISH_ATTEMPTS = 3;
+
+// Only what affects execution counts as a change; positions are compared separately
+const normalizeNode = (node: any) => ({ id: node.id, type: node.type, data: node.data || {} });
+const normalizeEdge = (edge: any) => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  type: edge.type,
+  sourceHandle: edge.sourceHandle || null,
+  targetHandle: edge.targetHandle || null,
+  condition: edge.condition || null,
+  data: edge.data || {}
+});
+
+// Key-order independent JSON so Mixed fields compare by value
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined && key !== '_id')
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const plain = (value: any) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+class WorkflowVersionService {
+  /**
+   * Snapshot the live workflow as a new version unless it matches the latest snapshot
+   */
+  async publish(
+    workflowId: string,
+    options: { userId?: string; message?: string; restoredFrom?: number } = {}
+  ): Promise<IWorkflowVersion> {
+    // Concurrent publishes race on the unique (workflowId, version) index; the loser re-reads and retries
+    for (let attempt = 0; attempt < PUBLISH_ATTEMPTS; attempt++) {
+      const workflow = await WorkflowModel.findById(workflowId);
+      if (!workflow) {
+        throw new Error(`Workflow ${workflowId} not found`);
+      }
+
+      const latest = await WorkflowVersionModel.findOne({ workflowId }).sort({ version: -1 });
+      if (latest && this.isSameDefinition(latest, workflow)) {
+        return latest;
+      }
+
+      const version = latest ? Math.max(latest.version + 1, workflow.version) : workflow.version || 1;
+
+      try {
+        const snapshot = await WorkflowVersionModel.create({
+          workflowId,
+          version,
+          name: workflow.name,
+          description: workflow.description,
+          nodes: plain(workflow.nodes),
+          edges: plain(workflow.edges),
+          settings: plain(workflow.settings) || {},
+          createdBy: options.userId || workflow.metadata?.lastEditor,
+          message: options.message,
+          restoredFrom: options.restoredFrom
+        });
+
+        if (workflow.version !== version) {
+          await WorkflowModel.updateOne({ _id: workflowId }, { version });
+        }
+
+        console.log(`📌 Published workflow ${workflowId} version ${version}`);
+        return snapshot;
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+      }
+    }
+
+    throw new Error(`Could not publish a new version of workflow ${workflowId}`);
+  }
+
+  /**
+   * Load the definition an execution runs on; without a version, the live workflow is published first
+   */
+  async getDefinition(workflowId: string, version?: number): Promise<WorkflowDefinition> {
+    if (version === undefined) {
+      return this.toDefinition(await this.publish(workflowId));
+    }
+
+    // Versions never change once written, so they can be cached for as long as we like
+    const cacheKey = `workflow-version:${workflowId}:${version}`;
+    const cached = await cacheService.get<WorkflowDefinition>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const snapshot = await WorkflowVersionModel.findOne({ workflowId, version });
+    if (!snapshot) {
+      throw new Error(`Workflow ${workflowId} has no version ${version}`);
+    }
+
+    const definition = this.toDefinition(snapshot);
+    await cacheService.set(cacheKey, definition, DEFINITION_CACHE_TTL);
+    return definition;
+  }
+
+  /**
+   * List a workflow's versions, newest first, without their node and edge payloads
+   */
+  async listVersions(workflowId: string): Promise<IWorkflowVersion[]> {
+    return WorkflowVersionModel.find({ workflowId })
+      .select('-nodes -edges -settings')
+      .sort({ version: -1 });
+  }
+
+  async getVersion(workflowId: string, version: number): Promise<IWorkflowVersion | null> {
+    return WorkflowVersionModel.findOne({ workflowId, version });
+  }
+
+  /**
+   * Compare two versions node by node and edge by edge
+   */
+  async diffVersions(workflowId: string, from: number, to: number): Promise<WorkflowVersionDiff | null> {
+    const [before, after] = await Promise.all([this.getVersion(workflowId, from), this.getVersion(workflowId, to)]);
+    if (!before || !after) {
+      return null;
+    }
+
+    const nodes = this.diffById(before.nodes, after.nodes, normalizeNode);
+    const edges = this.diffById(before.edges, after.edges, normalizeEdge);
+
+    const beforePositions = new Map(before.nodes.map(node => [node.id, stableStringify(node.position)]));
+    const moved = after.nodes
+      .filter(node => beforePositions.has(node.id) && beforePositions.get(node.id) !== stableStringify(node.position))
+      .map(node => node.id);
+
+    const beforeSettings = before.settings || {};
+    const afterSettings = after.settings || {};
+    const settings = [...new Set([...Object.keys(beforeSettings), ...Object.keys(afterSettings)])]
+      .filter(key => key !== '_id' && stableStringify(beforeSettings[key]) !== stableStringify(afterSettings[key]));
+
+    return {
+      from,
+      to,
+      name: before.name !== after.name ? { from: before.name, to: after.name } : undefined,
+      nodes: { ...nodes, moved },
+      edges,
+      settings
+    };
+  }
+
+  /**
+   * Make an old version live again; it is published as a new version so history stays append-only
+   */
+  async restore(workflowId: string, version: number, userId?: string, message?: string): Promise<IWorkflowVersion> {
+    const snapshot = await this.getVersion(workflowId, version);
+    if (!snapshot) {
+      throw new Error(`Workflow ${workflowId} has no version ${version}`);
+    }
+
+    // Keep the current definition in history before overwriting it
+    await this.publish(workflowId, { userId });
+
+    await WorkflowModel.updateOne({ _id: workflowId }, {
+      name: snapshot.name,
+      description: snapshot.description,
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      settings: snapshot.settings,
+      'metadata.lastEditor': userId
+    });
+    await cacheService.del(`workflow:${workflowId}`);
+
+    return this.publish(workflowId, {
+      userId,
+      message: message || `Restored version ${version}`,
+      restoredFrom: version
+    });
+  }
+
+  /**
+   * Restore the version published before the current one
+   */
+  async rollback(workflowId: string, userId?: string): Promise<IWorkflowVersion> {
+    const current = await this.publish(workflowId, { userId });
+    const previous = await WorkflowVersionModel.findOne({ workflowId, version: { $lt: current.version } })
+      .sort({ version: -1 });
+    if (!previous) {
+      throw new Error(`Workflow ${workflowId} has no version before ${current.version}`);
+    }
+
+    return this.restore(workflowId, previous.version, userId, `Rolled back from version ${current.version}`);
+  }
+
+  private isSameDefinition(snapshot: IWorkflowVersion, workflow: any): boolean {
+    const definition = (source: any) => stableStringify({
+      name: source.name,
+      nodes: (plain(source.nodes) || []).map(normalizeNode),
+      edges: (plain(source.edges) || []).map(normalizeEdge),
+      settings: plain(source.settings) || {}
+    });
+    return definition(snapshot) === definition(workflow);
+  }
+
+  private diffById<T extends { id: string }>(before: T[], after: T[], normalize: (item: T) => any) {
+    const beforeById = new Map(before.map(item => [item.id, stableStringify(normalize(item))]));
+    const afterIds = new Set(after.map(item => item.id));
+
+    return {
+      added: after.filter(item => !beforeById.has(item.id)).map(item => item.id),
+      removed: before.filter(item => !afterIds.has(item.id)).map(item => item.id),
+      changed: after
+        .filter(item => beforeById.has(item.id) && beforeById.get(item.id) !== stableStringify(normalize(item)))
+        .map(item => item.id)
+    };
+  }
+
+  private toDefinition(snapshot: IWorkflowVersion): WorkflowDefinition {
+    return {
+      workflowId: snapshot.workflowId.toString(),
+      version: snapshot.version,
+      name: snapshot.name,
+      nodes: plain(snapshot.nodes),
+      edges: plain(snapshot.edges),
+      settings: plain(snapshot.settings) || {}
+    };
+  }
+}
+
+export const workflowVersionService = new WorkflowVersionService();
@@ -10,7 +10,14 @@ export interface IEdge {
   source: string;
   target: string;
   type: string;
+  sourceHandle?: string;
+  targetHandle?: string;
   condition?: string;
+  data?: {
+    condition?: string;
+    priority?: number;
+    retryOnFail?: boolean;
+  };
 }
 
 export enum NodeType {
@@ -24,7 +31,12 @@ export enum NodeType {
   FORM_BUILDER = 'form_builder', 
   DATA_TRANSFORM = 'data_transform',
   PUSH_NOTIFICATION = 'push_notification',
-  EMAIL_AUTOMATION = 'email_automation'
+  EMAIL_AUTOMATION = 'email_automation',
+  JOIN = 'join',
+  LOOP = 'loop',
+  MERGE = 'merge',
+  SWITCH = 'switch',
+  SUB_WORKFLOW = 'sub_workflow'
 }
 
 export interface IWorkflowExecution {
@@ -47,6 +59,13 @@ export enum WorkflowStatus {
   CANCELLED = 'cancelled'
 }
 
+// Lane a triggered run waits in before it starts; each lane has its own workers
+export enum ExecutionPriority {
+  CRITICAL = 'critical',
+  NORMAL = 'normal',
+  BULK = 'bulk'
+}
+
 export interface IExecutionEvent {
   id: string;
   executionId: string;
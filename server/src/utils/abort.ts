@@ -0,0 +1,51 @@
+/**
+ * Abort helpers
+ *
+ * Cancelling an execution aborts the AbortSignal carried by its context. Node work that waits on
+ * timers or the network passes the signal along so it stops as soon as the run is cancelled.
+ */
+
+/**
+ * Thrown by work that stopped because its execution was cancelled
+ */
+export class ExecutionAbortedError extends Error {
+  constructor(message: string = 'Execution was cancelled') {
+    super(message);
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+/**
+ * Throw if the signal was aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ExecutionAbortedError(abortMessage(signal));
+  }
+}
+
+/**
+ * Wait for ms milliseconds, rejecting with ExecutionAbortedError as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ExecutionAbortedError(abortMessage(signal)));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ExecutionAbortedError(abortMessage(signal!)));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortMessage(signal: AbortSignal): string {
+  return typeof signal.reason === 'string' ? signal.reason : 'Execution was cancelled';
+}
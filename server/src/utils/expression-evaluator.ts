@@ -0,0 +1,645 @@
+/**
+ * Sandboxed Expression Evaluator
+ *
+ * One expression language for decision nodes, edge conditions and data transforms.
+ * Expressions are parsed into an AST and interpreted; nothing is handed to eval/Function.
+ *
+ * Supported syntax:
+ *   - literals: 42, 3.5, "text", 'text', true, false, null, [1, 2, 3]
+ *   - paths: customer.tier, items[0].price, nodes["ai-1"].score, {{legacy.template}}
+ *   - operators: + - * / %  == != === !==  > >= < <=  contains  in  && || !  (and / or / not)
+ *   - functions: see BUILT_IN_FUNCTIONS below, e.g. lower(name), len(items), date(createdAt) < daysAgo(7)
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string, public expression?: string) {
+    super(expression ? `${message} in expression: ${expression}` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'punctuation'; value: string };
+
+type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'array'; elements: ExpressionNode[] };
+
+const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_NESTING_DEPTH = 64;
+const MAX_CACHED_EXPRESSIONS = 500;
+
+// Longest operators first so '===' is not read as '==' followed by '='
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '+', '-', '*', '/', '%', '!'];
+const PUNCTUATION = ['(', ')', '[', ']', '.', ','];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', contains: 'contains', in: 'in' };
+const LITERALS: Record<string, any> = { true: true, false: false, null: null, undefined: undefined };
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whitelisted functions callable from expressions
+ */
+const BUILT_IN_FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  // Strings
+  lower: (value: any) => toText(value).toLowerCase(),
+  upper: (value: any) => toText(value).toUpperCase(),
+  trim: (value: any) => toText(value).trim(),
+  startsWith: (value: any, prefix: any) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value: any, suffix: any) => toText(value).endsWith(toText(suffix)),
+  replace: (value: any, search: any, replacement: any) => toText(value).split(toText(search)).join(toText(replacement)),
+  substring: (value: any, start: any, end?: any) => toText(value).substring(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  split: (value: any, separator: any) => toText(value).split(toText(separator)),
+  concat: (...values: any[]) => values.map(toText).join(''),
+
+  // Arrays and collections
+  len: (value: any) => sizeOf(value),
+  length: (value: any) => sizeOf(value),
+  count: (value: any) => sizeOf(value),
+  contains: (collection: any, item: any) => containsValue(collection, item),
+  includes: (collection: any, item: any) => containsValue(collection, item),
+  join: (value: any, separator: any = ',') => toArray(value).map(toText).join(toText(separator)),
+  first: (value: any) => toArray(value)[0],
+  last: (value: any) => toArray(value).slice(-1)[0],
+  unique: (value: any) => [...new Set(toArray(value))],
+  sum: (value: any) => toArray(value).reduce((total: number, item: any) => total + toNumber(item), 0),
+  avg: (value: any) => {
+    const items = toArray(value);
+    return items.length > 0 ? items.reduce((total: number, item: any) => total + toNumber(item), 0) / items.length : 0;
+  },
+  min: (...values: any[]) => Math.min(...flattenArgs(values).map(toNumber)),
+  max: (...values: any[]) => Math.max(...flattenArgs(values).map(toNumber)),
+
+  // Numbers
+  number: (value: any) => toNumber(value),
+  abs: (value: any) => Math.abs(toNumber(value)),
+  floor: (value: any) => Math.floor(toNumber(value)),
+  ceil: (value: any) => Math.ceil(toNumber(value)),
+  round: (value: any, digits: any = 0) => {
+    const factor = Math.pow(10, toNumber(digits));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+
+  // Types and presence
+  string: (value: any) => toText(value),
+  bool: (value: any) => Boolean(value),
+  exists: (value: any) => value !== undefined && value !== null,
+  isEmpty: (value: any) => value === undefined || value === null || sizeOf(value) === 0,
+  coalesce: (...values: any[]) => values.find(value => value !== undefined && value !== null && value !== ''),
+
+  // Dates
+  now: () => new Date(),
+  today: () => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    return date;
+  },
+  date: (value: any) => toDate(value),
+  daysAgo: (days: any) => new Date(Date.now() - toNumber(days) * DAY_MS),
+  daysFromNow: (days: any) => new Date(Date.now() + toNumber(days) * DAY_MS),
+  addDays: (value: any, days: any) => {
+    const date = toDate(value);
+    return date ? new Date(date.getTime() + toNumber(days) * DAY_MS) : null;
+  },
+  dateDiff: (left: any, right: any, unit: any = 'days') => {
+    const a = toDate(left);
+    const b = toDate(right);
+    if (!a || !b) return null;
+    const divisors: Record<string, number> = { ms: 1, seconds: 1000, minutes: 60000, hours: 3600000, days: DAY_MS };
+    return (a.getTime() - b.getTime()) / (divisors[toText(unit)] || DAY_MS);
+  },
+  year: (value: any) => toDate(value)?.getFullYear() ?? null,
+  month: (value: any) => {
+    const date = toDate(value);
+    return date ? date.getMonth() + 1 : null;
+  },
+  day: (value: any) => toDate(value)?.getDate() ?? null,
+  weekday: (value: any) => toDate(value)?.getDay() ?? null
+};
+
+export class ExpressionEvaluator {
+  private static cache: Map<string, ExpressionNode> = new Map();
+
+  /**
+   * Evaluate an expression against a scope of variables and return its value
+   */
+  static evaluate(expression: string, scope: Record<string, any> = {}): any {
+    return this.evaluateNode(this.parse(expression), scope || {}, expression);
+  }
+
+  /**
+   * Evaluate an expression as a condition; any evaluation error counts as false
+   */
+  static evaluateCondition(expression: string, scope: Record<string, any> = {}): boolean {
+    try {
+      return Boolean(this.evaluate(expression, scope));
+    } catch (error) {
+      console.warn('Failed to evaluate condition:', expression, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Check an expression for syntax errors without evaluating it
+   */
+  static validate(expression: string): { valid: boolean; error?: string } {
+    try {
+      this.parse(expression);
+      return { valid: true };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Names of the functions available inside expressions
+   */
+  static getAvailableFunctions(): string[] {
+    return Object.keys(BUILT_IN_FUNCTIONS);
+  }
+
+  private static parse(expression: string): ExpressionNode {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+      throw new ExpressionError('Expression is empty');
+    }
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    const cached = this.cache.get(expression);
+    if (cached) return cached;
+
+    // Legacy {{path}} references are plain paths in this language
+    const normalized = expression.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, '($1)');
+    const ast = new Parser(tokenize(normalized, expression), expression).parse();
+
+    if (this.cache.size >= MAX_CACHED_EXPRESSIONS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(expression, ast);
+
+    return ast;
+  }
+
+  private static evaluateNode(node: ExpressionNode, scope: Record<string, any>, expression: string): any {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return readProperty(scope, node.name);
+
+      case 'array':
+        return node.elements.map(element => this.evaluateNode(element, scope, expression));
+
+      case 'member': {
+        const object = this.evaluateNode(node.object, scope, expression);
+        const property = this.evaluateNode(node.property, scope, expression);
+        return readProperty(object, property);
+      }
+
+      case 'call': {
+        const fn = BUILT_IN_FUNCTIONS[node.callee];
+        if (!fn) {
+          throw new ExpressionError(`Unknown function '${node.callee}'`, expression);
+        }
+        return fn(...node.args.map(arg => this.evaluateNode(arg, scope, expression)));
+      }
+
+      case 'unary': {
+        const value = this.evaluateNode(node.argument, scope, expression);
+        return node.operator === '!' ? !value : -toNumber(value);
+      }
+
+      case 'logical': {
+        const left = this.evaluateNode(node.left, scope, expression);
+        if (node.operator === '&&') {
+          return left ? this.evaluateNode(node.right, scope, expression) : left;
+        }
+        return left ? left : this.evaluateNode(node.right, scope, expression);
+      }
+
+      case 'binary':
+        return applyBinary(
+          node.operator,
+          this.evaluateNode(node.left, scope, expression),
+          this.evaluateNode(node.right, scope, expression),
+          expression
+        );
+    }
+  }
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string, expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new ExpressionError('Unterminated string', expression);
+      }
+      index++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    // Identifiers and word operators
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index))!;
+      const word = match[0];
+      const previous = tokens[tokens.length - 1];
+      const isPropertyName = previous?.type === 'punctuation' && previous.value === '.';
+      const isFunctionCall = !!BUILT_IN_FUNCTIONS[word] && /^\s*\(/.test(source.slice(index + word.length));
+      if (WORD_OPERATORS[word] && !isPropertyName && !isFunctionCall) {
+        tokens.push({ type: 'operator', value: WORD_OPERATORS[word] });
+      } else {
+        tokens.push({ type: 'identifier', value: word });
+      }
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      index += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, expression);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser, lowest precedence first:
+ * || → && → equality → comparison → additive → multiplicative → unary → postfix → primary
+ */
+class Parser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[], private expression: string) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError(`Unexpected token '${this.tokens[this.position].value}'`, this.expression);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseComparison();
+    let operator: string | null;
+    while ((operator = this.matchOperator('===', '!==', '==', '!='))) {
+      left = { type: 'binary', operator, left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    let left = this.parseAdditive();
+    let operator: string | null;
+    while ((operator = this.matchOperator('>', '>=', '<', '<=', 'contains', 'in'))) {
+      left = { type: 'binary', operator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let operator: string | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator: string | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchOperator('!', '-');
+    if (operator) {
+      return this.nested(() => ({ type: 'unary', operator, argument: this.parseUnary() }));
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      if (this.matchPunctuation('.')) {
+        const token = this.next();
+        if (!token || token.type !== 'identifier') {
+          throw new ExpressionError('Expected property name after \'.\'', this.expression);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.matchPunctuation('[')) {
+        const property = this.nested(() => this.parseOr());
+        this.expectPunctuation(']');
+        node = { type: 'member', object: node, property };
+      } else if (this.peekPunctuation('(')) {
+        if (node.type !== 'identifier') {
+          throw new ExpressionError('Only built-in functions can be called', this.expression);
+        }
+        this.position++;
+        node = { type: 'call', callee: node.name, args: this.parseList(')') };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.expression);
+    }
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(LITERALS, token.value)) {
+          return { type: 'literal', value: LITERALS[token.value] };
+        }
+        return { type: 'identifier', name: token.value };
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.nested(() => this.parseOr());
+          this.expectPunctuation(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']') };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected token '${token.value}'`, this.expression);
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchPunctuation(closing)) return items;
+
+    do {
+      items.push(this.nested(() => this.parseOr()));
+    } while (this.matchPunctuation(','));
+
+    this.expectPunctuation(closing);
+    return items;
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', this.expression);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.tokens[this.position];
+    if (token && token.type === 'operator' && operators.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private peekPunctuation(value: string): boolean {
+    const token = this.tokens[this.position];
+    return !!token && token.type === 'punctuation' && token.value === value;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (this.peekPunctuation(value)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      throw new ExpressionError(`Expected '${value}'`, this.expression);
+    }
+  }
+}
+
+function applyBinary(operator: string, left: any, right: any, expression: string): any {
+  switch (operator) {
+    case '==': return looseEquals(left, right);
+    case '!=': return !looseEquals(left, right);
+    case '===': return left === right;
+    case '!==': return left !== right;
+    case '>': return compare(left, right) > 0;
+    case '>=': return compare(left, right) >= 0;
+    case '<': return compare(left, right) < 0;
+    case '<=': return compare(left, right) <= 0;
+    case 'contains': return containsValue(left, right);
+    case 'in': return containsValue(right, left);
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? toText(left) + toText(right)
+        : toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': return toNumber(left) / toNumber(right);
+    case '%': return toNumber(left) % toNumber(right);
+    default:
+      throw new ExpressionError(`Unknown operator '${operator}'`, expression);
+  }
+}
+
+/**
+ * Own-property lookup only, so expressions can't reach prototypes or globals
+ */
+export function readProperty(target: any, property: any): any {
+  if (target === undefined || target === null) return undefined;
+
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) return undefined;
+
+  if ((typeof target === 'string' || Array.isArray(target)) && key === 'length') {
+    return target.length;
+  }
+  if (typeof target !== 'object' && typeof target !== 'string') return undefined;
+
+  return Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+}
+
+function looseEquals(left: any, right: any): boolean {
+  if ((left === undefined || left === null) && (right === undefined || right === null)) return true;
+  if (left === undefined || left === null || right === undefined || right === null) return false;
+
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    return !!a && !!b && a.getTime() === b.getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return isNumeric(left) && isNumeric(right) && Number(left) === Number(right);
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left) === String(right);
+  }
+  return left === right;
+}
+
+/**
+ * Order two values: dates by time, numeric values numerically, everything else as text
+ */
+function compare(left: any, right: any): number {
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    if (!a || !b) return NaN;
+    return a.getTime() - b.getTime();
+  }
+  if (isNumeric(left) && isNumeric(right)) {
+    return Number(left) - Number(right);
+  }
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return NaN;
+  }
+  const a = toText(left);
+  const b = toText(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function containsValue(collection: any, item: any): boolean {
+  if (collection === undefined || collection === null) return false;
+  if (Array.isArray(collection)) return collection.some(entry => looseEquals(entry, item));
+  if (typeof collection === 'string') return collection.includes(toText(item));
+  if (typeof collection === 'object') return Object.prototype.hasOwnProperty.call(collection, toText(item));
+  return false;
+}
+
+function isNumeric(value: any): boolean {
+  if (typeof value === 'number') return !isNaN(value);
+  if (typeof value === 'string') return value.trim() !== '' && !isNaN(Number(value));
+  return false;
+}
+
+function toNumber(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === null || value === undefined || value === '') return 0;
+  return Number(value);
+}
+
+export function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function toDate(value: any): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toArray(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+  return [value];
+}
+
+function flattenArgs(values: any[]): any[] {
+  return values.length === 1 && Array.isArray(values[0]) ? values[0] : values;
+}
+
+function sizeOf(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (typeof value === 'object') return Object.keys(value).length;
+  return 0;
+}
@@ -0,0 +1,211 @@
+/**
+ * JSON Schema validation for AI node output
+ *
+ * Supports the keywords output schemas need in practice: type, enum, const, properties, required,
+ * additionalProperties, items, min/maxItems, min/maxLength, pattern, minimum/maximum and
+ * anyOf/oneOf/allOf. Unknown keywords are ignored, as the spec requires.
+ */
+
+export interface SchemaValidationError {
+  path: string; // JSONPath-style location, e.g. $.items[2].category
+  message: string;
+}
+
+const TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * Read a schema from node config, where it may be an object or JSON text
+ */
+export function parseJsonSchema(raw: unknown): { schema?: Record<string, any>; error?: string } {
+  let schema = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return {};
+    try {
+      schema = JSON.parse(raw);
+    } catch (error) {
+      return { error: `schema is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+    }
+  }
+
+  if (schema === undefined || schema === null) return {};
+  if (typeof schema !== 'object' || Array.isArray(schema)) {
+    return { error: 'schema must be a JSON object' };
+  }
+
+  const types = ([] as any[]).concat((schema as any).type ?? []);
+  const unknown = types.find(type => !TYPES.includes(type));
+  if (unknown !== undefined) {
+    return { error: `unknown type "${unknown}"` };
+  }
+
+  const problem = findPatternProblem(schema, '$');
+  if (problem) {
+    return { error: problem };
+  }
+  return { schema: schema as Record<string, any> };
+}
+
+/**
+ * Compile every pattern in the schema and its subschemas, so a bad one is caught when the schema is saved
+ */
+function findPatternProblem(schema: any, path: string): string | undefined {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return undefined;
+
+  if (typeof schema.pattern === 'string') {
+    try {
+      new RegExp(schema.pattern, 'u');
+    } catch (error) {
+      return `invalid pattern at ${path}: ${error instanceof Error ? error.message : 'not a regular expression'}`;
+    }
+  }
+
+  const subschemas: Array<[any, string]> = [
+    ...Object.entries<any>(schema.properties || {}).map(([key, subschema]): [any, string] => [subschema, propertyPath(path, key)]),
+    [schema.additionalProperties, `${path}.*`],
+    [schema.items, `${path}[]`],
+    ...(['allOf', 'anyOf', 'oneOf'] as const).flatMap(keyword =>
+      (Array.isArray(schema[keyword]) ? schema[keyword] : []).map((subschema: any, index: number): [any, string] => [subschema, `${path}.${keyword}[${index}]`]))
+  ];
+  for (const [subschema, at] of subschemas) {
+    const problem = findPatternProblem(subschema, at);
+    if (problem) return problem;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a schema, returning every problem found (empty when valid)
+ */
+export function validateJsonSchema(value: any, schema: Record<string, any> | boolean, path: string = '$'): SchemaValidationError[] {
+  if (schema === true || schema === undefined) return [];
+  if (schema === false) return [{ path, message: 'is not allowed' }];
+
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string, at: string = path) => errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return errors; // Further checks would only repeat the type mismatch
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      // Schemas are checked when saved, but one stored before that may still hold a bad pattern
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(schema.pattern, 'u');
+      } catch {
+        fail(`has an invalid schema pattern ${schema.pattern}`);
+      }
+      if (pattern && !pattern.test(value)) {
+        fail(`must match pattern ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (value[key] === undefined) {
+        fail('is required', propertyPath(path, key));
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (properties[key] !== undefined) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], propertyPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        fail('is not an allowed property', propertyPath(path, key));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, propertyPath(path, key)));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subschema: any) => errors.push(...validateJsonSchema(value, subschema, path)));
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((subschema: any) => validateJsonSchema(value, subschema, path).length === 0)) {
+    fail('must match at least one of the allowed schemas (anyOf)');
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((subschema: any) => validateJsonSchema(value, subschema, path).length === 0).length;
+    if (matches !== 1) {
+      fail(`must match exactly one of the allowed schemas (oneOf), matched ${matches}`);
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,89 @@
+/**
+ * State Patch
+ *
+ * Minimal structural diff between two JSON values, used by the execution event log to store
+ * each event as the change it made to the execution context rather than a full copy.
+ *
+ *   - objects are compared key by key; removed keys become an unset operation
+ *   - arrays that only grew are patched per index; any other array change replaces the array
+ *   - everything else is compared by value and replaced when it differs
+ *
+ * Both sides must be plain JSON (run them through JSON.parse(JSON.stringify(...)) first).
+ */
+
+export type StatePath = Array<string | number>;
+
+export type StatePatchOperation =
+  | { op: 'set'; path: StatePath; value: any }
+  | { op: 'unset'; path: StatePath };
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Operations that turn `before` into `after`
+ */
+export function diffState(before: any, after: any, path: StatePath = []): StatePatchOperation[] {
+  if (before === after) {
+    return [];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const operations: StatePatchOperation[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        operations.push({ op: 'unset', path: [...path, key] });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      operations.push(...diffState(before[key], after[key], [...path, key]));
+    }
+    return operations;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && after.length >= before.length) {
+    const operations: StatePatchOperation[] = [];
+    after.forEach((item, index) => {
+      operations.push(...diffState(before[index], item, [...path, index]));
+    });
+    return operations;
+  }
+
+  if (typeof before !== 'object' || typeof after !== 'object' || JSON.stringify(before) !== JSON.stringify(after)) {
+    return [{ op: 'set', path, value: after }];
+  }
+
+  return [];
+}
+
+/**
+ * Apply operations from diffState to a JSON value. The value is modified in place and returned;
+ * an operation on the empty path replaces it.
+ */
+export function applyStatePatch<T = any>(state: T, operations: StatePatchOperation[]): T {
+  let root: any = state;
+
+  for (const operation of operations) {
+    if (operation.path.length === 0) {
+      root = operation.op === 'set' ? operation.value : undefined;
+      continue;
+    }
+
+    let target = root;
+    for (const [index, key] of operation.path.slice(0, -1).entries()) {
+      if (target[key] === null || typeof target[key] !== 'object') {
+        target[key] = typeof operation.path[index + 1] === 'number' ? [] : {};
+      }
+      target = target[key];
+    }
+
+    const last = operation.path[operation.path.length - 1];
+    if (operation.op === 'set') {
+      target[last] = operation.value;
+    } else {
+      delete target[last];
+    }
+  }
+
+  return root;
+}
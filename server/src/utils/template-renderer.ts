@@ -0,0 +1,318 @@
+/**
+ * Template Renderer
+ *
+ * Resolves {{placeholders}} in node configs, notification templates and form emails.
+ *
+ * Supported syntax:
+ *   - paths: {{customer.name}}, {{httpResponse.data.items[0].id}}, {{row["first-name"]}}
+ *   - node outputs: {{ai-1.result}}, {{http-2.data.id}} (resolved by node id when no variable matches)
+ *   - defaults: {{customer.name | default:"there"}}
+ *   - filters: {{name | upper}}, {{payload | json}}, {{createdAt | date:"YYYY-MM-DD"}}
+ *
+ * Placeholders that can't be resolved and have no default are left untouched.
+ */
+
+import { readProperty, toDate, toText } from './expression-evaluator';
+
+export interface TemplateRenderOptions {
+  nodes?: Record<string, any>; // Node outputs keyed by node id
+}
+
+interface ParsedPlaceholder {
+  path: Array<string | number>;
+  filters: Array<{ name: string; args: string[] }>;
+}
+
+type TemplateFilter = (value: any, ...args: string[]) => any;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const MAX_CACHED_PLACEHOLDERS = 500;
+
+const MISSING = Symbol('missing');
+
+/**
+ * Filters available after a pipe, e.g. {{name | trim | upper}}
+ */
+const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  truncate: (value, length = '100', suffix = '...') => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? text.slice(0, max) + suffix : text;
+  },
+  replace: (value, search = '', replacement = '') => toText(value).split(search).join(replacement),
+  json: (value, indent) => JSON.stringify(value ?? null, null, indent ? Number(indent) : undefined),
+  number: (value, digits) => {
+    const number = Number(value);
+    if (isNaN(number)) return value;
+    return digits !== undefined ? number.toFixed(Number(digits)) : number;
+  },
+  round: (value, digits = '0') => {
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  length: (value) => {
+    if (Array.isArray(value) || typeof value === 'string') return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  last: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value)),
+  urlencode: (value) => encodeURIComponent(toText(value)),
+  date: (value, format = 'iso') => {
+    const date = toDate(value);
+    return date ? formatDate(date, format) : value;
+  }
+};
+
+export class TemplateRenderer {
+  private static cache: Map<string, ParsedPlaceholder | null> = new Map();
+
+  /**
+   * Render every {{placeholder}} in a string
+   */
+  static render(template: string, variables: Record<string, any> = {}, options: TemplateRenderOptions = {}): string {
+    if (typeof template !== 'string' || !template.includes('{{')) {
+      return template;
+    }
+
+    return template.replace(PLACEHOLDER_PATTERN, (match, body: string) => {
+      const placeholder = this.parsePlaceholder(body);
+      if (!placeholder) return match;
+
+      const value = this.resolvePlaceholder(placeholder, variables || {}, options);
+      return value === MISSING ? match : toText(value);
+    });
+  }
+
+  /**
+   * Render placeholders in every string of an object, array or scalar
+   */
+  static renderObject<T = any>(value: T, variables: Record<string, any> = {}, options: TemplateRenderOptions = {}): T {
+    if (typeof value === 'string') {
+      return this.render(value, variables, options) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.renderObject(item, variables, options)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.renderObject(item, variables, options);
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  /**
+   * Render a mapping value: a lone {{placeholder}} keeps its raw type (arrays, objects, numbers),
+   * anything else renders to a string
+   */
+  static renderValue(template: any, variables: Record<string, any> = {}, options: TemplateRenderOptions = {}): any {
+    if (typeof template !== 'string') {
+      return this.renderObject(template, variables, options);
+    }
+
+    const single = /^\s*\{\{\s*([^{}]+?)\s*\}\}\s*$/.exec(template);
+    if (single) {
+      const value = this.resolve(single[1], variables, options);
+      return value === undefined ? template : value;
+    }
+
+    return this.render(template, variables, options);
+  }
+
+  /**
+   * Resolve a single placeholder body (without braces) to its raw value
+   */
+  static resolve(expression: string, variables: Record<string, any> = {}, options: TemplateRenderOptions = {}): any {
+    const placeholder = this.parsePlaceholder(expression);
+    if (!placeholder) return undefined;
+
+    const value = this.resolvePlaceholder(placeholder, variables || {}, options);
+    return value === MISSING ? undefined : value;
+  }
+
+  /**
+   * Names of the filters available after a pipe
+   */
+  static getAvailableFilters(): string[] {
+    return ['default', ...Object.keys(TEMPLATE_FILTERS)];
+  }
+
+  private static resolvePlaceholder(
+    placeholder: ParsedPlaceholder,
+    variables: Record<string, any>,
+    options: TemplateRenderOptions
+  ): any {
+    let value: any = this.lookup(placeholder.path, variables, options);
+
+    for (const filter of placeholder.filters) {
+      if (filter.name === 'default') {
+        if (value === MISSING || value === undefined || value === null || value === '') {
+          value = filter.args[0] ?? '';
+        }
+        continue;
+      }
+      if (value === MISSING) continue;
+
+      const apply = TEMPLATE_FILTERS[filter.name];
+      if (!apply) {
+        console.warn(`Unknown template filter '${filter.name}'`);
+        continue;
+      }
+      value = apply(value, ...filter.args);
+    }
+
+    return value === undefined ? MISSING : value;
+  }
+
+  /**
+   * Variables win over node ids so existing templates keep their meaning
+   */
+  private static lookup(path: Array<string | number>, variables: Record<string, any>, options: TemplateRenderOptions): any {
+    const fromVariables = readPath(variables, path);
+    if (fromVariables !== undefined) return fromVariables;
+
+    const [nodeId, ...rest] = path;
+    if (options.nodes && Object.prototype.hasOwnProperty.call(options.nodes, nodeId)) {
+      const fromNode = readPath(options.nodes[nodeId], rest);
+      if (fromNode !== undefined) return fromNode;
+    }
+
+    return MISSING;
+  }
+
+  private static parsePlaceholder(body: string): ParsedPlaceholder | null {
+    const cached = this.cache.get(body);
+    if (cached !== undefined) return cached;
+
+    let parsed: ParsedPlaceholder | null = null;
+    try {
+      const [pathSource, ...filterSources] = splitOutsideQuotes(body, '|');
+      const path = parsePath(pathSource.trim());
+      if (path.length > 0) {
+        parsed = { path, filters: filterSources.map(parseFilter) };
+      }
+    } catch {
+      parsed = null;
+    }
+
+    if (this.cache.size >= MAX_CACHED_PLACEHOLDERS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(body, parsed);
+
+    return parsed;
+  }
+}
+
+function readPath(target: any, path: Array<string | number>): any {
+  let current = target;
+  for (const segment of path) {
+    current = readProperty(current, segment);
+    if (current === undefined) return undefined;
+  }
+  return current;
+}
+
+/**
+ * Split `a.b[0]["c-d"]` into ['a', 'b', 0, 'c-d']; segments may contain hyphens so node ids work
+ */
+function parsePath(source: string): Array<string | number> {
+  const path: Array<string | number> = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '.') {
+      index++;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end === -1) throw new Error(`Unclosed '[' in template path: ${source}`);
+      const inner = source.slice(index + 1, end).trim();
+      path.push(/^-?\d+$/.test(inner) ? Number(inner) : unquote(inner));
+      index = end + 1;
+      continue;
+    }
+
+    const match = /^[\w$-]+/.exec(source.slice(index));
+    if (!match) throw new Error(`Invalid template path: ${source}`);
+    path.push(match[0]);
+    index += match[0].length;
+  }
+
+  return path;
+}
+
+function parseFilter(source: string): { name: string; args: string[] } {
+  const separator = source.indexOf(':');
+  if (separator === -1) {
+    return { name: source.trim(), args: [] };
+  }
+  return {
+    name: source.slice(0, separator).trim(),
+    args: splitOutsideQuotes(source.slice(separator + 1), ',').map(arg => unquote(arg.trim()))
+  };
+}
+
+function splitOutsideQuotes(source: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === delimiter) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Token-based date formatting: YYYY, MM, DD, HH, mm, ss; 'iso' and 'timestamp' are shortcuts
+ */
+function formatDate(date: Date, format: string): string {
+  if (format === 'iso') return date.toISOString();
+  if (format === 'timestamp') return String(date.getTime());
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
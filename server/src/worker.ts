@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectDatabase } from './database/connection';
+import { queueService } from './services/queue.service';
+import { EventBus } from './engine/event-bus';
+import { config } from './config/config';
+
+/**
+ * Execution worker: runs workflow steps, timers and queued starts taken from Redis.
+ * Start as many as needed next to API processes running with ENGINE_MODE=queue.
+ */
+async function startWorker() {
+  try {
+    if (config.engine.mode !== 'queue') {
+      console.warn('⚠️ ENGINE_MODE is not "queue": API processes will keep running steps themselves');
+    }
+
+    console.log('🔌 Connecting to database...');
+    await connectDatabase();
+
+    // API processes own the client connections, so they need to hear about what happens here
+    EventBus.getInstance().forwardEvents();
+
+    queueService.startProcessing({ engineJobs: true, concurrency: config.engine.workerConcurrency });
+    console.log(`👷 Worker ${process.pid} started with concurrency ${config.engine.workerConcurrency}`);
+
+    const shutdown = async (signal: string) => {
+      console.log(`🛑 ${signal} received, finishing current jobs...`);
+      await queueService.close();
+      await EventBus.getInstance().closeForwarding();
+      console.log('✅ Worker stopped');
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+
+  } catch (error) {
+    console.error('❌ Failed to start worker:', error);
+    process.exit(1);
+  }
+}
+
+startWorker();